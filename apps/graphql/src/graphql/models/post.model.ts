@@ -8,7 +8,7 @@
  */
 import { TextImageRecordType } from '@libs/db/models/base.model'
 import Post from '@libs/db/models/post.model'
-import { Field, ObjectType } from '@nestjs/graphql'
+import { Field, ID, Int, ObjectType } from '@nestjs/graphql'
 import {
   BaseGLModel,
   ImageRecordModel,
@@ -17,6 +17,52 @@ import {
   PostItemCount,
 } from './base.model'
 import { CategoryItemModel } from './category.model'
+
+@ObjectType()
+export class SeriesNavCategoryModel {
+  name: string
+
+  slug: string
+}
+
+@ObjectType()
+export class SeriesNavItemModel {
+  @Field(() => ID)
+  public readonly _id: string
+
+  public readonly refType: string
+
+  public readonly title: string
+
+  public readonly slug?: string
+
+  @Field(() => Int, { nullable: true })
+  public readonly nid?: number
+
+  @Field(() => SeriesNavCategoryModel, { nullable: true })
+  public readonly category?: SeriesNavCategoryModel
+}
+
+@ObjectType()
+export class PostSeriesModel {
+  public readonly title: string
+
+  /**
+   * 从 0 开始
+   */
+  @Field(() => Int)
+  public readonly index: number
+
+  @Field(() => Int)
+  public readonly total: number
+
+  @Field(() => SeriesNavItemModel, { nullable: true })
+  public readonly prev?: SeriesNavItemModel
+
+  @Field(() => SeriesNavItemModel, { nullable: true })
+  public readonly next?: SeriesNavItemModel
+}
+
 @ObjectType()
 export class PostItemModel extends BaseGLModel implements Post {
   public readonly title: string
@@ -50,6 +96,9 @@ export class PostItemModel extends BaseGLModel implements Post {
   @Field(() => [String], { nullable: true })
   public readonly tags: string[]
 
+  @Field(() => PostSeriesModel, { nullable: true })
+  public readonly series?: PostSeriesModel
+
   created: Date
   modified: Date
 }
@@ -7,21 +7,29 @@
  * @Mark: Coding with Love
  */
 import { NotFoundException, UseGuards, UseInterceptors } from '@nestjs/common'
-import { Args, Query, Resolver } from '@nestjs/graphql'
+import { Args, Parent, Query, ResolveField, Resolver } from '@nestjs/graphql'
 import { RolesGQLGuard } from 'apps/server/src/auth/roles.guard'
 import { MasterGQL } from 'shared/core/decorators/guest.decorator'
 import { PermissionGQLInterceptor } from 'shared/core/interceptors/permission.interceptors'
 import { addConditionToSeeHideContent, yearCondition } from 'shared/utils'
 import { IdInputArgsDto, PagerArgsDto } from '../../graphql/args/id.input'
-import { PostItemModel, PostPagerModel } from '../../graphql/models/post.model'
+import {
+  PostItemModel,
+  PostPagerModel,
+  PostSeriesModel,
+} from '../../graphql/models/post.model'
+import { SeriesService } from '../series/series.service'
 import { SlugTitleInput } from './posts.input'
 import { PostsService } from './posts.service'
 
-@Resolver()
+@Resolver(() => PostItemModel)
 @UseGuards(RolesGQLGuard)
 @UseInterceptors(PermissionGQLInterceptor)
 export class PostsResolver {
-  constructor(private postService: PostsService) {}
+  constructor(
+    private postService: PostsService,
+    private seriesService: SeriesService,
+  ) {}
 
   @Query(() => PostItemModel)
   public async getPostById(@Args() { id }: IdInputArgsDto) {
@@ -69,4 +77,12 @@ export class PostsResolver {
     })
   }
   // TODO search
+
+  @ResolveField(() => PostSeriesModel, { nullable: true })
+  public async series(
+    @Parent() post: PostItemModel,
+    @MasterGQL() isMaster: boolean,
+  ) {
+    return await this.seriesService.getNavigation(post._id, isMaster)
+  }
 }
@@ -0,0 +1,26 @@
+import Note from '@libs/db/models/note.model'
+import Post from '@libs/db/models/post.model'
+import { Series } from '@libs/db/models/series.model'
+import { Injectable } from '@nestjs/common'
+import { ReturnModelType } from '@typegoose/typegoose'
+import { InjectModel } from 'nestjs-typegoose'
+import { getSeriesNavigation } from 'shared/utils/series'
+import { BaseService } from '../base/base.service'
+
+@Injectable()
+export class SeriesService extends BaseService<Series> {
+  constructor(
+    @InjectModel(Series)
+    private readonly model: ReturnModelType<typeof Series>,
+    @InjectModel(Post)
+    private readonly postModel: ReturnModelType<typeof Post>,
+    @InjectModel(Note)
+    private readonly noteModel: ReturnModelType<typeof Note>,
+  ) {
+    super(model)
+  }
+
+  async getNavigation(id: string, isMaster: boolean) {
+    return await getSeriesNavigation.call(this, id, isMaster)
+  }
+}
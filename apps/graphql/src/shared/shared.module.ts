@@ -17,6 +17,7 @@ import { AggregateResolver } from './aggregate/aggregate.resolver'
 import { AggregateService } from './aggregate/aggregate.service'
 import { PagesResolver } from './pages/pages.resolver'
 import { PagesService } from './pages/pages.service'
+import { SeriesService } from './series/series.service'
 
 @Module({
   providers: [
@@ -30,6 +31,7 @@ import { PagesService } from './pages/pages.service'
     AggregateService,
     PagesResolver,
     PagesService,
+    SeriesService,
   ],
 })
 export class SharedModule {}
@@ -20,6 +20,7 @@ import {
 import { plainToClass } from 'class-transformer'
 import { validate } from 'class-validator'
 import { RedisService } from 'nestjs-redis'
+import { Subject } from 'rxjs'
 import { BaseGateway } from '../base.gateway'
 import { EventTypes } from '../events.types'
 import { DanmakuDto } from './dtos/danmaku.dto'
@@ -35,6 +36,16 @@ export class WebEventsGateway
     super()
   }
 
+  /**
+   * 广播的事件也会发到这里, 供服务端内部订阅
+   */
+  readonly events$ = new Subject<{ type: EventTypes; data: any }>()
+
+  async broadcast(event: EventTypes, message: any) {
+    this.events$.next({ type: event, data: message })
+    return super.broadcast(event, message)
+  }
+
   // @SubscribeMessage(EventTypes.VISITOR_ONLINE)
   async sendOnlineNumber() {
     return {
@@ -0,0 +1,88 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  Query,
+  Req,
+  Res,
+} from '@nestjs/common'
+import { ApiOperation, ApiTags } from '@nestjs/swagger'
+import { FastifyReply, FastifyRequest } from 'fastify'
+import {
+  ObjectParamsDto,
+  OutboxQueryDto,
+  WebfingerQueryDto,
+} from './activitypub.dto'
+import { ActivityPubService } from './activitypub.service'
+
+const ACTIVITY_TYPE = 'application/activity+json; charset=utf-8'
+
+/**
+ * 文档都直接发送, 不经过响应拦截器的 snake_case 转换
+ */
+@Controller()
+@ApiTags('ActivityPub Routes')
+export class ActivityPubController {
+  constructor(private readonly service: ActivityPubService) {}
+
+  @Get('.well-known/webfinger')
+  @ApiOperation({
+    summary: 'WebFinger, 需要反向代理把站点域名下的同名路径转发过来',
+  })
+  async webfinger(
+    @Query() query: WebfingerQueryDto,
+    @Res() reply: FastifyReply,
+  ) {
+    reply
+      .type('application/jrd+json; charset=utf-8')
+      .send(await this.service.webfinger(query.resource))
+  }
+
+  @Get('activitypub/actor')
+  @ApiOperation({ summary: '主人的 actor' })
+  async getActor(@Res() reply: FastifyReply) {
+    reply.type(ACTIVITY_TYPE).send(await this.service.getActor())
+  }
+
+  @Get('activitypub/outbox')
+  @ApiOperation({ summary: '发件箱, 包括公开的文章和记录' })
+  async getOutbox(@Query() query: OutboxQueryDto, @Res() reply: FastifyReply) {
+    reply.type(ACTIVITY_TYPE).send(await this.service.getOutbox(query.page))
+  }
+
+  @Get('activitypub/followers')
+  @ApiOperation({ summary: '关注者集合, 只有数量' })
+  async getFollowers(@Res() reply: FastifyReply) {
+    reply.type(ACTIVITY_TYPE).send(await this.service.getFollowers())
+  }
+
+  @Get('activitypub/objects/:type/:id')
+  @ApiOperation({ summary: '文章或记录对应的对象' })
+  async getObject(
+    @Param() params: ObjectParamsDto,
+    @Res() reply: FastifyReply,
+  ) {
+    reply
+      .type(ACTIVITY_TYPE)
+      .send(await this.service.getObject(params.type, params.id))
+  }
+
+  @Post('activitypub/inbox')
+  @HttpCode(202)
+  @ApiOperation({ summary: '收件箱, 请求需要带有 HTTP 签名' })
+  async receive(@Req() req: FastifyRequest, @Body() body: any) {
+    await this.service.receive(
+      {
+        method: req.method,
+        url: req.url,
+        headers: req.headers,
+        rawBody: req.rawBody,
+      },
+      body,
+    )
+    return
+  }
+}
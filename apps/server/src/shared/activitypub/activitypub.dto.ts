@@ -0,0 +1,43 @@
+import { ApiProperty } from '@nestjs/swagger'
+import { Transform } from 'class-transformer'
+import {
+  IsEnum,
+  IsInt,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator'
+
+export enum ActivityPubObjectTypes {
+  Post = 'post',
+  Note = 'note',
+}
+
+export class WebfingerQueryDto {
+  @IsString()
+  @IsNotEmpty()
+  @ApiProperty({ example: 'acct:innei@innei.ren' })
+  resource: string
+}
+
+export class OutboxQueryDto {
+  @Transform(({ value: val }) => (val ? parseInt(val) : undefined), {
+    toClassOnly: true,
+  })
+  @Min(1)
+  @IsInt()
+  @IsOptional()
+  @ApiProperty({ required: false, description: '不传时返回集合的概要' })
+  page?: number
+}
+
+export class ObjectParamsDto {
+  @IsEnum(ActivityPubObjectTypes)
+  @ApiProperty({ enum: ActivityPubObjectTypes })
+  type: ActivityPubObjectTypes
+
+  @IsMongoId()
+  id: string
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common'
+import { GatewayModule } from '../../gateway/gateway.module'
+import { CommentsModule } from '../comments/comments.module'
+import { MarkdownModule } from '../markdown/markdown.module'
+import { ActivityPubController } from './activitypub.controller'
+import { ActivityPubService } from './activitypub.service'
+
+@Module({
+  imports: [GatewayModule, CommentsModule, MarkdownModule],
+  providers: [ActivityPubService],
+  controllers: [ActivityPubController],
+})
+export class ActivityPubModule {}
@@ -0,0 +1,756 @@
+import Category from '@libs/db/models/category.model'
+import Comment, { CommentRefTypes } from '@libs/db/models/comment.model'
+import { Follower } from '@libs/db/models/follower.model'
+import Note from '@libs/db/models/note.model'
+import Post from '@libs/db/models/post.model'
+import { User } from '@libs/db/models/user.model'
+import {
+  BadRequestException,
+  HttpService,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+  UnauthorizedException,
+} from '@nestjs/common'
+import { ReturnModelType } from '@typegoose/typegoose'
+import { generateKeyPair } from 'crypto'
+import { truncate, unescape } from 'lodash'
+import { InjectModel } from 'nestjs-typegoose'
+import { Subscription } from 'rxjs'
+import { CannotFindException } from 'shared/core/exceptions/cant-find.exception'
+import { ConfigsService } from 'shared/global'
+import { promisify } from 'util'
+import { EventTypes } from '../../gateway/events.types'
+import { SharedGateway } from '../../gateway/shared/events.gateway'
+import { WebEventsGateway } from '../../gateway/web/events.gateway'
+import { ReplyMailType } from '../../plugins/mailer'
+import { CommentsService } from '../comments/comments.service'
+import { MarkdownService } from '../markdown/markdown.service'
+import { requestPublic } from '../webmention/public-request'
+import { ActivityPubObjectTypes } from './activitypub.dto'
+import {
+  parseSignatureHeader,
+  signRequest,
+  verifyRequest,
+} from './http-signature'
+
+const AS_CONTEXT = 'https://www.w3.org/ns/activitystreams'
+const SECURITY_CONTEXT = 'https://w3id.org/security/v1'
+const PUBLIC = 'https://www.w3.org/ns/activitystreams#Public'
+
+const OUTBOX_PAGE_SIZE = 20
+
+// 请求远端 actor 时的限制
+const FETCH_OPTIONS = {
+  timeout: 10 * 1000,
+  maxContentLength: 1024 * 1024,
+}
+
+/** 文章和记录的事件对应的对象类型 */
+const EVENT_TARGETS: Partial<
+  Record<EventTypes, [ActivityPubObjectTypes, 'Create' | 'Update' | 'Delete']>
+> = {
+  [EventTypes.POST_CREATE]: [ActivityPubObjectTypes.Post, 'Create'],
+  [EventTypes.POST_UPDATE]: [ActivityPubObjectTypes.Post, 'Update'],
+  [EventTypes.POST_DELETE]: [ActivityPubObjectTypes.Post, 'Delete'],
+  [EventTypes.NOTE_CREATE]: [ActivityPubObjectTypes.Note, 'Create'],
+  [EventTypes.NOTE_UPDATE]: [ActivityPubObjectTypes.Note, 'Update'],
+  [EventTypes.NOTE_DELETE]: [ActivityPubObjectTypes.Note, 'Delete'],
+}
+
+export interface RemoteActor {
+  id: string
+  type: string
+  inbox: string
+  endpoints?: { sharedInbox?: string }
+  preferredUsername?: string
+  name?: string
+  url?: string
+  icon?: { url?: string }
+  publicKey?: { id: string; owner: string; publicKeyPem: string }
+}
+
+export interface InboxRequest {
+  method: string
+  url: string
+  headers: Record<string, string | string[] | undefined>
+  rawBody?: string
+}
+
+/** 对象可能是内嵌的, 也可能只是 id */
+const idOf = (value: any): string | undefined =>
+  typeof value === 'string' ? value : value?.id
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).host
+  } catch {
+    return null
+  }
+}
+
+/**
+ * 把远端的 HTML 内容转成纯文本, 去掉开头的 @ 提及
+ */
+const htmlToText = (html: string) =>
+  unescape(
+    String(html || '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/p>\s*<p[^>]*>/gi, '\n\n')
+      .replace(/<[^>]+>/g, ''),
+  )
+    .replace(/^(@[\w.-]+(@[\w.-]+)?\s*)+/, '')
+    .trim()
+
+@Injectable()
+export class ActivityPubService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ActivityPubService.name)
+  private subscription: Subscription
+  private readonly actorCache = new Map<
+    string,
+    { actor: RemoteActor; expires: number }
+  >()
+
+  constructor(
+    @InjectModel(Follower)
+    private readonly followerModel: ReturnModelType<typeof Follower>,
+    @InjectModel(User) private readonly userModel: ReturnModelType<typeof User>,
+    @InjectModel(Post) private readonly postModel: ReturnModelType<typeof Post>,
+    @InjectModel(Note) private readonly noteModel: ReturnModelType<typeof Note>,
+    @InjectModel(Comment)
+    private readonly commentModel: ReturnModelType<typeof Comment>,
+    private readonly http: HttpService,
+    private readonly configs: ConfigsService,
+    private readonly commentsService: CommentsService,
+    private readonly markdownService: MarkdownService,
+    private readonly webgateway: WebEventsGateway,
+    private readonly gateway: SharedGateway,
+  ) {}
+
+  onModuleInit() {
+    this.subscription = this.webgateway.events$.subscribe(({ type, data }) => {
+      this.handleEvent(type, data).catch((err) => {
+        this.logger.error(`--> 投递 ActivityPub 活动失败: ${type} ${err}`)
+      })
+    })
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe()
+  }
+
+  get enabled() {
+    return !!this.configs.get('activityPubOptions')?.enable
+  }
+
+  /** 未开启时所有端点都当作不存在 */
+  assertEnabled() {
+    if (!this.enabled) {
+      throw new CannotFindException()
+    }
+  }
+
+  private get baseUrl() {
+    return this.configs.get('url').serverUrl.replace(/\/+$/, '')
+  }
+
+  get actorId() {
+    return `${this.baseUrl}/activitypub/actor`
+  }
+
+  private get keyId() {
+    return `${this.actorId}#main-key`
+  }
+
+  private get followersId() {
+    return `${this.baseUrl}/activitypub/followers`
+  }
+
+  private get outboxId() {
+    return `${this.baseUrl}/activitypub/outbox`
+  }
+
+  getObjectId(type: ActivityPubObjectTypes, id: any) {
+    return `${this.baseUrl}/activitypub/objects/${type}/${id}`
+  }
+
+  private parseObjectId(objectId?: string) {
+    const prefix = `${this.baseUrl}/activitypub/objects/`
+    if (!objectId?.startsWith(prefix)) {
+      return null
+    }
+    const [type, id] = objectId.slice(prefix.length).split('/')
+    if (
+      !Object.values(ActivityPubObjectTypes).includes(type as any) ||
+      !/^[\da-f]{24}$/i.test(id)
+    ) {
+      return null
+    }
+    return { type: type as ActivityPubObjectTypes, id }
+  }
+
+  /**
+   * 主人的账号和签名用的密钥, 没有密钥时生成一对
+   */
+  private async getMaster() {
+    const master = await this.userModel
+      .findOne()
+      .select('+apPublicKey +apPrivateKey')
+      .lean()
+    if (!master) {
+      throw new CannotFindException()
+    }
+    if (!master.apPublicKey || !master.apPrivateKey) {
+      const { publicKey, privateKey } = await promisify(generateKeyPair)(
+        'rsa',
+        {
+          modulusLength: 2048,
+          publicKeyEncoding: { type: 'spki', format: 'pem' },
+          privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+        },
+      )
+      await this.userModel.updateOne(
+        { _id: master._id },
+        { $set: { apPublicKey: publicKey, apPrivateKey: privateKey } },
+      )
+      Object.assign(master, {
+        apPublicKey: publicKey,
+        apPrivateKey: privateKey,
+      })
+    }
+    return master
+  }
+
+  async webfinger(resource: string) {
+    this.assertEnabled()
+    const master = await this.getMaster()
+    const host = new URL(this.configs.get('url').webUrl).host
+    const subject = `acct:${master.username}@${host}`
+    const matched =
+      resource === this.actorId ||
+      resource.toLowerCase() === subject.toLowerCase() ||
+      resource.toLowerCase() ===
+        `acct:${master.username}@${hostOf(this.baseUrl)}`.toLowerCase()
+    if (!matched) {
+      throw new CannotFindException()
+    }
+    return {
+      subject,
+      aliases: [this.actorId],
+      links: [
+        {
+          rel: 'self',
+          type: 'application/activity+json',
+          href: this.actorId,
+        },
+        {
+          rel: 'http://webfinger.net/rel/profile-page',
+          type: 'text/html',
+          href: this.configs.get('url').webUrl,
+        },
+      ],
+    }
+  }
+
+  async getActor() {
+    this.assertEnabled()
+    const master = await this.getMaster()
+    return {
+      '@context': [AS_CONTEXT, SECURITY_CONTEXT],
+      id: this.actorId,
+      type: 'Person',
+      preferredUsername: master.username,
+      name: master.name,
+      summary: master.introduce,
+      url: this.configs.get('url').webUrl,
+      icon: master.avatar ? { type: 'Image', url: master.avatar } : undefined,
+      inbox: `${this.baseUrl}/activitypub/inbox`,
+      outbox: this.outboxId,
+      followers: this.followersId,
+      publicKey: {
+        id: this.keyId,
+        owner: this.actorId,
+        publicKeyPem: master.apPublicKey,
+      },
+    }
+  }
+
+  async getFollowers() {
+    this.assertEnabled()
+    return {
+      '@context': AS_CONTEXT,
+      id: this.followersId,
+      type: 'OrderedCollection',
+      totalItems: await this.followerModel.countDocuments(),
+    }
+  }
+
+  /**
+   * 文章和记录按发布时间合并, 不传 page 时只返回集合的概要
+   */
+  async getOutbox(page?: number) {
+    this.assertEnabled()
+    const [postCount, noteCount] = await Promise.all([
+      this.postModel.countDocuments(
+        this.publicCondition(ActivityPubObjectTypes.Post),
+      ),
+      this.noteModel.countDocuments(
+        this.publicCondition(ActivityPubObjectTypes.Note),
+      ),
+    ])
+    const totalItems = postCount + noteCount
+    if (!page) {
+      return {
+        '@context': AS_CONTEXT,
+        id: this.outboxId,
+        type: 'OrderedCollection',
+        totalItems,
+        first: `${this.outboxId}?page=1`,
+        last: `${this.outboxId}?page=${Math.max(
+          1,
+          Math.ceil(totalItems / OUTBOX_PAGE_SIZE),
+        )}`,
+      }
+    }
+
+    const limit = page * OUTBOX_PAGE_SIZE
+    const [posts, notes] = await Promise.all([
+      this.postModel
+        .find(this.publicCondition(ActivityPubObjectTypes.Post))
+        .sort({ created: -1 })
+        .limit(limit)
+        .populate('category', 'slug')
+        .lean(),
+      this.noteModel
+        .find(this.publicCondition(ActivityPubObjectTypes.Note))
+        .sort({ created: -1 })
+        .limit(limit)
+        .lean(),
+    ])
+    const items = [
+      ...posts
+        .filter((doc) => doc.category)
+        .map((doc) => ({ type: ActivityPubObjectTypes.Post, doc })),
+      ...notes.map((doc) => ({ type: ActivityPubObjectTypes.Note, doc })),
+    ]
+      .sort((a, b) => b.doc.created.getTime() - a.doc.created.getTime())
+      .slice(limit - OUTBOX_PAGE_SIZE, limit)
+
+    return {
+      '@context': AS_CONTEXT,
+      id: `${this.outboxId}?page=${page}`,
+      type: 'OrderedCollectionPage',
+      partOf: this.outboxId,
+      totalItems,
+      orderedItems: items.map(({ type, doc }) =>
+        this.wrapActivity('Create', this.buildObject(type, doc)),
+      ),
+      prev: page > 1 ? `${this.outboxId}?page=${page - 1}` : undefined,
+      next:
+        limit < totalItems ? `${this.outboxId}?page=${page + 1}` : undefined,
+    }
+  }
+
+  async getObject(type: ActivityPubObjectTypes, id: string) {
+    this.assertEnabled()
+    const doc = await this.findPublicDocument(type, id)
+    if (!doc) {
+      throw new CannotFindException()
+    }
+    return { '@context': AS_CONTEXT, ...this.buildObject(type, doc) }
+  }
+
+  /**
+   * 验证签名后立即返回, 活动在后台处理
+   */
+  async receive(request: InboxRequest, activity: any) {
+    this.assertEnabled()
+    if (!activity || typeof activity !== 'object' || !activity.type) {
+      throw new BadRequestException('无效的活动')
+    }
+    const signature = parseSignatureHeader(
+      String(request.headers.signature || ''),
+    )
+    if (!signature) {
+      throw new UnauthorizedException('缺少签名')
+    }
+    const actorId = idOf(activity.actor)
+
+    let actor: RemoteActor
+    try {
+      actor = await this.fetchActor(signature.keyId.replace(/#.*$/, ''))
+    } catch (err) {
+      // 注销的账号取不到公钥, 自己去取 actor, 确认已经不存在后才移除关注
+      if (
+        activity.type === 'Delete' &&
+        actorId &&
+        idOf(activity.object) === actorId &&
+        (await this.isActorGone(actorId))
+      ) {
+        await this.followerModel.deleteOne({ actor: actorId })
+        return
+      }
+      throw new UnauthorizedException('无法获取签名的公钥')
+    }
+    // 公钥要属于这个 actor, 防止用别人的公钥冒充
+    if (
+      actor.publicKey?.id !== signature.keyId ||
+      actor.publicKey.owner !== actor.id ||
+      !actor.publicKey.publicKeyPem ||
+      !verifyRequest(request, signature, actor.publicKey.publicKeyPem)
+    ) {
+      throw new UnauthorizedException('签名无效')
+    }
+    if (actorId !== actor.id) {
+      throw new UnauthorizedException('签名与 actor 不符')
+    }
+
+    process.nextTick(() => {
+      this.handleActivity(actor, activity).catch((err) => {
+        this.logger.error(
+          `--> 处理 ActivityPub 活动失败: ${activity.type} ${actor.id} ${err}`,
+        )
+      })
+    })
+  }
+
+  private async handleActivity(actor: RemoteActor, activity: any) {
+    const object = activity.object
+    switch (activity.type) {
+      case 'Follow': {
+        if (idOf(object) !== this.actorId) {
+          return
+        }
+        await this.followerModel.updateOne(
+          { actor: actor.id },
+          {
+            $set: {
+              inbox: actor.inbox,
+              sharedInbox: actor.endpoints?.sharedInbox,
+              account: actor.preferredUsername
+                ? `${actor.preferredUsername}@${hostOf(actor.id)}`
+                : undefined,
+              name: actor.name,
+              avatar: actor.icon?.url,
+            },
+          },
+          { upsert: true, omitUndefined: true },
+        )
+        await this.deliver([actor.inbox], {
+          '@context': AS_CONTEXT,
+          id: `${this.actorId}#accepts/${Date.now()}`,
+          type: 'Accept',
+          actor: this.actorId,
+          object: activity,
+        })
+        this.logger.log(`--> 新的 ActivityPub 关注者: ${actor.id}`)
+        return
+      }
+      case 'Undo': {
+        if (object?.type === 'Follow') {
+          await this.followerModel.deleteOne({ actor: actor.id })
+        }
+        return
+      }
+      case 'Create':
+        return await this.receiveReply(actor, object)
+      case 'Update': {
+        if (object?.type !== 'Note' || idOf(object.attributedTo) !== actor.id) {
+          return
+        }
+        const comment = await this.findReplyByActor(object.id, actor)
+        const text = htmlToText(object.content)
+        if (!comment || !text || text === comment.text) {
+          return
+        }
+        await this.commentsService.updateText(String(comment._id), text)
+        await this.commentsService.checkSpam(
+          await this.commentModel.findById(comment._id),
+        )
+        return
+      }
+      case 'Delete': {
+        const objectId = idOf(object)
+        if (objectId === actor.id) {
+          await this.followerModel.deleteOne({ actor: actor.id })
+          return
+        }
+        const comment = await this.findReplyByActor(objectId, actor)
+        if (comment) {
+          await this.commentsService.deleteComments(String(comment._id))
+        }
+        return
+      }
+    }
+  }
+
+  /**
+   * 只返回由该 actor 发出的回复, 同一实例的其他用户不能修改或删除
+   */
+  private async findReplyByActor(apId: string, actor: RemoteActor) {
+    if (!apId) {
+      return null
+    }
+    const comment = await this.commentModel
+      .findOne({ apId })
+      .select('+apActor')
+      .lean()
+    return comment?.apActor === actor.id ? comment : null
+  }
+
+  /**
+   * 回复文章或记录的 Note 存为评论
+   */
+  private async receiveReply(actor: RemoteActor, object: any) {
+    if (
+      object?.type !== 'Note' ||
+      idOf(object.attributedTo) !== actor.id ||
+      hostOf(object.id) !== hostOf(actor.id)
+    ) {
+      return
+    }
+    const target = this.parseObjectId(idOf(object.inReplyTo))
+    if (!target || (await this.commentModel.exists({ apId: object.id }))) {
+      return
+    }
+    if (!(await this.findPublicDocument(target.type, target.id))) {
+      return
+    }
+    const refType = this.toCommentRefType(target.type)
+    if (!(await this.commentsService.allowComment(target.id, refType))) {
+      return
+    }
+    const text = htmlToText(object.content)
+    if (!text) {
+      return
+    }
+    const comment = await this.commentsService.createComment(
+      target.id,
+      refType,
+      {
+        author: truncate(
+          actor.name || actor.preferredUsername || hostOf(actor.id),
+          { length: 50 },
+        ),
+        url: typeof actor.url === 'string' ? actor.url : actor.id,
+        text,
+        apId: object.id,
+        apActor: actor.id,
+      },
+    )
+    if (!(await this.commentsService.checkSpam(comment))) {
+      this.commentsService.sendEmail(comment, ReplyMailType.Owner)
+      this.gateway.broadcase(EventTypes.COMMENT_CREATE, comment)
+    }
+  }
+
+  /**
+   * 文章或记录的事件触发后投递给所有关注者, 不再公开的内容发送 Delete
+   */
+  private async handleEvent(type: EventTypes, data: any) {
+    const target = EVENT_TARGETS[type]
+    if (!target || !this.enabled) {
+      return
+    }
+    const [objectType, action] = target
+    const id = typeof data === 'string' ? data : String(data?._id ?? data?.id)
+    const doc =
+      action === 'Delete' ? null : await this.findPublicDocument(objectType, id)
+    if (!doc && action === 'Create') {
+      return
+    }
+    const activity = doc
+      ? this.wrapActivity(
+          action,
+          this.buildObject(objectType, doc),
+          action === 'Update' ? `#updates/${Date.now()}` : undefined,
+        )
+      : this.wrapActivity('Delete', {
+          id: this.getObjectId(objectType, id),
+          type: 'Tombstone',
+        })
+
+    const followers = await this.followerModel.find().lean()
+    const inboxes = [
+      ...new Set(followers.map((item) => item.sharedInbox || item.inbox)),
+    ]
+    await this.deliver(inboxes, activity)
+  }
+
+  /**
+   * 逐个投递, 对方返回 410 时移除对应的关注者
+   */
+  private async deliver(inboxes: string[], activity: any) {
+    if (!inboxes.length) {
+      return
+    }
+    const { apPrivateKey } = await this.getMaster()
+    const body = JSON.stringify(activity)
+    for (const inbox of inboxes) {
+      try {
+        // 签名中带有地址, 不跟随重定向
+        await requestPublic(
+          this.http,
+          {
+            ...FETCH_OPTIONS,
+            url: inbox,
+            method: 'POST',
+            data: body,
+            headers: {
+              'Content-Type': 'application/activity+json',
+              ...signRequest({
+                method: 'POST',
+                url: inbox,
+                body,
+                keyId: this.keyId,
+                privateKey: apPrivateKey,
+              }),
+            },
+          },
+          0,
+        )
+      } catch (err) {
+        if (err.response?.status === 410) {
+          await this.followerModel.deleteMany({
+            $or: [{ inbox }, { sharedInbox: inbox }],
+          })
+        }
+        this.logger.warn(`--> 投递 ActivityPub 活动失败: ${inbox} ${err}`)
+      }
+    }
+  }
+
+  /**
+   * 重新获取 actor, 对方返回 404 或 410 时认为已经注销
+   */
+  private async isActorGone(actorId: string) {
+    this.actorCache.delete(actorId)
+    try {
+      await this.fetchActor(actorId)
+      return false
+    } catch (err) {
+      return [404, 410].includes(err.response?.status)
+    }
+  }
+
+  /**
+   * 获取远端 actor, 缓存一小时
+   */
+  private async fetchActor(url: string): Promise<RemoteActor> {
+    const cached = this.actorCache.get(url)
+    if (cached && cached.expires > Date.now()) {
+      return cached.actor
+    }
+    const { apPrivateKey } = await this.getMaster()
+    const { res } = await requestPublic(
+      this.http,
+      {
+        ...FETCH_OPTIONS,
+        url,
+        headers: {
+          Accept: 'application/activity+json',
+          ...signRequest({
+            method: 'GET',
+            url,
+            keyId: this.keyId,
+            privateKey: apPrivateKey,
+          }),
+        },
+      },
+      0,
+    ).catch((err) => {
+      if (err.response) {
+        throw err
+      }
+      throw new BadRequestException(`无效的 actor 地址: ${err.message}`)
+    })
+    const data = typeof res.data === 'string' ? JSON.parse(res.data) : res.data
+    // keyId 指向单独的公钥文档时再取一次 owner, owner 需要在同一个站点
+    if (
+      !data?.inbox &&
+      data?.owner &&
+      data.owner !== url &&
+      hostOf(data.owner) === hostOf(url)
+    ) {
+      return await this.fetchActor(data.owner)
+    }
+    if (!data?.id || !data.inbox || hostOf(data.id) !== hostOf(url)) {
+      throw new BadRequestException('无效的 actor')
+    }
+    if (this.actorCache.size > 500) {
+      this.actorCache.clear()
+    }
+    this.actorCache.set(url, { actor: data, expires: Date.now() + 3600000 })
+    return data as RemoteActor
+  }
+
+  private wrapActivity(
+    type: string,
+    object: any,
+    suffix = `#${type.toLowerCase()}`,
+  ) {
+    return {
+      '@context': AS_CONTEXT,
+      id: `${idOf(object)}${suffix}`,
+      type,
+      actor: this.actorId,
+      published: object.published,
+      to: object.to,
+      cc: object.cc,
+      object,
+    }
+  }
+
+  private buildObject(type: ActivityPubObjectTypes, doc: any) {
+    const url = this.commentsService.resolveUrlByType(
+      this.toCommentRefType(type),
+      doc,
+    )
+    return {
+      id: this.getObjectId(type, doc._id),
+      type: 'Article',
+      attributedTo: this.actorId,
+      name: doc.title,
+      summary: doc.summary || undefined,
+      content: this.markdownService.render(doc.text).html,
+      url,
+      published: new Date(doc.created).toISOString(),
+      updated: doc.modified ? new Date(doc.modified).toISOString() : undefined,
+      to: [PUBLIC],
+      cc: [this.followersId],
+    }
+  }
+
+  private toCommentRefType(type: ActivityPubObjectTypes) {
+    return type === ActivityPubObjectTypes.Post
+      ? CommentRefTypes.Post
+      : CommentRefTypes.Note
+  }
+
+  /**
+   * 隐藏, 加密和未到公开时间的内容不参与联邦
+   */
+  private publicCondition(type: ActivityPubObjectTypes) {
+    return type === ActivityPubObjectTypes.Post
+      ? { hide: false }
+      : {
+          hide: false,
+          password: { $in: [null, ''] },
+          $or: [{ secret: null }, { secret: { $lte: new Date() } }],
+        }
+  }
+
+  private async findPublicDocument(type: ActivityPubObjectTypes, id: string) {
+    if (type === ActivityPubObjectTypes.Post) {
+      const doc = await this.postModel
+        .findOne({ _id: id, ...this.publicCondition(type) })
+        .populate('category', 'slug')
+        .lean()
+      return doc?.category ? (doc as Post & { category: Category }) : null
+    }
+    return await this.noteModel
+      .findOne({ _id: id, ...this.publicCondition(type) })
+      .lean()
+  }
+}
@@ -0,0 +1,100 @@
+import { generateKeyPairSync } from 'crypto'
+import {
+  parseSignatureHeader,
+  signRequest,
+  verifyRequest,
+} from './http-signature'
+
+const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+})
+
+const keyId = 'https://remote.example/users/alice#main-key'
+const url = 'https://blog.example/activitypub/inbox?from=test'
+
+/** 模拟服务端收到的请求, 头部名称是小写的 */
+const receive = (
+  method: string,
+  headers: Record<string, string>,
+  rawBody?: string,
+) => ({
+  method,
+  url: '/activitypub/inbox?from=test',
+  headers: Object.fromEntries(
+    Object.entries(headers).map(([key, value]) => [key.toLowerCase(), value]),
+  ),
+  rawBody,
+})
+
+const verify = (request: ReturnType<typeof receive>, key = publicKey) =>
+  verifyRequest(
+    request,
+    parseSignatureHeader(String(request.headers.signature)),
+    key,
+  )
+
+describe('http-signature', () => {
+  const body = JSON.stringify({ type: 'Follow', actor: keyId })
+
+  it('should verify a signed POST with its body', () => {
+    const headers = signRequest({ method: 'POST', url, body, keyId, privateKey })
+
+    expect(parseSignatureHeader(headers.Signature)).toEqual({
+      keyId,
+      headers: ['(request-target)', 'host', 'date', 'digest'],
+      signature: expect.any(String),
+    })
+    expect(verify(receive('POST', headers, body))).toBe(true)
+  })
+
+  it('should verify a signed GET without a body', () => {
+    const headers = signRequest({ method: 'GET', url, keyId, privateKey })
+
+    expect(verify(receive('GET', headers))).toBe(true)
+  })
+
+  it('should reject a tampered body', () => {
+    const headers = signRequest({ method: 'POST', url, body, keyId, privateKey })
+
+    expect(verify(receive('POST', headers, body.replace('Follow', 'Undo')))).toBe(
+      false,
+    )
+  })
+
+  it('should reject a POST without the raw body', () => {
+    const headers = signRequest({ method: 'POST', url, body, keyId, privateKey })
+
+    expect(verify(receive('POST', headers))).toBe(false)
+  })
+
+  it('should reject a POST whose signature does not cover the digest', () => {
+    const headers = signRequest({ method: 'GET', url, keyId, privateKey })
+
+    expect(verify(receive('POST', headers, body))).toBe(false)
+  })
+
+  it('should reject a different path or key', () => {
+    const headers = signRequest({ method: 'POST', url, body, keyId, privateKey })
+    const other = generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    })
+
+    expect(
+      verify({ ...receive('POST', headers, body), url: '/activitypub/inbox' }),
+    ).toBe(false)
+    expect(verify(receive('POST', headers, body), other.publicKey)).toBe(false)
+  })
+
+  it('should reject an expired date', () => {
+    jest.useFakeTimers('modern')
+    jest.setSystemTime(Date.now() - 1000 * 60 * 60 * 13)
+    const headers = signRequest({ method: 'POST', url, body, keyId, privateKey })
+    jest.useRealTimers()
+
+    expect(verify(receive('POST', headers, body))).toBe(false)
+  })
+})
@@ -0,0 +1,124 @@
+import { createHash, createSign, createVerify } from 'crypto'
+
+/**
+ * Mastodon 使用的 HTTP Signatures (draft-cavage-http-signatures-12)
+ *
+ * @see https://docs.joinmastodon.org/spec/security/
+ */
+
+export const digestOf = (body: string) =>
+  'SHA-256=' + createHash('sha256').update(body).digest('base64')
+
+const buildSigningString = (
+  headerNames: string[],
+  getHeader: (name: string) => string | undefined,
+) => headerNames.map((name) => `${name}: ${getHeader(name) ?? ''}`).join('\n')
+
+/**
+ * 生成请求需要带上的 Date, Digest 和 Signature 头
+ */
+export function signRequest(options: {
+  method: string
+  url: string
+  body?: string
+  keyId: string
+  privateKey: string
+}) {
+  const { method, body, keyId, privateKey } = options
+  const url = new URL(options.url)
+  const headers: Record<string, string> = {
+    Host: url.host,
+    Date: new Date().toUTCString(),
+  }
+  if (body !== undefined) {
+    headers.Digest = digestOf(body)
+  }
+  const headerNames = ['(request-target)', 'host', 'date'].concat(
+    body !== undefined ? ['digest'] : [],
+  )
+  const signingString = buildSigningString(headerNames, (name) =>
+    name === '(request-target)'
+      ? `${method.toLowerCase()} ${url.pathname}${url.search}`
+      : headers[name[0].toUpperCase() + name.slice(1)],
+  )
+  const signature = createSign('sha256')
+    .update(signingString)
+    .sign(privateKey, 'base64')
+  headers.Signature = [
+    `keyId="${keyId}"`,
+    'algorithm="rsa-sha256"',
+    `headers="${headerNames.join(' ')}"`,
+    `signature="${signature}"`,
+  ].join(',')
+  return headers
+}
+
+export interface ParsedSignature {
+  keyId: string
+  headers: string[]
+  signature: string
+}
+
+export function parseSignatureHeader(header: string): ParsedSignature | null {
+  const params: Record<string, string> = {}
+  for (const [, key, value] of header.matchAll(/(\w+)="([^"]*)"/g)) {
+    params[key] = value
+  }
+  if (!params.keyId || !params.signature) {
+    return null
+  }
+  return {
+    keyId: params.keyId,
+    headers: (params.headers || 'date').toLowerCase().split(/\s+/),
+    signature: params.signature,
+  }
+}
+
+/**
+ * 验证签名, Digest 和 Date, 签名中必须包含 (request-target) 和 host
+ *
+ * GET 以外的请求必须带上原始请求体
+ */
+export function verifyRequest(
+  request: {
+    method: string
+    url: string
+    headers: Record<string, string | string[] | undefined>
+    rawBody?: string
+  },
+  signature: ParsedSignature,
+  publicKey: string,
+) {
+  const getHeader = (name: string) => {
+    if (name === '(request-target)') {
+      return `${request.method.toLowerCase()} ${request.url}`
+    }
+    const value = request.headers[name]
+    return Array.isArray(value) ? value.join(', ') : value
+  }
+  if (
+    !['(request-target)', 'host'].every((name) =>
+      signature.headers.includes(name),
+    )
+  ) {
+    return false
+  }
+  // 带请求体时必须签名 Digest, 取不到原始请求体就无法验证
+  if (request.method.toUpperCase() !== 'GET' || request.rawBody !== undefined) {
+    if (
+      request.rawBody === undefined ||
+      !signature.headers.includes('digest') ||
+      getHeader('digest') !== digestOf(request.rawBody)
+    ) {
+      return false
+    }
+  }
+  // 允许 12 小时以内的时钟误差
+  const date = new Date(getHeader('date') || 0).getTime()
+  if (!date || Math.abs(Date.now() - date) > 1000 * 60 * 60 * 12) {
+    return false
+  }
+  return createVerify('sha256')
+    .update(buildSigningString(signature.headers, getHeader))
+    .verify(publicKey, signature.signature, 'base64')
+}
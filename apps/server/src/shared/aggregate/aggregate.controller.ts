@@ -5,17 +5,26 @@ import {
   CacheTTL,
   Controller,
   Get,
+  Param,
   Query,
+  Req,
+  Res,
   UseGuards,
 } from '@nestjs/common'
 import { ApiProperty, ApiTags } from '@nestjs/swagger'
+import { FastifyReply, FastifyRequest } from 'fastify'
 import { pick } from 'lodash'
 import { RolesGuard } from 'apps/server/src/auth/roles.guard'
 import { ConfigsService } from 'shared/global/configs/configs.service'
 import { Master } from 'shared/core/decorators/guest.decorator'
 import MasterService from 'apps/server/src/master/master.service'
-import { AggregateService } from 'apps/server/src/shared/aggregate/aggregate.service'
+import {
+  AggregateService,
+  SerializedFeed,
+} from 'apps/server/src/shared/aggregate/aggregate.service'
 import { yearCondition } from '../../../../../shared/utils'
+import { FeedQueryDto } from './dtos/feed.dto'
+import { buildSitemapIndex } from './sitemap.serializer'
 import { RandomTypeDto } from './dtos/random.dto'
 import { TimelineQueryDto, TimelineType } from './dtos/timeline.dto'
 import { TopQueryDto } from './dtos/top.dto'
@@ -121,11 +130,109 @@ export class AggregateController {
     return await this.service.getSiteMapContent()
   }
 
+  @Get('sitemap_index.xml')
+  async getSiteMapIndex(
+    @Req() req: FastifyRequest,
+    @Res() reply: FastifyReply,
+  ) {
+    const { index } = await this.service.buildSiteMaps()
+    // 子站点地图和索引在同一目录下
+    const selfUrl = new URL(req.url, this.configs.get('url').serverUrl)
+    const body = buildSitemapIndex(
+      index.map(({ name, lastmod }) => ({
+        loc: new URL(`sitemap/${name}`, selfUrl).toString(),
+        lastmod: new Date(lastmod),
+      })),
+    )
+    reply.type('application/xml; charset=utf-8').send(body)
+  }
+
+  @Get('sitemap/:name')
+  async getSiteMapFile(
+    @Param('name') name: string,
+    @Res() reply: FastifyReply,
+  ) {
+    const body = await this.service.getSiteMapFile(name)
+    reply.type('application/xml; charset=utf-8').send(body)
+  }
+
   @Get('feed')
-  @CacheKey(CacheKeys.RSS)
-  @CacheTTL(3600)
-  async getRSSFeed() {
-    return await this.service.buildRssStructure()
+  async getRSSFeed(
+    @Query() query: FeedQueryDto,
+    @Req() req: FastifyRequest,
+    @Res() reply: FastifyReply,
+  ) {
+    const feed = await this.service.getFeed(
+      query,
+      'rss',
+      this.getFeedSerializeOptions(req),
+    )
+    this.sendFeed(req, reply, feed, 'application/json')
+  }
+
+  @Get('feed/atom')
+  async getAtomFeed(
+    @Query() query: FeedQueryDto,
+    @Req() req: FastifyRequest,
+    @Res() reply: FastifyReply,
+  ) {
+    const feed = await this.service.getFeed(
+      query,
+      'atom',
+      this.getFeedSerializeOptions(req),
+    )
+    this.sendFeed(req, reply, feed, 'application/atom+xml')
+  }
+
+  @Get('feed/json')
+  async getJsonFeed(
+    @Query() query: FeedQueryDto,
+    @Req() req: FastifyRequest,
+    @Res() reply: FastifyReply,
+  ) {
+    const feed = await this.service.getFeed(
+      query,
+      'json',
+      this.getFeedSerializeOptions(req),
+    )
+    this.sendFeed(req, reply, feed, 'application/feed+json')
+  }
+
+  private getFeedSerializeOptions(req: FastifyRequest) {
+    return {
+      selfUrl: new URL(req.url, this.configs.get('url').serverUrl).toString(),
+      fullContent: this.configs.get('feedOptions').fullContent,
+    }
+  }
+
+  /**
+   * 带上 ETag 和 Last-Modified, 内容没变时返回 304
+   */
+  private sendFeed(
+    req: FastifyRequest,
+    reply: FastifyReply,
+    feed: SerializedFeed,
+    type: string,
+  ) {
+    const { body, etag, lastModified } = feed
+    reply
+      .header('ETag', etag)
+      .header('Last-Modified', new Date(lastModified).toUTCString())
+      .header('Cache-Control', 'no-cache')
+
+    const ifNoneMatch = req.headers['if-none-match']
+    const ifModifiedSince = req.headers['if-modified-since']
+    const notModified = ifNoneMatch
+      ? ifNoneMatch
+          .split(',')
+          .map((tag) => tag.trim())
+          .includes(etag)
+      : !!ifModifiedSince && new Date(ifModifiedSince).getTime() >= lastModified
+    if (notModified) {
+      reply.code(304).send()
+      return
+    }
+    reply.type(`${type}; charset=utf-8`).send(body)
   }
 
   @Get('stat')
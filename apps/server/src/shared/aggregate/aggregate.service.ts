@@ -6,15 +6,30 @@ import Page from '@libs/db/models/page.model'
 import Post from '@libs/db/models/post.model'
 import { Project } from '@libs/db/models/project.model'
 import { Say } from '@libs/db/models/say.model'
-import { Injectable } from '@nestjs/common'
+import { CACHE_MANAGER, Inject, Injectable } from '@nestjs/common'
+import { createHash } from 'crypto'
 import { ReturnModelType } from '@typegoose/typegoose'
 import { AnyParamConstructor } from '@typegoose/typegoose/lib/types'
 import { ToolsService } from 'shared/global/tools/tools.service'
-import { pick, sample, sampleSize } from 'lodash'
+import { Cache } from 'cache-manager'
+import { chunk, pick, sample, sampleSize } from 'lodash'
+import { FilterQuery } from 'mongoose'
 import { InjectModel } from 'nestjs-typegoose'
+import { CacheKeys, CACHE_KEY_PREFIX } from 'shared/constants'
+import { CannotFindException } from 'shared/core/exceptions/cant-find.exception'
+import { stripMarkdown } from 'shared/utils/tokenize'
 import { ConfigsService } from '../../../../../shared/global/configs/configs.service'
+import { MarkdownService } from '../markdown/markdown.service'
 import { ImageService } from '../uploads/image.service'
+import { FeedQueryDto, FeedType } from './dtos/feed.dto'
 import { RandomType } from './dtos/random.dto'
+import {
+  buildAtomFeed,
+  buildJsonFeed,
+  FeedSerializeOptions,
+  getFeedUpdated,
+} from './feed.serializer'
+import { buildUrlSet, SITEMAP_MAX_URLS } from './sitemap.serializer'
 import dayjs = require('dayjs')
 @Injectable()
 export class AggregateService {
@@ -32,6 +47,8 @@ export class AggregateService {
     public readonly imageService: ImageService,
     private readonly configs: ConfigsService,
     private readonly tools: ToolsService,
+    private readonly markdownService: MarkdownService,
+    @Inject(CACHE_MANAGER) private readonly cacheManager: Cache,
   ) {}
 
   private findTop<
@@ -115,74 +132,236 @@ export class AggregateService {
   async getSiteMapContent() {
     return { data: await this.tools.getSiteMapContent() }
   }
+
+  /**
+   * 生成所有子站点地图, 结果缓存到内容变化时由 refreshKeyedCache 清除
+   */
+  async buildSiteMaps(): Promise<SiteMaps> {
+    const key = CACHE_KEY_PREFIX + 'name:' + CacheKeys.SiteMapXML
+    const cached = await this.cacheManager.get<SiteMaps>(key)
+    if (cached) {
+      return cached
+    }
+    const entries = await this.tools.getSiteMapEntries()
+    const siteMaps: SiteMaps = { index: [], files: {} }
+    for (const [type, list] of Object.entries(entries)) {
+      chunk(list, SITEMAP_MAX_URLS).forEach((part, i) => {
+        const name = `${type}-${i + 1}.xml`
+        const lastmod = part.reduce(
+          (max, entry) => Math.max(max, entry.published_at.getTime()),
+          0,
+        )
+        siteMaps.index.push({ name, lastmod: new Date(lastmod).toISOString() })
+        siteMaps.files[name] = buildUrlSet(part)
+      })
+    }
+    await this.cacheManager.set(key, siteMaps, { ttl: 60 * 60 * 24 })
+    return siteMaps
+  }
+
+  async getSiteMapFile(name: string) {
+    const { files } = await this.buildSiteMaps()
+    if (typeof files[name] !== 'string') {
+      throw new CannotFindException()
+    }
+    return files[name]
+  }
+
   get getLastestNoteNid() {
     return this.tools.getLastestNoteNid
   }
-  async buildRssStructure(): Promise<RSSProps> {
-    const data = await this.getRSSFeedContent()
-    const title = this.configs.get('seo').title
+  async buildRssStructure(scope: FeedQueryDto = {}): Promise<RSSProps> {
+    const { postCondition, noteCondition, title } = await this.resolveFeedScope(
+      scope,
+    )
+    const data = await this.getRSSFeedContent(postCondition, noteCondition)
+    const seo = this.configs.get('seo')
     const author = (await this.configs.getMaster()).name
     const url = this.configs.get('url').webUrl
     return {
-      title,
+      title: title ? `${seo.title} · ${title}` : seo.title,
+      description: seo.description,
       author,
       url,
       data,
     }
   }
-  async getRSSFeedContent() {
-    const baseURL = this.configs.get('url').webUrl
-    const posts = await this.postModel
-      .find({ hide: false })
-      .limit(10)
-      .sort({ created: -1 })
-      .populate('category')
-    const notes = await this.noteModel
-      .find({
-        hide: false,
-        password: undefined,
-      })
-      .limit(10)
-      .sort({ created: -1 })
-    const postsRss: RSSProps['data'] = posts.map((post) => {
-      return {
-        title: post.title,
-        text: post.text,
-        created: post.created,
-        modified: post.modified,
-        link: new URL(
-          '/posts' + `/${(post.category as Category).slug}/${post.slug}`,
-          baseURL,
-        ).toString(),
-      }
-    })
-    const notesRss: RSSProps['data'] = notes.map((note) => {
-      const isSecret = note.secret
-        ? dayjs(note.secret).isAfter(new Date())
-        : false
-      return {
-        title: note.title,
-        text: isSecret ? '这篇文章暂时没有公开呢' : note.text,
-        created: note.created,
-        modified: note.modified,
-        link: new URL('/notes/' + note.nid, baseURL).toString(),
+
+  /**
+   * 序列化后的订阅, 按范围和格式缓存到内容变化时由 refreshKeyedCache 清除
+   */
+  async getFeed(
+    scope: FeedQueryDto,
+    format: FeedFormat,
+    options: FeedSerializeOptions,
+  ): Promise<SerializedFeed> {
+    const key = CACHE_KEY_PREFIX + 'name:' + CacheKeys.RSS
+    const field = [format, scope.type, scope.category, scope.tag].join(':')
+    const cached =
+      (await this.cacheManager.get<Record<string, SerializedFeed>>(key)) || {}
+    if (cached[field]) {
+      return cached[field]
+    }
+    const props = await this.buildRssStructure(scope)
+    const body =
+      format === 'atom'
+        ? buildAtomFeed(props, options)
+        : format === 'json'
+        ? buildJsonFeed(props, options)
+        : JSON.stringify(props)
+    const feed: SerializedFeed = {
+      body,
+      etag: `W/"${createHash('md5').update(body).digest('hex')}"`,
+      // HTTP 时间只精确到秒
+      lastModified: Math.floor(getFeedUpdated(props).getTime() / 1000) * 1000,
+    }
+    await this.cacheManager.set(
+      key,
+      { ...cached, [field]: feed },
+      { ttl: 60 * 60 },
+    )
+    return feed
+  }
+
+  /**
+   * 指定分类或标签时只输出文章, 条件为 null 表示不输出该类型
+   */
+  private async resolveFeedScope(scope: FeedQueryDto) {
+    const { type, category, tag } = scope
+    const onlyPost = type === FeedType.Post || !!category || !!tag
+    let postCondition: FilterQuery<Post> | null =
+      type === FeedType.Note ? null : { hide: false }
+    const noteCondition: FilterQuery<Note> | null = onlyPost
+      ? null
+      : { hide: false, password: undefined }
+    const titles: string[] = []
+    if (category) {
+      const doc = await this.categoryModel.findOne({ slug: category }).lean()
+      if (!doc) {
+        throw new CannotFindException()
       }
-    })
+      postCondition = postCondition && { ...postCondition, categoryId: doc._id }
+      titles.push(doc.name)
+    }
+    if (tag) {
+      postCondition = postCondition && { ...postCondition, tags: tag }
+      titles.push(`#${tag}`)
+    }
+    if (type && !titles.length) {
+      titles.push(type === FeedType.Post ? '文章' : '记录')
+    }
+    return { postCondition, noteCondition, title: titles.join(' ') }
+  }
+
+  async getRSSFeedContent(
+    postCondition: FilterQuery<Post> | null = { hide: false },
+    noteCondition: FilterQuery<Note> | null = {
+      hide: false,
+      password: undefined,
+    },
+  ) {
+    const baseURL = this.configs.get('url').webUrl
+    const { size } = this.configs.get('feedOptions')
+    const posts = postCondition
+      ? await this.postModel
+          .find(postCondition)
+          .limit(size)
+          .sort({ created: -1 })
+          .populate('category')
+      : []
+    const notes = noteCondition
+      ? await this.noteModel
+          .find(noteCondition)
+          .limit(size)
+          .sort({ created: -1 })
+      : []
+    const postsRss: RSSProps['data'] = await Promise.all(
+      posts.map(async (post) => {
+        const category = post.category as Category
+        return {
+          id: String(post._id),
+          title: post.title,
+          text: post.text,
+          html: (await this.markdownService.renderDocument(post)).html,
+          summary: this.summarize(post.text, post.summary),
+          categories: [category.name, ...(post.tags || [])],
+          created: post.created,
+          modified: post.modified,
+          link: new URL(
+            '/posts' + `/${category.slug}/${post.slug}`,
+            baseURL,
+          ).toString(),
+        }
+      }),
+    )
+    const notesRss: RSSProps['data'] = await Promise.all(
+      notes.map(async (note) => {
+        const isSecret = note.secret
+          ? dayjs(note.secret).isAfter(new Date())
+          : false
+        const text = isSecret ? '这篇文章暂时没有公开呢' : note.text
+        return {
+          id: String(note._id),
+          title: note.title,
+          text,
+          html: isSecret
+            ? this.markdownService.render(text).html
+            : (await this.markdownService.renderDocument(note)).html,
+          summary: this.summarize(text),
+          categories: [],
+          created: note.created,
+          modified: note.modified,
+          link: new URL('/notes/' + note.nid, baseURL).toString(),
+        }
+      }),
+    )
     return postsRss
       .concat(notesRss)
       .sort((a, b) => b.created.getTime() - a.created.getTime())
-      .slice(0, 10)
+      .slice(0, size)
+  }
+
+  private summarize(text: string, summary?: string) {
+    if (summary) {
+      return summary
+    }
+    const plain = stripMarkdown(text)
+      .replace(/[#>*_~|]+/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim()
+    return plain.length > 150 ? plain.slice(0, 150) + '...' : plain
   }
 }
+export interface SiteMaps {
+  /** 子站点地图的文件名和最后修改时间 */
+  index: { name: string; lastmod: string }[]
+  files: Record<string, string>
+}
+
+export type FeedFormat = 'rss' | 'atom' | 'json'
+
+export interface SerializedFeed {
+  body: string
+  etag: string
+  /** 毫秒时间戳 */
+  lastModified: number
+}
+
 export interface RSSProps {
   title: string
+  description?: string
   url: string
   author: string
   data: {
+    id: string
     created: Date
     modified: Date
     link: string
     title: string
     text: string
+    html: string
+    summary: string
+    /** 文章的分类名和标签 */
+    categories: string[]
   }[]
 }
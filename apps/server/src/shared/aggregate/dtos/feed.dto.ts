@@ -0,0 +1,29 @@
+import { ApiProperty } from '@nestjs/swagger'
+import { IsEnum, IsNotEmpty, IsOptional, IsString } from 'class-validator'
+
+export enum FeedType {
+  Post = 'post',
+  Note = 'note',
+}
+
+export class FeedQueryDto {
+  @IsEnum(FeedType)
+  @IsOptional()
+  @ApiProperty({ enum: FeedType, required: false })
+  type?: FeedType
+
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  @ApiProperty({
+    description: '分类的 slug, 只输出该分类下的文章',
+    required: false,
+  })
+  category?: string
+
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  @ApiProperty({ description: '只输出带有该标签的文章', required: false })
+  tag?: string
+}
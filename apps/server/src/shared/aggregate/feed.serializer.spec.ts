@@ -0,0 +1,139 @@
+import { RSSProps } from './aggregate.service'
+import { buildAtomFeed, buildJsonFeed, getFeedUpdated } from './feed.serializer'
+
+const createProps = (): RSSProps => ({
+  title: 'Blog & Notes',
+  description: '<描述>',
+  url: 'https://blog.example/',
+  author: 'Innei',
+  data: [
+    {
+      id: '1',
+      created: new Date('2021-01-01T00:00:00Z'),
+      modified: new Date('2021-03-01T00:00:00Z'),
+      link: 'https://blog.example/posts/a?x=1&y=2',
+      title: 'A <title>',
+      text: 'text',
+      html: '<p>Hello & bye</p>',
+      summary: 'Hello',
+      categories: ['编程', 'Nest'],
+    },
+    {
+      id: '2',
+      created: new Date('2021-02-01T00:00:00Z'),
+      modified: null,
+      link: 'https://blog.example/notes/2',
+      title: 'B',
+      text: 'text',
+      html: '<p>B</p>',
+      summary: 'B summary',
+      categories: [],
+    },
+  ],
+})
+
+const options = { selfUrl: 'https://blog.example/feed?format=atom' }
+
+describe('feed.serializer', () => {
+  describe('getFeedUpdated', () => {
+    it('should use the latest modified or created time', () => {
+      const props = createProps()
+      expect(getFeedUpdated(props).toISOString()).toBe(
+        '2021-03-01T00:00:00.000Z',
+      )
+
+      props.data[1].created = new Date('2021-04-01T00:00:00Z')
+      expect(getFeedUpdated(props).toISOString()).toBe(
+        '2021-04-01T00:00:00.000Z',
+      )
+    })
+
+    it('should fall back to now for an empty feed', () => {
+      const now = Date.now()
+      const updated = getFeedUpdated({ ...createProps(), data: [] })
+      expect(updated.getTime()).toBeGreaterThanOrEqual(now)
+    })
+  })
+
+  describe('buildAtomFeed', () => {
+    it('should escape text and attributes', () => {
+      const xml = buildAtomFeed(createProps(), {
+        ...options,
+        fullContent: true,
+      })
+
+      expect(xml).toContain('<title>Blog &amp; Notes</title>')
+      expect(xml).toContain('<subtitle>&lt;描述&gt;</subtitle>')
+      expect(xml).toContain(
+        '<link rel="self" type="application/atom+xml" href="https://blog.example/feed?format=atom"/>',
+      )
+      expect(xml).toContain(
+        '<link href="https://blog.example/posts/a?x=1&amp;y=2"/>',
+      )
+      expect(xml).toContain('<title>A &lt;title&gt;</title>')
+      expect(xml).toContain(
+        '<content type="html">&lt;p&gt;Hello &amp; bye&lt;/p&gt;</content>',
+      )
+      expect(xml).toContain('<category term="编程"/>')
+      expect(xml).toContain('<updated>2021-03-01T00:00:00.000Z</updated>')
+    })
+
+    it('should use created as updated when not modified', () => {
+      const xml = buildAtomFeed(createProps(), {
+        ...options,
+        fullContent: true,
+      })
+      const entry = xml.split('<entry>')[2]
+
+      expect(entry).toContain('<published>2021-02-01T00:00:00.000Z</published>')
+      expect(entry).toContain('<updated>2021-02-01T00:00:00.000Z</updated>')
+      expect(entry).not.toContain('<category')
+    })
+
+    it('should omit content when only summaries are wanted', () => {
+      const xml = buildAtomFeed(createProps(), {
+        ...options,
+        fullContent: false,
+      })
+
+      expect(xml).not.toContain('<content')
+      expect(xml).toContain('<summary type="text">Hello</summary>')
+    })
+  })
+
+  describe('buildJsonFeed', () => {
+    it('should output JSON Feed 1.1 with full content', () => {
+      const feed = JSON.parse(
+        buildJsonFeed(createProps(), { ...options, fullContent: true }),
+      )
+
+      expect(feed).toMatchObject({
+        version: 'https://jsonfeed.org/version/1.1',
+        title: 'Blog & Notes',
+        home_page_url: 'https://blog.example/',
+        feed_url: options.selfUrl,
+        authors: [{ name: 'Innei' }],
+      })
+      expect(feed.items[0]).toEqual({
+        id: 'https://blog.example/posts/a?x=1&y=2',
+        url: 'https://blog.example/posts/a?x=1&y=2',
+        title: 'A <title>',
+        content_html: '<p>Hello & bye</p>',
+        summary: 'Hello',
+        date_published: '2021-01-01T00:00:00.000Z',
+        date_modified: '2021-03-01T00:00:00.000Z',
+        tags: ['编程', 'Nest'],
+      })
+      expect(feed.items[1].tags).toBeUndefined()
+    })
+
+    it('should output text content when only summaries are wanted', () => {
+      const feed = JSON.parse(
+        buildJsonFeed(createProps(), { ...options, fullContent: false }),
+      )
+
+      expect(feed.items[1].content_html).toBeUndefined()
+      expect(feed.items[1].content_text).toBe('B summary')
+    })
+  })
+})
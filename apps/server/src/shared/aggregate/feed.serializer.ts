@@ -0,0 +1,98 @@
+import { escape } from 'lodash'
+import { RSSProps } from './aggregate.service'
+
+export interface FeedSerializeOptions {
+  /** 订阅地址本身 */
+  selfUrl: string
+  /** 输出全文, 否则只输出摘要 */
+  fullContent: boolean
+}
+
+/**
+ * 所有条目中最后的修改时间
+ */
+export function getFeedUpdated(props: RSSProps) {
+  const times = props.data.map((item) =>
+    (item.modified || item.created).getTime(),
+  )
+  return times.length ? new Date(Math.max(...times)) : new Date()
+}
+
+/**
+ * Atom 1.0
+ *
+ * @see https://tools.ietf.org/html/rfc4287
+ */
+export function buildAtomFeed(props: RSSProps, options: FeedSerializeOptions) {
+  const { selfUrl, fullContent } = options
+  const entries = props.data.map((item) =>
+    [
+      '  <entry>',
+      `    <title>${escape(item.title)}</title>`,
+      `    <link href="${escape(item.link)}"/>`,
+      `    <id>${escape(item.link)}</id>`,
+      `    <published>${item.created.toISOString()}</published>`,
+      `    <updated>${(item.modified || item.created).toISOString()}</updated>`,
+      `    <summary type="text">${escape(item.summary)}</summary>`,
+      fullContent
+        ? `    <content type="html">${escape(item.html)}</content>`
+        : '',
+      ...item.categories.map(
+        (category) => `    <category term="${escape(category)}"/>`,
+      ),
+      '  </entry>',
+    ]
+      .filter(Boolean)
+      .join('\n'),
+  )
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${escape(props.title)}</title>`,
+    props.description
+      ? `  <subtitle>${escape(props.description)}</subtitle>`
+      : '',
+    `  <link href="${escape(props.url)}"/>`,
+    `  <link rel="self" type="application/atom+xml" href="${escape(
+      selfUrl,
+    )}"/>`,
+    `  <id>${escape(props.url)}</id>`,
+    `  <updated>${getFeedUpdated(props).toISOString()}</updated>`,
+    `  <author><name>${escape(props.author)}</name></author>`,
+    '  <generator>Mx Space</generator>',
+    ...entries,
+    '</feed>',
+  ]
+    .filter(Boolean)
+    .join('\n')
+}
+
+/**
+ * JSON Feed 1.1
+ *
+ * @see https://jsonfeed.org/version/1.1
+ */
+export function buildJsonFeed(props: RSSProps, options: FeedSerializeOptions) {
+  const { selfUrl, fullContent } = options
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: props.title,
+    home_page_url: props.url,
+    feed_url: selfUrl,
+    description: props.description,
+    authors: [{ name: props.author }],
+    language: 'zh-CN',
+    items: props.data.map((item) => ({
+      id: item.link,
+      url: item.link,
+      title: item.title,
+      ...(fullContent
+        ? { content_html: item.html }
+        : { content_text: item.summary }),
+      summary: item.summary,
+      date_published: item.created.toISOString(),
+      date_modified: (item.modified || item.created).toISOString(),
+      tags: item.categories.length ? item.categories : undefined,
+    })),
+  })
+}
@@ -0,0 +1,73 @@
+import {
+  buildSitemapIndex,
+  buildUrlSet,
+  getChangefreq,
+  getPriority,
+} from './sitemap.serializer'
+
+const DAY = 1000 * 60 * 60 * 24
+const daysAgo = (days: number) => new Date(Date.now() - DAY * days)
+
+describe('sitemap.serializer', () => {
+  it('should lower the change frequency as documents age', () => {
+    expect(getChangefreq(daysAgo(1))).toBe('daily')
+    expect(getChangefreq(daysAgo(10))).toBe('weekly')
+    expect(getChangefreq(daysAgo(100))).toBe('monthly')
+    expect(getChangefreq(daysAgo(400))).toBe('yearly')
+  })
+
+  it('should lower the priority as documents age', () => {
+    expect(getPriority(daysAgo(1))).toBe('0.8')
+    expect(getPriority(daysAgo(100))).toBe('0.6')
+    expect(getPriority(daysAgo(200))).toBe('0.5')
+    expect(getPriority(daysAgo(400))).toBe('0.3')
+  })
+
+  it('should build a sitemap index', () => {
+    const xml = buildSitemapIndex([
+      {
+        loc: 'https://blog.example/sitemap-posts.xml?a=1&b=2',
+        lastmod: new Date('2021-01-01T00:00:00Z'),
+      },
+      {
+        loc: 'https://blog.example/sitemap-notes.xml',
+        lastmod: new Date('2021-02-01T00:00:00Z'),
+      },
+    ])
+
+    expect(xml).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>/)
+    expect(xml.match(/<sitemap>/g)).toHaveLength(2)
+    expect(xml).toContain(
+      '<loc>https://blog.example/sitemap-posts.xml?a=1&amp;b=2</loc>',
+    )
+    expect(xml).toContain('<lastmod>2021-02-01T00:00:00.000Z</lastmod>')
+  })
+
+  it('should build an url set with image entries', () => {
+    const published = daysAgo(2)
+    const xml = buildUrlSet([
+      {
+        url: new URL('https://blog.example/posts/编程/hello'),
+        published_at: published,
+        images: [new URL('https://cdn.example/a.png?w=1&h=2')],
+      },
+      {
+        url: new URL('https://blog.example/notes/1'),
+        published_at: daysAgo(400),
+        images: [],
+      },
+    ])
+
+    expect(xml).toContain('xmlns:image=')
+    expect(xml).toContain(
+      '<loc>https://blog.example/posts/%E7%BC%96%E7%A8%8B/hello</loc>',
+    )
+    expect(xml).toContain(`<lastmod>${published.toISOString()}</lastmod>`)
+    expect(xml).toContain(
+      '<image:image><image:loc>https://cdn.example/a.png?w=1&amp;h=2</image:loc></image:image>',
+    )
+    expect(xml.match(/<image:image>/g)).toHaveLength(1)
+    expect(xml).toContain('<changefreq>yearly</changefreq>')
+    expect(xml).toContain('<priority>0.3</priority>')
+  })
+})
@@ -0,0 +1,85 @@
+import { escape } from 'lodash'
+import { SiteMapEntry } from 'shared/global/tools/tools.service'
+
+/**
+ * 单个站点地图最多 50000 条 URL
+ *
+ * @see https://www.sitemaps.org/protocol.html
+ */
+export const SITEMAP_MAX_URLS = 50000
+
+const DAY = 1000 * 60 * 60 * 24
+
+/**
+ * 越久没修改的文档, 更新频率越低
+ */
+export function getChangefreq(modified: Date) {
+  const age = Date.now() - modified.getTime()
+  if (age < DAY * 7) {
+    return 'daily'
+  }
+  if (age < DAY * 30) {
+    return 'weekly'
+  }
+  if (age < DAY * 365) {
+    return 'monthly'
+  }
+  return 'yearly'
+}
+
+/**
+ * 最近修改的文档优先级高, 随时间降低到 0.3
+ */
+export function getPriority(modified: Date) {
+  const age = Date.now() - modified.getTime()
+  if (age < DAY * 30) {
+    return '0.8'
+  }
+  if (age < DAY * 180) {
+    return '0.6'
+  }
+  if (age < DAY * 365) {
+    return '0.5'
+  }
+  return '0.3'
+}
+
+export function buildSitemapIndex(sitemaps: { loc: string; lastmod: Date }[]) {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...sitemaps.map((sitemap) =>
+      [
+        '  <sitemap>',
+        `    <loc>${escape(sitemap.loc)}</loc>`,
+        `    <lastmod>${sitemap.lastmod.toISOString()}</lastmod>`,
+        '  </sitemap>',
+      ].join('\n'),
+    ),
+    '</sitemapindex>',
+  ].join('\n')
+}
+
+export function buildUrlSet(entries: SiteMapEntry[]) {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">',
+    ...entries.map((entry) =>
+      [
+        '  <url>',
+        `    <loc>${escape(entry.url.toString())}</loc>`,
+        `    <lastmod>${entry.published_at.toISOString()}</lastmod>`,
+        `    <changefreq>${getChangefreq(entry.published_at)}</changefreq>`,
+        `    <priority>${getPriority(entry.published_at)}</priority>`,
+        ...entry.images.map(
+          (image) =>
+            `    <image:image><image:loc>${escape(
+              image.toString(),
+            )}</image:loc></image:image>`,
+        ),
+        '  </url>',
+      ].join('\n'),
+    ),
+    '</urlset>',
+  ].join('\n')
+}
@@ -301,6 +301,18 @@ export class BaseService<T extends BaseModel> {
     }
     throw new TypeError('_id muse be MongoId')
   }
+
+  /**
+   * @description 移入回收站, 需要模型带有 softDeletePlugin
+   * @param {(any)} conditions
+   */
+  public async softDelete(conditions: AnyType) {
+    // T 上没有 deletedAt, 通过 set 加到更新中
+    const r = await this._model
+      .updateMany(conditions, {})
+      .set('deletedAt', new Date())
+    return { ...r, message: r.nModified ? '已移入回收站' : '删除失败' }
+  }
   /**
    * @description 更新指定id数据
    * @param {string} id
@@ -0,0 +1,61 @@
+import { renderCommentMarkdown } from './comment-markdown'
+
+describe('renderCommentMarkdown', () => {
+  it('should render allowed markdown', () => {
+    expect(renderCommentMarkdown('**bold** _em_ ~~del~~ `code`')).toBe(
+      '<p><strong>bold</strong> <em>em</em> <del>del</del> <code>code</code></p>',
+    )
+    expect(renderCommentMarkdown('> quote\n\n- a\n- b')).toBe(
+      '<blockquote>\n<p>quote</p>\n</blockquote>\n<ul>\n<li>a</li>\n<li>b</li>\n</ul>',
+    )
+  })
+
+  it('should escape raw html', () => {
+    expect(renderCommentMarkdown('<script>alert(1)</script>')).toBe(
+      '&lt;script&gt;alert(1)&lt;/script&gt;',
+    )
+    expect(renderCommentMarkdown('hi <img src=x onerror=alert(1)>')).toBe(
+      '<p>hi &lt;img src=x onerror=alert(1)&gt;</p>',
+    )
+    expect(renderCommentMarkdown('<a href="javascript:alert(1)">x</a>')).not.toContain(
+      '<a',
+    )
+  })
+
+  it('should drop links with unsafe protocols', () => {
+    for (const href of [
+      'javascript:alert(1)',
+      'JaVaScRiPt:alert(1)',
+      'data:text/html;base64,PHNjcmlwdD4=',
+      'vbscript:msgbox(1)',
+    ]) {
+      expect(renderCommentMarkdown(`[click](${href})`)).toBe('<p>click</p>')
+    }
+  })
+
+  it('should mark links as nofollow and escape attributes', () => {
+    expect(
+      renderCommentMarkdown('[site](https://example.com "a\\" onmouseover=\\"x")'),
+    ).toBe(
+      '<p><a href="https://example.com" title="a&quot; onmouseover=&quot;x" rel="nofollow ugc">site</a></p>',
+    )
+  })
+
+  it('should keep only the alt text of images', () => {
+    expect(
+      renderCommentMarkdown('![<b>cat</b>](https://example.com/cat.png)'),
+    ).toBe('<p>&lt;b&gt;cat&lt;/b&gt;</p>')
+  })
+
+  it('should strip tags disabled in the settings', () => {
+    expect(
+      renderCommentMarkdown('**bold** [site](https://example.com)', ['p']),
+    ).toBe('<p>bold site</p>')
+  })
+
+  it('should ignore tags that are never allowed', () => {
+    expect(renderCommentMarkdown('# title', ['p', 'h1', 'img'])).toBe(
+      '<p>title</p>',
+    )
+  })
+})
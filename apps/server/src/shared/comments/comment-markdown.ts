@@ -0,0 +1,86 @@
+import { FilterXSS, IWhiteList } from 'xss'
+import marked = require('marked')
+
+// 迁移脚本也会用到, 这里不要使用路径别名
+
+/**
+ * 评论中可以使用的标签, 可以在评论设置中关掉一部分, 图片和原始 HTML 始终不允许
+ */
+export const COMMENT_MARKDOWN_TAGS = [
+  'p',
+  'br',
+  'a',
+  'strong',
+  'em',
+  'del',
+  'code',
+  'pre',
+  'blockquote',
+  'ul',
+  'ol',
+  'li',
+  'hr',
+]
+
+const TAG_ATTRS: IWhiteList = {
+  a: ['href', 'title', 'rel'],
+  code: ['class'],
+}
+
+const SAFE_PROTOCOL = /^(https?:|mailto:)/i
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+
+const renderer = new marked.Renderer()
+// 原始 HTML 按文本输出
+renderer.html = (html) => escapeHtml(html)
+// 图片只保留描述文字, marked 已经转义过描述和链接标题
+renderer.image = (_href, _title, text) => text || ''
+renderer.heading = (text) => `<p>${text}</p>\n`
+renderer.link = (href, title, text) => {
+  if (!href || !SAFE_PROTOCOL.test(href)) {
+    return text
+  }
+  const titleAttr = title ? ` title="${title}"` : ''
+  return `<a href="${escapeHtml(
+    href,
+  )}"${titleAttr} rel="nofollow ugc">${text}</a>`
+}
+
+const filters = new Map<string, FilterXSS>()
+
+const getFilter = (tags: string[]) => {
+  const allowed = tags.filter((tag) => COMMENT_MARKDOWN_TAGS.includes(tag))
+  const key = allowed.join(',')
+  if (!filters.has(key)) {
+    filters.set(
+      key,
+      new FilterXSS({
+        whiteList: Object.fromEntries(
+          allowed.map((tag) => [tag, TAG_ATTRS[tag] || []]),
+        ),
+        // 不允许的标签去掉, 保留其中的文字
+        stripIgnoreTag: true,
+        stripIgnoreTagBody: ['script', 'style'],
+      }),
+    )
+  }
+  return filters.get(key)
+}
+
+/**
+ * 把评论渲染为受限的 HTML
+ */
+export function renderCommentMarkdown(
+  text: string,
+  tags: string[] = COMMENT_MARKDOWN_TAGS,
+) {
+  const html = marked(text || '', { renderer, gfm: true, breaks: true })
+  return getFilter(tags).process(html).trim()
+}
@@ -11,17 +11,21 @@ import {
   Param,
   Patch,
   Post,
+  Put,
   Query,
   Req,
   UseGuards,
 } from '@nestjs/common'
 import { ApiOperation, ApiParam, ApiTags } from '@nestjs/swagger'
 import { DocumentType } from '@typegoose/typegoose'
+import { Types } from 'mongoose'
 import { RolesGuard } from 'apps/server/src/auth/roles.guard'
 import { PagerDto } from 'apps/server/src/shared/base/dto/pager.dto'
 import {
   CommentDto,
   CommentRefTypesDto,
+  GuestEditDto,
+  GuestTokenDto,
   TextOnlyDto,
 } from 'apps/server/src/shared/comments/dto/comment.dto'
 import { Pager } from 'apps/server/src/shared/comments/dto/pager.dto'
@@ -34,6 +38,7 @@ import { EventTypes } from '../../gateway/events.types'
 import { SharedGateway } from '../../gateway/shared/events.gateway'
 import { ReplyMailType } from '../../plugins/mailer'
 import { MongoIdDto } from '../base/dto/id.dto'
+import { WebmentionService } from '../webmention/webmention.service'
 import { CommentsService } from './comments.service'
 
 @Controller('comments')
@@ -43,6 +48,7 @@ export class CommentsController {
   constructor(
     private readonly commentService: CommentsService,
     private readonly gateway: SharedGateway,
+    private readonly webmentionService: WebmentionService,
   ) {
     // this.commentService.findOne({}).then((res) => {
     //   this.commentService.sendEmail(res, ReplyMailType.Owner)
@@ -56,6 +62,13 @@ export class CommentsController {
     return await this.commentService.getComments({ size, page, state })
   }
 
+  @Get('throttled')
+  @ApiOperation({ summary: '当前评论过于频繁被限制的 IP' })
+  @Auth()
+  async getThrottledIps() {
+    return await this.commentService.getThrottledIps()
+  }
+
   @Get(':id')
   @ApiOperation({ summary: '根据 comment id 获取评论, 包括子评论' })
   async getComments(@Param() params: MongoIdDto) {
@@ -102,7 +115,9 @@ export class CommentsController {
         sort: { created: -1 },
       },
     )
-    return comments
+    // 其他站点的引用和评论一起展示
+    const mentions = await this.webmentionService.getMentionsByRef(id)
+    return { ...comments, mentions }
   }
 
   @Post(':id')
@@ -130,8 +145,19 @@ export class CommentsController {
     ) {
       throw new ForbiddenException('主人禁止了评论')
     }
-
     const model = { ...body, ...ipLocation }
+    if (!isMaster) {
+      await this.commentService.validateComment({
+        ...model,
+        ref: Types.ObjectId(id),
+        refType: ref || CommentRefTypes.Post,
+      })
+      await this.commentService.checkRateLimit({
+        ip: ipLocation.ip,
+        mail: body.mail,
+        ref: id,
+      })
+    }
 
     const comment = await this.commentService.createComment(
       id,
@@ -141,15 +167,21 @@ export class CommentsController {
 
     process.nextTick(async () => {
       if (await this.commentService.checkSpam(comment)) {
-        comment.state = CommentState.Junk
-        await comment.save()
-      } else if (!isMaster) {
+        return
+      }
+      if (!isMaster) {
         this.commentService.sendEmail(comment, ReplyMailType.Owner)
         this.gateway.broadcase(EventTypes.COMMENT_CREATE, comment)
       }
     })
 
-    return comment
+    if (isMaster) {
+      return comment
+    }
+    return {
+      ...comment.toJSON(),
+      ...this.commentService.createEditToken(String(comment._id)),
+    }
   }
 
   @Post('/reply/:id')
@@ -183,9 +215,18 @@ export class CommentsController {
       ref: (parent.ref as DocumentType<any>)._id,
       refType: parent.refType,
       ...body,
+      renderedText: this.commentService.renderText(body.text),
       ...ipLocation,
       key,
     }
+    if (!isMaster) {
+      await this.commentService.validateComment(model)
+      await this.commentService.checkRateLimit({
+        ip: ipLocation.ip,
+        mail: body.mail,
+        ref: String(model.ref),
+      })
+    }
 
     const comment = await this.commentService.createNew(model)
 
@@ -205,14 +246,27 @@ export class CommentsController {
     if (isMaster) {
       this.commentService.sendEmail(comment, ReplyMailType.Guest)
     } else {
-      this.commentService.sendEmail(
-        comment,
-        ReplyMailType.Owner,
-        // comment.author,
-      )
-      this.gateway.broadcase(EventTypes.COMMENT_CREATE, comment)
+      process.nextTick(async () => {
+        if (await this.commentService.checkSpam(comment)) {
+          return
+        }
+        this.commentService.sendEmail(
+          comment,
+          ReplyMailType.Owner,
+          // comment.author,
+        )
+        this.gateway.broadcase(EventTypes.COMMENT_CREATE, comment)
+      })
+    }
+    if (isMaster) {
+      return { message: '回复成功!' }
+    }
+    // 评论者需要知道回复的 id 才能修改
+    return {
+      message: '回复成功!',
+      id: comment._id,
+      ...this.commentService.createEditToken(String(comment._id)),
     }
-    return { message: '回复成功!' }
   }
 
   @Post('/master/comment/:id')
@@ -274,6 +328,7 @@ export class CommentsController {
     const { id } = params
     const { state } = body
 
+    await this.commentService.trainSpam(id, state)
     try {
       const query = await this.commentService.updateAsync(
         {
@@ -288,6 +343,30 @@ export class CommentsController {
     }
   }
 
+  @Put(':id/guest')
+  @ApiOperation({ summary: '评论者凭评论时返回的 editToken 修改评论' })
+  async editByGuest(
+    @Param() params: MongoIdDto,
+    @Body() body: GuestEditDto,
+    @IpLocation() ipLocation: IpRecord,
+  ) {
+    return await this.commentService.editByGuest(
+      params.id,
+      body.token,
+      body.text,
+      ipLocation.ip,
+    )
+  }
+
+  @Delete(':id/guest')
+  @ApiOperation({ summary: '评论者凭评论时返回的 editToken 删除评论' })
+  async deleteByGuest(
+    @Param() params: MongoIdDto,
+    @Body() body: GuestTokenDto,
+  ) {
+    return await this.commentService.deleteByGuest(params.id, body.token)
+  }
+
   @Delete(':id')
   @Auth()
   async deleteComment(@Param() params: MongoIdDto) {
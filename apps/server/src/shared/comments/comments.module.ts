@@ -1,9 +1,13 @@
 import { Module } from '@nestjs/common'
-import { CommentsController } from './comments.controller'
+import { GatewayModule } from '../../gateway/gateway.module'
 import { CommentsService } from './comments.service'
 
+/**
+ * CommentsController 依赖 WebmentionModule, 留在 SharedModule 里, 避免循环导入
+ */
 @Module({
-  controllers: [CommentsController],
+  imports: [GatewayModule],
   providers: [CommentsService],
+  exports: [CommentsService],
 })
 export class CommentsModule {}
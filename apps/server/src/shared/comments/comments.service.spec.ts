@@ -0,0 +1,267 @@
+import { CommentState } from '@libs/db/models/comment.model'
+import { RedisNames } from '@libs/common/redis/redis.types'
+import * as RedisMock from 'ioredis-mock'
+import { CommentsService } from './comments.service'
+
+// 用户模型依赖 bcrypt 的原生模块, 这里用不到
+jest.mock('bcrypt', () => ({}))
+
+/**
+ * 只实现修改评论用到的查询, 隐藏字段需要 select 才会返回
+ */
+const createCommentModel = () => {
+  const stored: Record<string, any> = {
+    _id: 'c1',
+    ref: 'p1',
+    text: 'old http://spam.example',
+    mail: 'a@mail.example',
+    ip: '1.1.1.1',
+    agent: 'ua',
+    history: [],
+  }
+  const visible = () => ({
+    _id: stored._id,
+    ref: stored.ref,
+    text: stored.text,
+    mail: stored.mail,
+  })
+  return {
+    stored,
+    findById: () => ({
+      lean: async () => visible(),
+      select: () => ({
+        lean: async () => ({ ...stored }),
+        then: (resolve: (doc: any) => void) => resolve({ ...stored }),
+      }),
+      then: (resolve: (doc: any) => void) => resolve(visible()),
+    }),
+    updateOne: async (_condition, { $set, $unset = {}, $push }) => {
+      Object.assign(stored, $set)
+      for (const key of Object.keys($unset)) {
+        delete stored[key]
+      }
+      if ($push?.history) {
+        const { $each, $slice } = $push.history
+        stored.history = [...stored.history, ...$each].slice($slice)
+      }
+    },
+  }
+}
+
+describe('CommentsService', () => {
+  let redis: any
+  let service: CommentsService
+  let commentModel: ReturnType<typeof createCommentModel>
+  let spamTokenModel: { bulkWrite: jest.Mock }
+  let guestEditMinutes: number
+
+  beforeEach(() => {
+    jest.useFakeTimers('modern')
+    jest.setSystemTime(new Date('2021-01-01T00:00:00Z'))
+    const options = { keyPrefix: 'mx_' + RedisNames.CommentLimit + '_' }
+    // 模拟的客户端上没有 options
+    redis = Object.assign(new RedisMock(options), { options })
+    guestEditMinutes = 10
+    const configs = {
+      get: () => ({
+        rateLimit: { window: 60, ip: 2, mail: 3, ref: 10 },
+        guestEditMinutes,
+        markdownTags: ['p'],
+      }),
+    }
+    const redisService = { getClient: () => redis }
+    commentModel = createCommentModel()
+    spamTokenModel = { bulkWrite: jest.fn() }
+    service = new CommentsService(
+      commentModel as any,
+      null,
+      null,
+      null,
+      null,
+      spamTokenModel as any,
+      configs as any,
+      null,
+      redisService as any,
+    )
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  describe('checkRateLimit', () => {
+    it('should throw 429 with the wait once an ip is over the limit', async () => {
+      await service.checkRateLimit({ ip: '1.1.1.1', ref: 'a' })
+      jest.advanceTimersByTime(15 * 1000)
+      await service.checkRateLimit({ ip: '1.1.1.1', ref: 'b' })
+
+      await expect(
+        service.checkRateLimit({ ip: '1.1.1.1', ref: 'c' }),
+      ).rejects.toMatchObject({ status: 429, retryAfter: 45 })
+    })
+
+    it('should limit the same mail from different ips', async () => {
+      for (const ip of ['1.1.1.1', '2.2.2.2', '3.3.3.3']) {
+        await service.checkRateLimit({ ip, mail: 'A@mail.com', ref: 'a' })
+      }
+
+      await expect(
+        service.checkRateLimit({
+          ip: '4.4.4.4',
+          mail: 'a@mail.com',
+          ref: 'a',
+        }),
+      ).rejects.toMatchObject({ status: 429 })
+    })
+  })
+
+  describe('getThrottledIps', () => {
+    it('should list ips over the limit', async () => {
+      await service.checkRateLimit({ ip: '1.1.1.1', ref: 'a' })
+      await service.checkRateLimit({ ip: '2.2.2.2', ref: 'a' })
+      jest.advanceTimersByTime(10 * 1000)
+      await service.checkRateLimit({ ip: '1.1.1.1', ref: 'a' })
+      await expect(
+        service.checkRateLimit({ ip: '1.1.1.1', ref: 'a' }),
+      ).rejects.toBeDefined()
+
+      expect(await service.getThrottledIps()).toEqual([
+        { ip: '1.1.1.1', count: 2, retryAfter: 50 },
+      ])
+    })
+
+    it('should drop ips whose hits left the window', async () => {
+      await service.checkRateLimit({ ip: '1.1.1.1', ref: 'a' })
+      await service.checkRateLimit({ ip: '1.1.1.1', ref: 'a' })
+      jest.advanceTimersByTime(61 * 1000)
+
+      expect(await service.getThrottledIps()).toEqual([])
+    })
+  })
+
+  describe('edit token', () => {
+    it('should verify a token for the same comment', () => {
+      const { editToken, editTokenExpiresAt } = service.createEditToken('c1')
+
+      expect(editTokenExpiresAt.toISOString()).toBe('2021-01-01T00:10:00.000Z')
+      expect(() => service.verifyEditToken('c1', editToken)).not.toThrow()
+    })
+
+    it('should reject a token for another comment or a forged one', () => {
+      const { editToken } = service.createEditToken('c1')
+      const [expires, signature] = editToken.split('.')
+      const later = (parseInt(expires, 36) + 60 * 60 * 1000).toString(36)
+
+      for (const [id, token] of [
+        ['c2', editToken],
+        ['c1', `${later}.${signature}`],
+        ['c1', `${expires}.${signature.slice(1)}`],
+        ['c1', expires],
+        ['c1', ''],
+      ]) {
+        expect(() => service.verifyEditToken(id, token)).toThrow('凭证无效或已过期')
+      }
+    })
+
+    it('should reject an expired token', () => {
+      const { editToken } = service.createEditToken('c1')
+      jest.advanceTimersByTime(10 * 60 * 1000)
+
+      expect(() => service.verifyEditToken('c1', editToken)).toThrow(
+        '凭证无效或已过期',
+      )
+    })
+
+    it('should not issue or accept tokens when guest editing is off', () => {
+      const { editToken } = service.createEditToken('c1')
+      guestEditMinutes = 0
+
+      expect(service.createEditToken('c1')).toBeNull()
+      expect(() => service.verifyEditToken('c1', editToken)).toThrow(
+        '凭证无效或已过期',
+      )
+    })
+
+    it('should return the edited comment without hidden fields', async () => {
+      const checkSpam = jest.spyOn(service, 'checkSpam').mockResolvedValue(false)
+      const { editToken } = service.createEditToken('c1')
+
+      const comment = await service.editByGuest('c1', editToken, 'new')
+
+      expect(comment).toEqual({
+        _id: 'c1',
+        ref: 'p1',
+        text: 'new',
+        mail: 'a@mail.example',
+      })
+      expect(checkSpam).toBeCalledWith(
+        expect.objectContaining({ text: 'new', ip: '1.1.1.1' }),
+      )
+      expect(commentModel.stored.renderedText).toBe('<p>new</p>')
+      expect(commentModel.stored.history).toEqual([
+        { text: 'old http://spam.example', editedAt: new Date() },
+      ])
+    })
+
+    it('should undo the training with the old text before editing', async () => {
+      jest.spyOn(service, 'checkSpam').mockResolvedValue(false)
+      commentModel.stored.spamTrainedAs = 'spam'
+      const { editToken } = service.createEditToken('c1')
+
+      await service.editByGuest('c1', editToken, 'new')
+
+      const [ops] = spamTokenModel.bulkWrite.mock.calls[0]
+      expect(ops.map((op) => op.updateOne.filter.token)).toEqual(
+        expect.arrayContaining(['old', 'host:spam.example', 'mail:mail.example']),
+      )
+      expect(ops.map((op) => op.updateOne.filter.token)).not.toContain('new')
+      expect(ops[0].updateOne.update).toEqual({ $inc: { spam: -1 } })
+      expect(commentModel.stored).not.toHaveProperty('spamTrainedAs')
+    })
+
+    it('should keep only the latest edits in history', async () => {
+      for (let i = 0; i < 25; i++) {
+        await service.updateText('c1', `edit ${i}`)
+      }
+
+      expect(commentModel.stored.history).toHaveLength(20)
+      expect(commentModel.stored.history[19].text).toBe('edit 23')
+    })
+
+    it('should count edits against the rate limit', async () => {
+      jest.spyOn(service, 'checkSpam').mockResolvedValue(false)
+      const { editToken } = service.createEditToken('c1')
+
+      await service.editByGuest('c1', editToken, 'a', '2.2.2.2')
+      await service.editByGuest('c1', editToken, 'b', '2.2.2.2')
+
+      await expect(
+        service.editByGuest('c1', editToken, 'c', '2.2.2.2'),
+      ).rejects.toMatchObject({ status: 429 })
+      expect(commentModel.stored.text).toBe('b')
+    })
+  })
+
+  describe('trainSpam', () => {
+    it('should undo the previous label with the same features', async () => {
+      commentModel.stored.spamTrainedAs = 'spam'
+
+      await service.trainSpam('c1', CommentState.Read)
+
+      const [ops] = spamTokenModel.bulkWrite.mock.calls[0]
+      expect(ops.map((op) => op.updateOne.filter.token)).toEqual(
+        expect.arrayContaining(['old', 'host:spam.example']),
+      )
+      expect(ops[0].updateOne.update).toEqual({ $inc: { ham: 1, spam: -1 } })
+      expect(commentModel.stored.spamTrainedAs).toBe('ham')
+    })
+
+    it('should not train twice with the same label', async () => {
+      commentModel.stored.spamTrainedAs = 'ham'
+
+      await service.trainSpam('c1', CommentState.Read)
+
+      expect(spamTokenModel.bulkWrite).not.toBeCalled()
+    })
+  })
+})
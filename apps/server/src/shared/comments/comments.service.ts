@@ -1,25 +1,57 @@
-import Comment, { CommentRefTypes } from '@libs/db/models/comment.model'
+import Comment, {
+  CommentRefTypes,
+  CommentState,
+  SpamLabel,
+  SpamReason,
+} from '@libs/db/models/comment.model'
 import Note from '@libs/db/models/note.model'
 import Page from '@libs/db/models/page.model'
 import Post from '@libs/db/models/post.model'
+import { SpamToken, SPAM_TOTAL_TOKEN } from '@libs/db/models/spam-token.model'
 import { User } from '@libs/db/models/user.model'
+import { slidingWindowLimit } from '@libs/common/redis/rate-limit'
+import { RedisNames } from '@libs/common/redis/redis.types'
 import {
+  ForbiddenException,
   Injectable,
   Logger,
   UnprocessableEntityException,
 } from '@nestjs/common'
 import { DocumentType, ReturnModelType } from '@typegoose/typegoose'
-import { FilterQuery, Types } from 'mongoose'
+import { createHmac, timingSafeEqual } from 'crypto'
+import { Error as MongooseError, FilterQuery, Types } from 'mongoose'
+import { RedisService } from 'nestjs-redis'
 import { InjectModel } from 'nestjs-typegoose'
 import { CannotFindException } from 'shared/core/exceptions/cant-find.exception'
+import { TooManyRequestsException } from 'shared/core/exceptions/too-many-requests.exception'
 import { ConfigsService } from '../../../../../shared/global/configs/configs.service'
 import { AdminEventsGateway } from '../../gateway/admin/events.gateway'
 import { Mailer, ReplyMailType } from '../../plugins/mailer'
 import { hasChinese } from '../../../../../shared/utils'
 import { BaseService } from '../base/base.service'
 import { merge } from 'lodash'
+import { renderCommentMarkdown } from './comment-markdown'
+import {
+  bayesLogOdds,
+  clampWeight,
+  extractLinks,
+  sigmoid,
+  spamFeatures,
+  trainingIncrement,
+} from './spam.util'
 // import BlockedKeywords from './block-keywords.json'
 import BlockedKeywords = require('./block-keywords.json')
+
+/** 统计同一 IP 评论频率的时间窗口 */
+const SPAM_VELOCITY_WINDOW = 1000 * 60 * 10
+
+const DEFAULT_RATE_LIMIT = { window: 60, ip: 5, mail: 5, ref: 30 }
+
+/** 每条评论最多保留的修改记录 */
+const MAX_EDIT_HISTORY = 20
+
+const EDIT_TOKEN_SECRET = process.env.SECRET || 'asdhaisouxcjzuoiqdnasjduw'
+
 @Injectable()
 export class CommentsService extends BaseService<Comment> {
   private readonly logger: Logger = new Logger(CommentsService.name)
@@ -34,8 +66,11 @@ export class CommentsService extends BaseService<Comment> {
     private readonly pageModel: ReturnModelType<typeof Page>,
     @InjectModel(User)
     private readonly userModel: ReturnModelType<typeof User>,
+    @InjectModel(SpamToken)
+    private readonly spamTokenModel: ReturnModelType<typeof SpamToken>,
     private readonly configs: ConfigsService,
     private readonly gateway: AdminEventsGateway,
+    private readonly redisService: RedisService,
   ) {
     super(commentModel)
 
@@ -58,48 +93,406 @@ export class CommentsService extends BaseService<Comment> {
       typeof Note | typeof Post | typeof Page
     >
   }
-  async checkSpam(doc: Partial<Comment>) {
-    const res = await (async () => {
-      const commentOptions = this.configs.get('commentOptions')
-      if (!commentOptions.antiSpam) {
-        return false
-      }
-      const master = await this.userModel.findOne().select('username')
-      if (doc.author === master.username) {
-        return false
-      }
-      if (commentOptions.blockIps) {
-        const isBlock = commentOptions.blockIps.some((ip) =>
+  /**
+   * 给评论打分, 达到阈值时标记为垃圾评论, 评分和原因存到评论上
+   */
+  async checkSpam(doc: DocumentType<Comment>) {
+    const commentOptions = this.configs.get('commentOptions')
+    if (!commentOptions.antiSpam) {
+      return false
+    }
+    const master = await this.userModel.findOne().select('username')
+    if (doc.author === master.username) {
+      return false
+    }
+    const { score, reasons } = await this.scoreSpam(doc)
+    const isSpam = score >= (commentOptions.spamThreshold ?? 0.7)
+    await this.commentModel.updateOne(
+      { _id: doc._id },
+      {
+        $set: {
+          spamScore: score,
+          spamReasons: reasons,
+          ...(isSpam ? { state: CommentState.Junk } : {}),
+        },
+      },
+    )
+    doc.spamScore = score
+    doc.spamReasons = reasons
+    if (isSpam) {
+      doc.state = CommentState.Junk
+      this.logger.warn(
+        '--> 检测到一条垃圾评论: ' +
+          `作者: ${doc.author}, IP: ${doc.ip}, 评分: ${score}, 内容为: ${doc.text}`,
+      )
+    }
+    return isSpam
+  }
+
+  /**
+   * 各项规则给出对数几率, 相加后换算为 0 ~ 1 的评分
+   */
+  async scoreSpam(doc: Partial<Comment> & { _id?: any }) {
+    const commentOptions = this.configs.get('commentOptions')
+    const reasons: SpamReason[] = []
+
+    const blockedIp = doc.ip
+      ? (commentOptions.blockIps || []).find((ip) =>
           new RegExp(ip, 'ig').test(doc.ip),
         )
-        if (isBlock) {
-          return true
-        }
-      }
+      : undefined
+    if (blockedIp) {
+      reasons.push({ rule: 'blockIp', weight: 10, detail: blockedIp })
+    }
+    const customKeywords = commentOptions.spamKeywords || []
+    const keyword = [...customKeywords, ...BlockedKeywords].find((keyword) =>
+      new RegExp(keyword, 'ig').test(doc.text),
+    )
+    if (keyword) {
+      reasons.push({ rule: 'keyword', weight: 10, detail: keyword })
+    }
+    if (commentOptions.disableNoChinese && !hasChinese(doc.text)) {
+      reasons.push({ rule: 'noChinese', weight: 10 })
+    }
+
+    // 一两个链接很正常, 再多就可疑了
+    const links = extractLinks(doc.text).length
+    if (links > 2) {
+      reasons.push({
+        rule: 'links',
+        weight: clampWeight((links - 2) * 0.5),
+        detail: `${links} 个链接`,
+      })
+    }
 
-      const customKeywords = commentOptions.spamKeywords || []
-      const isBlock = [...customKeywords, ...BlockedKeywords].some((keyword) =>
-        new RegExp(keyword, 'ig').test(doc.text),
+    const self = doc._id ? { _id: { $ne: doc._id } } : {}
+    const identities = [
+      doc.mail && { mail: doc.mail },
+      doc.ip && { ip: doc.ip },
+    ].filter(Boolean)
+    if (identities.length) {
+      const [junk, read] = await Promise.all(
+        [CommentState.Junk, CommentState.Read].map((state) =>
+          this.commentModel.countDocuments({
+            ...self,
+            state,
+            $or: identities,
+          }),
+        ),
       )
+      if (junk + read > 0) {
+        reasons.push({
+          rule: 'reputation',
+          weight: clampWeight(Math.log((junk + 1) / (read + 1)) * 1.5),
+          detail: `垃圾评论 ${junk} 条, 正常评论 ${read} 条`,
+        })
+      }
+    }
 
-      if (isBlock) {
-        return true
+    if (doc.ip) {
+      const recent = await this.commentModel.countDocuments({
+        ...self,
+        ip: doc.ip,
+        created: { $gte: new Date(Date.now() - SPAM_VELOCITY_WINDOW) },
+      })
+      if (recent > 2) {
+        reasons.push({
+          rule: 'velocity',
+          weight: clampWeight((recent - 2) * 0.7),
+          detail: `10 分钟内 ${recent + 1} 条评论`,
+        })
       }
+    }
+
+    const features = spamFeatures(doc)
+    const tokens = await this.spamTokenModel
+      .find({ token: { $in: [...features, SPAM_TOTAL_TOKEN] } })
+      .lean()
+    // upsert 时不会写入默认值, 可能缺少字段
+    const counts = new Map(
+      tokens.map(({ token, spam, ham }) => [
+        token,
+        { spam: spam || 0, ham: ham || 0 },
+      ]),
+    )
+    const bayes = bayesLogOdds(
+      features,
+      counts,
+      counts.get(SPAM_TOTAL_TOKEN) ?? { spam: 0, ham: 0 },
+    )
+    if (bayes) {
+      reasons.push({
+        rule: 'bayes',
+        weight: bayes.logOdds,
+        detail: bayes.top.join(', '),
+      })
+    }
+
+    for (const reason of reasons) {
+      reason.weight = Math.round(reason.weight * 1e4) / 1e4
+    }
+    const logOdds = reasons.reduce((sum, reason) => sum + reason.weight, 0)
+    return {
+      score: Math.round(sigmoid(logOdds) * 1e4) / 1e4,
+      reasons: reasons.sort((a, b) => b.weight - a.weight),
+    }
+  }
 
-      if (commentOptions.disableNoChinese && !hasChinese(doc.text)) {
-        return true
+  /**
+   * 后台标记为垃圾或已读时训练分类器, 改变标记时撤销之前的训练
+   */
+  async trainSpam(id: string, state: CommentState) {
+    const comment = await this.commentModel
+      .findById(id)
+      .select('text url mail +spamTrainedAs')
+      .lean()
+    if (!comment) {
+      throw new CannotFindException()
+    }
+    const label =
+      state === CommentState.Junk
+        ? SpamLabel.Spam
+        : state === CommentState.Read
+        ? SpamLabel.Ham
+        : undefined
+    const inc = trainingIncrement(label, comment.spamTrainedAs)
+    if (!inc) {
+      return
+    }
+    await this.incSpamTokens(comment, inc)
+    await this.commentModel.updateOne(
+      { _id: id },
+      { $set: { spamTrainedAs: label } },
+    )
+  }
+
+  private async incSpamTokens(
+    doc: Pick<Comment, 'text' | 'url' | 'mail'>,
+    inc: Partial<Record<SpamLabel, number>>,
+  ) {
+    await this.spamTokenModel.bulkWrite(
+      [...spamFeatures(doc), SPAM_TOTAL_TOKEN].map((token) => ({
+        updateOne: {
+          filter: { token },
+          update: { $inc: inc },
+          upsert: true,
+        },
+      })),
+    )
+  }
+
+  private get rateLimit() {
+    return {
+      ...DEFAULT_RATE_LIMIT,
+      ...this.configs.get('commentOptions').rateLimit,
+    }
+  }
+
+  /**
+   * 按模型校验评论, 先于频率限制调用, 被拒绝的评论不占用额度
+   */
+  async validateComment(doc: Partial<Comment>) {
+    try {
+      await new this.commentModel(doc).validate()
+    } catch (err) {
+      if (err instanceof MongooseError.ValidationError) {
+        throw new UnprocessableEntityException(
+          Object.values(err.errors)[0]?.message ?? err.message,
+        )
       }
+      throw err
+    }
+  }
 
-      return false
-    })()
-    if (res) {
-      this.logger.warn(
-        '--> 检测到一条垃圾评论: ' +
-          `作者: ${doc.author}, IP: ${doc.ip}, 内容为: ${doc.text}`,
+  /**
+   * 按 IP, 邮箱和文章分别限制评论频率, 超过限制时抛出 429
+   */
+  async checkRateLimit({
+    ip,
+    mail,
+    ref,
+  }: {
+    ip?: string
+    mail?: string
+    ref: string
+  }) {
+    const { window, ...limits } = this.rateLimit
+    const dimensions = [
+      ip && [`ip:${ip}`, limits.ip],
+      mail && [`mail:${mail.toLowerCase()}`, limits.mail],
+      [`ref:${ref}`, limits.ref],
+    ].filter(Boolean) as [string, number][]
+
+    const wait = await slidingWindowLimit(
+      this.redisService.getClient(RedisNames.CommentLimit),
+      dimensions,
+      window,
+    )
+    if (wait > 0) {
+      throw new TooManyRequestsException(
+        Math.ceil(wait / 1000),
+        '评论太频繁了, 休息一下吧',
+      )
+    }
+  }
+
+  /**
+   * 当前超过限制的 IP
+   */
+  async getThrottledIps() {
+    const { window, ip: limit } = this.rateLimit
+    if (!limit) {
+      return []
+    }
+    const redis = this.redisService.getClient(RedisNames.CommentLimit)
+    const prefix = redis.options.keyPrefix || ''
+    const now = Date.now()
+    // KEYS 的匹配模式不会自动加上前缀
+    const keys = await redis.keys(prefix + 'ip:*')
+
+    const throttled: { ip: string; count: number; retryAfter: number }[] = []
+    for (const fullKey of keys) {
+      // keys 返回的 key 带有前缀
+      const key = fullKey.slice(prefix.length)
+      await redis.zremrangebyscore(key, 0, now - window * 1000)
+      const count = await redis.zcard(key)
+      if (count < limit) {
+        continue
+      }
+      const [, oldest] = await redis.zrange(
+        key,
+        count - limit,
+        count - limit,
+        'WITHSCORES',
       )
+      throttled.push({
+        ip: key.slice('ip:'.length),
+        count,
+        retryAfter: Math.ceil((Number(oldest) + window * 1000 - now) / 1000),
+      })
+    }
+    return throttled.sort((a, b) => b.retryAfter - a.retryAfter)
+  }
+
+  renderText(text: string) {
+    return renderCommentMarkdown(
+      text,
+      this.configs.get('commentOptions').markdownTags,
+    )
+  }
+
+  /**
+   * 评论者修改或删除评论的凭证, 形如 `过期时间.签名`, 不允许修改时返回 null
+   */
+  createEditToken(id: string) {
+    const minutes = this.configs.get('commentOptions').guestEditMinutes ?? 10
+    if (!minutes) {
+      return null
+    }
+    const expiresAt = Date.now() + minutes * 60 * 1000
+    return {
+      editToken: `${expiresAt.toString(36)}.${this.signEditToken(
+        id,
+        expiresAt,
+      )}`,
+      editTokenExpiresAt: new Date(expiresAt),
+    }
+  }
+
+  private signEditToken(id: string, expiresAt: number) {
+    return createHmac('sha256', EDIT_TOKEN_SECRET)
+      .update(`comment:${id}:${expiresAt}`)
+      .digest('base64')
+      .replace(/=+$/, '')
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+  }
+
+  verifyEditToken(id: string, token: string) {
+    const [expires, signature = ''] = token.split('.')
+    const expiresAt = parseInt(expires, 36)
+    const expected = Buffer.from(this.signEditToken(id, expiresAt))
+    const actual = Buffer.from(signature)
+    if (
+      this.configs.get('commentOptions').guestEditMinutes === 0 ||
+      !(expiresAt > Date.now()) ||
+      actual.length !== expected.length ||
+      !timingSafeEqual(actual, expected)
+    ) {
+      throw new ForbiddenException('凭证无效或已过期')
+    }
+  }
+
+  /**
+   * 评论者修改评论, 和发表评论共用频率限制, 修改后重新检查垃圾评论
+   */
+  async editByGuest(id: string, token: string, text: string, ip?: string) {
+    this.verifyEditToken(id, token)
+    const comment = await this.commentModel.findById(id).lean()
+    if (!comment) {
+      throw new CannotFindException()
+    }
+    if (comment.text === text) {
+      return comment
+    }
+    await this.checkRateLimit({
+      ip,
+      mail: comment.mail,
+      ref: String(comment.ref),
+    })
+    await this.updateText(id, text)
+    // 检查垃圾评论需要 IP, 返回给评论者的不能带上隐藏字段
+    await this.checkSpam(await this.commentModel.findById(id).select('+ip'))
+    return await this.commentModel.findById(id)
+  }
+
+  /**
+   * 修改评论内容, 修改前的内容记录到 history 中
+   *
+   * 分类器是按修改前的内容训练的, 内容变了之后 trainSpam 无法再撤销, 这里先撤销并清除标记
+   */
+  async updateText(id: string, text: string) {
+    const comment = await this.commentModel
+      .findById(id)
+      .select('text url mail +spamTrainedAs')
+      .lean()
+    if (!comment) {
+      throw new CannotFindException()
+    }
+    if (comment.spamTrainedAs) {
+      await this.incSpamTokens(comment, { [comment.spamTrainedAs]: -1 })
+    }
+    const editedAt = new Date()
+    await this.commentModel.updateOne(
+      { _id: id },
+      {
+        $set: { text, renderedText: this.renderText(text), editedAt },
+        $unset: { spamTrainedAs: 1 },
+        $push: {
+          history: {
+            $each: [{ text: comment.text, editedAt }],
+            $slice: -MAX_EDIT_HISTORY,
+          },
+        },
+      },
+    )
+  }
+
+  /**
+   * 评论者删除评论, 已经有回复的评论不能删除
+   */
+  async deleteByGuest(id: string, token: string) {
+    this.verifyEditToken(id, token)
+    const comment = await this.commentModel.findById(id).lean()
+    if (!comment) {
+      throw new CannotFindException()
+    }
+    if (comment.children?.length) {
+      throw new ForbiddenException('已经有人回复了, 不能删除')
     }
-    return res
+    return await this.deleteComments(id)
   }
+
   async createComment(
     id: string,
     type: CommentRefTypes,
@@ -114,6 +507,7 @@ export class CommentsService extends BaseService<Comment> {
     doc.key = `#${commentIndex + 1}`
     const comment = await this.createNew({
       ...doc,
+      renderedText: this.renderText(doc.text),
       ref: Types.ObjectId(id),
       refType: type,
     })
@@ -137,35 +531,34 @@ export class CommentsService extends BaseService<Comment> {
     }
   }
 
-  async deleteComments(id: string) {
-    const comment = await this.commentModel.findOneAndDelete({ _id: id })
+  /**
+   * 连同子评论一起移入回收站, 保留父子关系以便恢复, 彻底删除时再从父评论中移除
+   */
+  async deleteComments(id: string, deletedAt = new Date()) {
+    const comment = await this.commentModel
+      .findOneAndUpdate({ _id: id }, { $set: { deletedAt } } as any)
+      .lean()
     if (!comment) {
       throw new CannotFindException()
     }
-    const { children, parent } = comment
+    const { children } = comment
     if (children && children.length > 0) {
       await Promise.all(
-        children.map(async (id) => {
-          await this.deleteComments(id as any as string)
+        children.map(async (child) => {
+          // 子评论可能已经单独删除过了
+          await this.deleteComments(String(child), deletedAt).catch(() => null)
         }),
       )
     }
-    if (parent) {
-      const parent = await this.commentModel.findById(comment.parent)
-      if (parent) {
-        await parent.updateOne({
-          $pull: {
-            children: comment._id,
-          },
-        })
-      }
-    }
-    return { message: '删除成功' }
+    return { message: '已移入回收站' }
   }
 
   async allowComment(id: string, type: CommentRefTypes) {
     const model = this.getModelByRefType(type)
     const doc = await model.findById(id)
+    if (!doc) {
+      throw new CannotFindException()
+    }
     return doc.allowComment ?? true
   }
 
@@ -175,7 +568,7 @@ export class CommentsService extends BaseService<Comment> {
     const queryList = await this.findWithPaginator(
       { state },
       {
-        select: '+ip +agent -children',
+        select: '+ip +agent +spamScore +spamReasons +history -children',
         skip,
         limit: size,
         populate: [
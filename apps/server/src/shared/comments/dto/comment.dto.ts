@@ -37,6 +37,21 @@ export class CommentDto {
   url?: string
 }
 
+export class GuestTokenDto {
+  @IsString()
+  @IsNotEmpty()
+  @ApiProperty({ description: '评论时返回的 editToken' })
+  token: string
+}
+
+export class GuestEditDto extends GuestTokenDto {
+  @IsString()
+  @IsNotEmpty()
+  @ApiProperty()
+  @MaxLength(500, { message: '评论内容不得大于 500 个字符' })
+  text: string
+}
+
 export class TextOnlyDto {
   @IsString()
   @IsNotEmpty()
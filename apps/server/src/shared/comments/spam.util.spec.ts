@@ -0,0 +1,119 @@
+import { SpamLabel } from '@libs/db/models/comment.model'
+import {
+  bayesLogOdds,
+  clampWeight,
+  sigmoid,
+  spamFeatures,
+  TokenCounts,
+  trainingIncrement,
+} from './spam.util'
+
+
+describe('spamFeatures', () => {
+  it('should collect words, link hosts and the mail domain once each', () => {
+    expect(
+      spamFeatures({
+        text: 'Buy buy cheap pills https://www.spam.example/x',
+        url: 'http://blog.example',
+        mail: 'A@Mail.Example',
+      }),
+    ).toEqual([
+      'buy',
+      'cheap',
+      'pills',
+      'host:spam.example',
+      'host:blog.example',
+      'mail:mail.example',
+    ])
+  })
+
+  it('should ignore invalid urls and missing fields', () => {
+    expect(spamFeatures({ text: 'hello', url: 'not a url' })).toEqual([
+      'hello',
+    ])
+    expect(spamFeatures({})).toEqual([])
+  })
+})
+
+describe('bayesLogOdds', () => {
+  const total: TokenCounts = { spam: 10, ham: 10 }
+
+  it('should return null until both labels are trained enough', () => {
+    const counts = new Map([['pills', { spam: 4, ham: 0 }]])
+
+    expect(bayesLogOdds(['pills'], counts, { spam: 4, ham: 10 })).toBeNull()
+    expect(bayesLogOdds(['pills'], counts, { spam: 10, ham: 4 })).toBeNull()
+    expect(
+      bayesLogOdds(['pills'], counts, { spam: 5, ham: 5 }),
+    ).not.toBeNull()
+  })
+
+  it('should add the smoothed log ratio of every known feature', () => {
+    const counts = new Map([
+      ['pills', { spam: 9, ham: 0 }],
+      ['hello', { spam: 0, ham: 9 }],
+      ['unseen', { spam: 0, ham: 0 }],
+    ])
+
+    const spam = bayesLogOdds(['pills', 'unknown', 'unseen'], counts, total)
+    expect(spam.logOdds).toBeCloseTo(Math.log(10))
+    expect(spam.top).toEqual(['pills'])
+
+    const ham = bayesLogOdds(['pills', 'hello'], counts, total)
+    expect(ham.logOdds).toBeCloseTo(0)
+  })
+
+  it('should start from the prior of the trained totals', () => {
+    expect(
+      bayesLogOdds([], new Map(), { spam: 20, ham: 10 }).logOdds,
+    ).toBeCloseTo(Math.log(2))
+  })
+
+  it('should clamp the result and keep the three strongest features', () => {
+    const features = ['a1', 'a2', 'a3', 'a4', 'b1']
+    const counts = new Map<string, TokenCounts>([
+      ['a1', { spam: 9, ham: 0 }],
+      ['a2', { spam: 9, ham: 0 }],
+      ['a3', { spam: 9, ham: 0 }],
+      ['a4', { spam: 9, ham: 0 }],
+      ['b1', { spam: 3, ham: 0 }],
+    ])
+
+    const { logOdds, top } = bayesLogOdds(features, counts, total)
+    expect(logOdds).toBe(8)
+    expect(top).toHaveLength(3)
+    expect(top).not.toContain('b1')
+  })
+})
+
+describe('clampWeight', () => {
+  it('should limit a weight to ±8', () => {
+    expect(clampWeight(20)).toBe(8)
+    expect(clampWeight(-20)).toBe(-8)
+    expect(clampWeight(1.5)).toBe(1.5)
+  })
+
+  it('should map log odds to a score between 0 and 1', () => {
+    expect(sigmoid(0)).toBe(0.5)
+    expect(sigmoid(clampWeight(100))).toBeLessThan(1)
+    expect(sigmoid(-8)).toBeCloseTo(0, 3)
+  })
+})
+
+describe('trainingIncrement', () => {
+  it('should count a new label once', () => {
+    expect(trainingIncrement(SpamLabel.Spam)).toEqual({ spam: 1 })
+  })
+
+  it('should undo the previous label when it changes', () => {
+    expect(trainingIncrement(SpamLabel.Ham, SpamLabel.Spam)).toEqual({
+      ham: 1,
+      spam: -1,
+    })
+  })
+
+  it('should skip training when the label is missing or unchanged', () => {
+    expect(trainingIncrement(undefined, SpamLabel.Spam)).toBeNull()
+    expect(trainingIncrement(SpamLabel.Spam, SpamLabel.Spam)).toBeNull()
+  })
+})
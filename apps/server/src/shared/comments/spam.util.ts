@@ -0,0 +1,100 @@
+import Comment, { SpamLabel } from '@libs/db/models/comment.model'
+import { tokenize } from 'shared/utils/tokenize'
+
+const LINK_REGEXP = /https?:\/\/[^\s)<>"'\]]+/gi
+
+/** 训练数据太少时朴素贝叶斯的结果不可信 */
+const MIN_TRAINED = 5
+
+/** 单个规则对评分的影响上限 */
+const MAX_WEIGHT = 8
+
+export interface TokenCounts {
+  spam: number
+  ham: number
+}
+
+export function extractLinks(text: string) {
+  return (text || '').match(LINK_REGEXP) || []
+}
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '')
+  } catch {
+    return null
+  }
+}
+
+/**
+ * 分类用的特征: 正文分词, 链接和网站的域名, 邮箱的域名, 每个只算一次
+ */
+export function spamFeatures(
+  doc: Partial<Pick<Comment, 'text' | 'url' | 'mail'>>,
+) {
+  const features = new Set(tokenize(doc.text))
+  for (const link of [...extractLinks(doc.text), doc.url]) {
+    const host = link && hostOf(link)
+    if (host) {
+      features.add(`host:${host}`)
+    }
+  }
+  const mailDomain = doc.mail?.split('@')[1]
+  if (mailDomain) {
+    features.add(`mail:${mailDomain.toLowerCase()}`)
+  }
+  return [...features]
+}
+
+/**
+ * 朴素贝叶斯, 返回是垃圾评论的对数几率和影响最大的几个特征
+ *
+ * 训练数据不足时返回 null
+ */
+export function bayesLogOdds(
+  features: string[],
+  counts: Map<string, TokenCounts>,
+  total: TokenCounts,
+) {
+  if (total.spam < MIN_TRAINED || total.ham < MIN_TRAINED) {
+    return null
+  }
+  let logOdds = Math.log(total.spam / total.ham)
+  const contributions: [string, number][] = []
+  for (const feature of features) {
+    const count = counts.get(feature)
+    // 没见过的词不提供信息
+    if (!count || count.spam + count.ham === 0) {
+      continue
+    }
+    // 拉普拉斯平滑
+    const weight = Math.log(
+      (count.spam + 1) / (total.spam + 2) / ((count.ham + 1) / (total.ham + 2)),
+    )
+    logOdds += weight
+    contributions.push([feature, weight])
+  }
+  const top = contributions
+    .sort((a, b) => Math.abs(b[1]) - Math.abs(a[1]))
+    .slice(0, 3)
+    .map(([feature]) => feature)
+  return { logOdds: clampWeight(logOdds), top }
+}
+
+export function clampWeight(weight: number) {
+  return Math.max(-MAX_WEIGHT, Math.min(MAX_WEIGHT, weight))
+}
+
+export function sigmoid(logOdds: number) {
+  return 1 / (1 + Math.exp(-logOdds))
+}
+
+/**
+ * 训练时特征计数的增量, 改变标记时同时撤销之前的训练, 不需要训练时返回 null
+ */
+export function trainingIncrement(label?: SpamLabel, previous?: SpamLabel) {
+  if (!label || label === previous) {
+    return null
+  }
+  return { [label]: 1, ...(previous ? { [previous]: -1 } : {}) }
+}
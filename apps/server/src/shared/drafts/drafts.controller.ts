@@ -0,0 +1,144 @@
+import { DraftRefTypes } from '@libs/db/models/draft.model'
+import { RevisionRefTypes } from '@libs/db/models/revision.model'
+import { SearchRefTypes } from '@libs/db/models/search-index.model'
+import { CommentRefTypes } from '@libs/db/models/comment.model'
+import { SubmissionRefTypes } from '@libs/db/models/submission.model'
+import {
+  Body,
+  CACHE_MANAGER,
+  Controller,
+  Delete,
+  Get,
+  Inject,
+  Param,
+  Post,
+  Put,
+  Query,
+} from '@nestjs/common'
+import { ApiOperation, ApiTags } from '@nestjs/swagger'
+import { Cache } from 'cache-manager'
+import { Auth } from 'core/decorators/auth.decorator'
+import { CannotFindException } from 'shared/core/exceptions/cant-find.exception'
+import { refreshKeyedCache } from 'utils/text-base'
+import { EventTypes } from '../../gateway/events.types'
+import { WebEventsGateway } from '../../gateway/web/events.gateway'
+import { MongoIdDto } from '../base/dto/id.dto'
+import { NotesService } from '../notes/notes.service'
+import { PostsService } from '../posts/posts.service'
+import { RevisionsService } from '../revisions/revisions.service'
+import { SearchService } from '../search/search.service'
+import { SubmissionService } from '../submission/submission.service'
+import { WebmentionService } from '../webmention/webmention.service'
+import { DraftsService } from './drafts.service'
+import { AutosaveDraftDto, DraftDto, DraftQueryDto } from './dto/draft.dto'
+
+@Controller('drafts')
+@ApiTags('Draft Routes')
+@Auth()
+export class DraftsController {
+  constructor(
+    private readonly service: DraftsService,
+    private readonly postService: PostsService,
+    private readonly noteService: NotesService,
+    private readonly revisionService: RevisionsService,
+    private readonly webgateway: WebEventsGateway,
+    @Inject(CACHE_MANAGER) private readonly cacheManager: Cache,
+    private readonly searchService: SearchService,
+    private readonly submissionService: SubmissionService,
+    private readonly webmentionService: WebmentionService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: '获取草稿列表' })
+  async getDrafts(@Query() query: DraftQueryDto) {
+    const { page, size, type, select } = query
+    return await this.service.findWithPaginator(type ? { refType: type } : {}, {
+      limit: size,
+      skip: (page - 1) * size,
+      select: select || '-text',
+      sort: { modified: -1 },
+    })
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: '获取一份草稿' })
+  async getDraft(@Param() params: MongoIdDto) {
+    const doc = await this.service.findById(params.id).lean()
+    if (!doc) {
+      throw new CannotFindException()
+    }
+    return doc
+  }
+
+  @Post()
+  @ApiOperation({ summary: '新建草稿, 传入 ref 时从已发布的文档复制一份' })
+  async createDraft(@Body() body: DraftDto) {
+    return await this.service.createDraft(body)
+  }
+
+  @Put(':id')
+  @ApiOperation({ summary: '自动保存草稿' })
+  async autosave(@Param() params: MongoIdDto, @Body() body: AutosaveDraftDto) {
+    return await this.service.autosave(params.id, body)
+  }
+
+  @Post(':id/publish')
+  @ApiOperation({ summary: '发布草稿' })
+  async publish(@Param() params: MongoIdDto) {
+    const result = await this.service.publish(params.id)
+    const { isNew, scheduled, doc } = result
+    const id = String(doc._id)
+
+    process.nextTick(async () => {
+      switch (result.refType) {
+        case DraftRefTypes.Post: {
+          this.postService.RecordImageDimensions(id)
+          this.revisionService.record(RevisionRefTypes.Post, id)
+          this.searchService.syncDocument(SearchRefTypes.Post, id)
+          if (scheduled) {
+            break
+          }
+          this.submissionService.submitDocument(SubmissionRefTypes.Post, id)
+          this.webmentionService.sendForDocument(CommentRefTypes.Post, id)
+          if (isNew) {
+            const category = await this.postService.getCategoryById(
+              result.doc.categoryId,
+            )
+            this.webgateway.broadcast(EventTypes.POST_CREATE, {
+              ...result.doc.toJSON(),
+              category,
+            })
+          } else {
+            this.webgateway.broadcast(EventTypes.POST_UPDATE, doc)
+          }
+          break
+        }
+        case DraftRefTypes.Note: {
+          this.noteService.RecordImageDimensions(id)
+          this.revisionService.record(RevisionRefTypes.Note, id)
+          this.searchService.syncDocument(SearchRefTypes.Note, id)
+          if (scheduled) {
+            break
+          }
+          this.submissionService.submitDocument(SubmissionRefTypes.Note, id)
+          this.webmentionService.sendForDocument(CommentRefTypes.Note, id)
+          this.webgateway.broadcast(
+            isNew ? EventTypes.NOTE_CREATE : EventTypes.NOTE_UPDATE,
+            doc,
+          )
+          break
+        }
+      }
+      refreshKeyedCache(this.cacheManager)
+    })
+
+    return doc
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: '删除草稿' })
+  async deleteDraft(@Param() params: MongoIdDto) {
+    await this.service.deleteOneAsync({ _id: params.id })
+    return
+  }
+}
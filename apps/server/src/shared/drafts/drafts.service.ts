@@ -0,0 +1,202 @@
+import { Draft, DraftRefTypes } from '@libs/db/models/draft.model'
+import Note from '@libs/db/models/note.model'
+import Post from '@libs/db/models/post.model'
+import {
+  Injectable,
+  UnprocessableEntityException,
+  ValidationPipe,
+} from '@nestjs/common'
+import { DocumentType, ReturnModelType } from '@typegoose/typegoose'
+import { ClassConstructor, plainToClass } from 'class-transformer'
+import { validateSync, ValidatorOptions } from 'class-validator'
+import { isPlainObject, mapValues, omit } from 'lodash'
+import { Types } from 'mongoose'
+import { InjectModel } from 'nestjs-typegoose'
+import { CannotFindException } from 'shared/core/exceptions/cant-find.exception'
+import { isScheduled } from 'shared/utils'
+import { BaseService } from '../base/base.service'
+import { NoteDto } from '../notes/dto/note.dto'
+import { NotesService } from '../notes/notes.service'
+import { PostDto } from '../posts/dto'
+import { PostsService } from '../posts/posts.service'
+import { AutosaveDraftDto, DraftDto } from './dto/draft.dto'
+
+export type PublishResult = { isNew: boolean; scheduled: boolean } & (
+  | { refType: DraftRefTypes.Post; doc: DocumentType<Post> }
+  | { refType: DraftRefTypes.Note; doc: DocumentType<Note> }
+)
+
+/**
+ * 草稿发布时按 DTO 校验, 其中的 ObjectId 需要转成字符串
+ */
+function stringifyObjectIds(value: any): any {
+  if (value instanceof Types.ObjectId) {
+    return value.toHexString()
+  }
+  if (Array.isArray(value)) {
+    return value.map(stringifyObjectIds)
+  }
+  if (isPlainObject(value)) {
+    return mapValues(value, stringifyObjectIds)
+  }
+  return value
+}
+
+@Injectable()
+export class DraftsService extends BaseService<Draft> {
+  constructor(
+    @InjectModel(Draft)
+    private readonly model: ReturnModelType<typeof Draft>,
+    private readonly postService: PostsService,
+    private readonly noteService: NotesService,
+  ) {
+    super(model)
+  }
+
+  validOptions: ValidatorOptions = {
+    whitelist: true,
+  }
+  validate = new ValidationPipe(this.validOptions)
+
+  async createDraft(body: DraftDto) {
+    const { refType, ref } = body
+    let prefill = {} as Partial<Draft>
+    if (ref) {
+      const exist = await this.model.findOne({ ref })
+      if (exist) {
+        throw new UnprocessableEntityException('这篇文章已经有一份草稿了哦')
+      }
+      prefill = await this.getPrefillFromRef(refType, ref)
+    }
+    return await this.model.create({
+      ...prefill,
+      ...body,
+      payload: { ...prefill.payload, ...body.payload },
+    } as Draft)
+  }
+
+  /**
+   * 自动保存, 只返回修改时间, 减少频繁保存时的响应体积
+   */
+  async autosave(id: string, body: AutosaveDraftDto) {
+    const { title, text, payload } = body
+    const modified = new Date()
+    const res = await this.model.updateOne(
+      { _id: id },
+      {
+        $set: {
+          modified,
+          ...(typeof title === 'string' ? { title } : {}),
+          ...(typeof text === 'string' ? { text } : {}),
+          ...(payload ? { payload } : {}),
+        },
+      },
+    )
+    if (!res.n) {
+      throw new CannotFindException()
+    }
+    return { id, modified }
+  }
+
+  /**
+   * 发布草稿, 新建或更新对应的文章或记录, 成功后删除草稿
+   */
+  async publish(id: string): Promise<PublishResult> {
+    const draft = await this.model.findById(id).lean()
+    if (!draft) {
+      throw new CannotFindException()
+    }
+    const { refType, title, text, payload = {} } = draft
+    const ref = draft.ref ? String(draft.ref) : undefined
+    const body = { ...payload, title, text }
+
+    let result: PublishResult
+    switch (refType) {
+      case DraftRefTypes.Post: {
+        const dto = this.validWithDto(PostDto, body)
+        if (isScheduled(dto.publishAt)) {
+          dto.hide = true
+        }
+        let doc: DocumentType<Post>
+        if (ref) {
+          await this.postService.update({ _id: ref }, dto as any)
+          doc = await this.postService.findPostById(ref)
+        } else {
+          const { slug = Types.ObjectId().toHexString() } = dto
+          doc = await this.postService.createNew({ ...dto, slug } as any)
+        }
+        result = {
+          refType,
+          doc,
+          isNew: !ref,
+          scheduled: isScheduled(doc.publishAt),
+        }
+        break
+      }
+      case DraftRefTypes.Note: {
+        const dto = this.validWithDto(NoteDto, body)
+        if (isScheduled(dto.publishAt)) {
+          dto.hide = true
+        }
+        let doc: DocumentType<Note>
+        if (ref) {
+          await this.noteService.update({ _id: ref }, dto)
+          doc = await this.noteService.findById(ref)
+        } else {
+          // nid 在这里才会分配
+          doc = await this.noteService.createNew(dto)
+        }
+        result = {
+          refType,
+          doc,
+          isNew: !ref,
+          scheduled: isScheduled(doc.publishAt),
+        }
+        break
+      }
+    }
+
+    await this.model.deleteOne({ _id: id })
+
+    return result
+  }
+
+  private async getPrefillFromRef(refType: DraftRefTypes, ref: string) {
+    const doc =
+      refType === DraftRefTypes.Post
+        ? await this.postService.findById(ref).lean()
+        : await this.noteService.findById(ref).lean()
+    if (!doc) {
+      throw new CannotFindException()
+    }
+    return {
+      title: doc.title,
+      text: doc.text,
+      payload: stringifyObjectIds(
+        omit(doc, [
+          '_id',
+          'title',
+          'text',
+          'images',
+          'count',
+          'nid',
+          'created',
+          'modified',
+          'commentsIndex',
+          'category',
+          '__v',
+        ]),
+      ),
+    }
+  }
+
+  private validWithDto<T extends object>(dto: ClassConstructor<T>, value: any) {
+    const validModel = plainToClass(dto, value)
+    const errors = validateSync(validModel, this.validOptions)
+    if (errors.length > 0) {
+      const error = this.validate.createExceptionFactory()(errors as any[])
+      throw error
+    }
+    return validModel
+  }
+}
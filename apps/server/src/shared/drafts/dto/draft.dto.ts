@@ -0,0 +1,57 @@
+import { DraftRefTypes } from '@libs/db/models/draft.model'
+import { ApiProperty } from '@nestjs/swagger'
+import { Transform } from 'class-transformer'
+import {
+  IsEnum,
+  IsMongoId,
+  IsObject,
+  IsOptional,
+  IsString,
+} from 'class-validator'
+import { PagerDto } from '../../base/dto/pager.dto'
+
+export class DraftDto {
+  @IsEnum(DraftRefTypes)
+  @ApiProperty({ enum: DraftRefTypes })
+  refType: DraftRefTypes
+
+  @IsOptional()
+  @IsMongoId()
+  @ApiProperty({ description: '要修改的已发布文档 id', required: false })
+  ref?: string
+
+  @IsOptional()
+  @IsString()
+  title?: string
+
+  @IsOptional()
+  @IsString()
+  text?: string
+
+  @IsOptional()
+  @IsObject()
+  @ApiProperty({ description: 'slug, categoryId, tags 等其他字段' })
+  payload?: Record<string, any>
+}
+
+export class AutosaveDraftDto {
+  @IsOptional()
+  @IsString()
+  title?: string
+
+  @IsOptional()
+  @IsString()
+  text?: string
+
+  @IsOptional()
+  @IsObject()
+  payload?: Record<string, any>
+}
+
+export class DraftQueryDto extends PagerDto {
+  @IsOptional()
+  @IsEnum(DraftRefTypes)
+  @ApiProperty({ enum: DraftRefTypes, required: false })
+  @Transform(({ value: v }) => v || undefined)
+  type?: DraftRefTypes
+}
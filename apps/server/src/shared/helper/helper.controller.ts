@@ -1,5 +1,5 @@
-import { TasksService } from '@libs/common/tasks/tasks.service'
 import Category from '@libs/db/models/category.model'
+import { SubmissionProviders } from '@libs/db/models/submission.model'
 /*
  * @Author: Innei
  * @Date: 2020-05-06 22:14:51
@@ -17,7 +17,7 @@ import {
   Res,
   UnprocessableEntityException,
 } from '@nestjs/common'
-import { ApiProperty, ApiQuery, ApiTags } from '@nestjs/swagger'
+import { ApiOperation, ApiProperty, ApiQuery, ApiTags } from '@nestjs/swagger'
 import { execSync } from 'child_process'
 import { FastifyReply } from 'fastify'
 import { readFileSync } from 'fs'
@@ -25,6 +25,7 @@ import { Readable } from 'stream'
 import { join } from 'path'
 import { Auth } from 'shared/core/decorators/auth.decorator'
 import { ArticleType, DataListDto } from './dto/datatype.dto'
+import { SubmissionService } from '../submission/submission.service'
 import { HelperService, MarkdownYAMLProperty } from './helper.service'
 
 @Controller('helper')
@@ -33,7 +34,7 @@ import { HelperService, MarkdownYAMLProperty } from './helper.service'
 export class HelperController {
   constructor(
     private readonly service: HelperService,
-    private readonly task: TasksService,
+    private readonly submissionService: SubmissionService,
   ) {}
 
   @Post('markdown/import')
@@ -76,7 +77,7 @@ export class HelperController {
         modified: Date
         title: string
         slug?: string
-      }
+      },
     >(
       item: T,
       extraMetaData: Record<string, any> = {},
@@ -174,7 +175,11 @@ export class HelperController {
   }
 
   @Get('baidu')
+  @ApiOperation({ summary: '提交整个站点地图到百度', deprecated: true })
   async pushToBaiduNow() {
-    return await this.task.pushToBaiduSearch()
+    return await this.submissionService.submitManually(
+      undefined,
+      SubmissionProviders.Baidu,
+    )
   }
 }
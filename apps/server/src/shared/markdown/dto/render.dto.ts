@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger'
+import { IsEnum, IsOptional } from 'class-validator'
+
+export class RenderQueryDto {
+  @IsOptional()
+  @IsEnum(['html'])
+  @ApiProperty({
+    enum: ['html'],
+    required: false,
+    description: '附带渲染后的 HTML, 目录, 字数和阅读时间',
+  })
+  render?: 'html'
+}
@@ -0,0 +1,10 @@
+import { CacheModuleDynamic } from '@libs/common/cache/cache.module'
+import { Module } from '@nestjs/common'
+import { MarkdownService } from './markdown.service'
+
+@Module({
+  imports: [CacheModuleDynamic],
+  providers: [MarkdownService],
+  exports: [MarkdownService],
+})
+export class MarkdownModule {}
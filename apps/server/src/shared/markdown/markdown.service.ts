@@ -0,0 +1,110 @@
+import { CACHE_MANAGER, Inject, Injectable } from '@nestjs/common'
+import { Cache } from 'cache-manager'
+import { CACHE_KEY_PREFIX } from 'shared/constants'
+import { FilterXSS, getDefaultWhiteList, IWhiteList } from 'xss'
+import { RenderQueryDto } from './dto/render.dto'
+import marked = require('marked')
+
+export interface TocItem {
+  depth: number
+  title: string
+  slug: string
+}
+
+export interface RenderResult {
+  html: string
+  toc: TocItem[]
+  wordCount: number
+  /** 分钟 */
+  readingTime: number
+}
+
+// 中文每分钟约 400 字, 英文约 200 词
+const CJK_PER_MINUTE = 400
+const WORDS_PER_MINUTE = 200
+const CJK_REGEXP = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af]/g
+
+@Injectable()
+export class MarkdownService {
+  constructor(@Inject(CACHE_MANAGER) private readonly cacheManager: Cache) {}
+
+  private readonly filter = new FilterXSS({
+    whiteList: {
+      ...getDefaultWhiteList(),
+      ...['h1', 'h2', 'h3', 'h4', 'h5', 'h6'].reduce((acc, tag) => {
+        acc[tag] = ['id']
+        return acc
+      }, {} as IWhiteList),
+      code: ['class'],
+      input: ['type', 'checked', 'disabled'],
+    },
+    stripIgnoreTagBody: ['script', 'style'],
+  })
+
+  render(text: string): RenderResult {
+    const toc: TocItem[] = []
+    const renderer = new marked.Renderer()
+    renderer.heading = (html, level, raw, slugger) => {
+      const slug = slugger.slug(raw)
+      toc.push({ depth: level, title: this.stripTags(html), slug })
+      return `<h${level} id="${slug}">${html}</h${level}>\n`
+    }
+    const html = this.filter.process(
+      marked(text || '', { renderer, gfm: true, breaks: false }),
+    )
+    const plain = this.stripTags(html)
+    const cjk = (plain.match(CJK_REGEXP) || []).length
+    const words = (plain.replace(CJK_REGEXP, ' ').match(/[\w'-]+/g) || [])
+      .length
+    return {
+      html,
+      toc,
+      wordCount: cjk + words,
+      readingTime: Math.max(
+        1,
+        Math.ceil(cjk / CJK_PER_MINUTE + words / WORDS_PER_MINUTE),
+      ),
+    }
+  }
+
+  /**
+   * 按文档 id 和修改时间缓存, 文档修改后自然失效
+   */
+  async renderDocument(doc: {
+    _id?: any
+    text: string
+    created?: Date
+    modified?: Date
+  }): Promise<RenderResult> {
+    const version = new Date(doc.modified || doc.created || 0).getTime()
+    const key = `${CACHE_KEY_PREFIX}markdown:${doc._id}:${version}`
+    const cached = await this.cacheManager.get<RenderResult>(key)
+    if (cached) {
+      return cached
+    }
+    const result = this.render(doc.text)
+    await this.cacheManager.set(key, result, { ttl: 60 * 60 * 24 * 7 })
+    return result
+  }
+
+  /**
+   * 转为普通对象, `?render=html` 时把渲染结果合并到返回的文档中
+   */
+  async attachRendered(doc: any, render?: RenderQueryDto['render']) {
+    if (!doc) {
+      return doc
+    }
+    const json = typeof doc.toJSON === 'function' ? doc.toJSON() : doc
+    if (render !== 'html') {
+      return json
+    }
+    return { ...json, ...(await this.renderDocument(json)) }
+  }
+
+  private stripTags(html: string) {
+    return html
+      .replace(/<[^>]+>/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim()
+  }
+}
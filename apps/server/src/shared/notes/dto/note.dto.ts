@@ -58,6 +58,12 @@ export class NoteDto implements Partial<Record<keyof Note, any>> {
   @Transform(({ value }) => (value ? new Date(value) : null))
   secret?: Date
 
+  @IsOptional()
+  @IsDate()
+  @Transform(({ value }) => (value ? new Date(value) : null))
+  @ApiProperty({ description: '定时发布时间', required: false })
+  publishAt?: Date
+
   @IsOptional()
   @IsNotEmptyObject()
   @Transform(({ value }) => undefined)
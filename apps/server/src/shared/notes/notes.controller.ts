@@ -17,10 +17,15 @@ import {
 } from '@nestjs/common'
 import { ApiOperation, ApiParam, ApiTags } from '@nestjs/swagger'
 import { RolesGuard } from 'apps/server/src/auth/roles.guard'
+import { RevisionRefTypes } from '@libs/db/models/revision.model'
+import { SearchRefTypes } from '@libs/db/models/search-index.model'
+import { CommentRefTypes } from '@libs/db/models/comment.model'
+import { SubmissionRefTypes } from '@libs/db/models/submission.model'
 import {
   IntIdOrMongoIdDto,
   MongoIdDto,
 } from 'apps/server/src/shared/base/dto/id.dto'
+import { PagerDto } from 'apps/server/src/shared/base/dto/pager.dto'
 import { SearchDto } from 'apps/server/src/shared/base/dto/search.dto'
 import {
   ListQueryDto,
@@ -35,7 +40,11 @@ import { Auth } from 'shared/core/decorators/auth.decorator'
 import { Master } from 'shared/core/decorators/guest.decorator'
 import { CannotFindException } from 'shared/core/exceptions/cant-find.exception'
 import { PermissionInterceptor } from 'shared/core/interceptors/permission.interceptors'
-import { addConditionToSeeHideContent, yearCondition } from 'shared/utils'
+import {
+  addConditionToSeeHideContent,
+  isScheduled,
+  yearCondition,
+} from 'shared/utils'
 import { refreshKeyedCache } from 'utils/text-base'
 import {
   IpLocation,
@@ -43,6 +52,12 @@ import {
 } from '../../../../../shared/core/decorators/ip.decorator'
 import { EventTypes } from '../../gateway/events.types'
 import { WebEventsGateway } from '../../gateway/web/events.gateway'
+import { RenderQueryDto } from '../markdown/dto/render.dto'
+import { MarkdownService } from '../markdown/markdown.service'
+import { RevisionsService } from '../revisions/revisions.service'
+import { SearchService } from '../search/search.service'
+import { SubmissionService } from '../submission/submission.service'
+import { WebmentionService } from '../webmention/webmention.service'
 import { NotesService } from './notes.service'
 
 @ApiTags('Note Routes')
@@ -56,6 +71,11 @@ export class NotesController {
     private readonly noteService: NotesService,
     private readonly webgateway: WebEventsGateway,
     @Inject(CACHE_MANAGER) private readonly cacheManager: Cache,
+    private readonly revisionService: RevisionsService,
+    private readonly markdownService: MarkdownService,
+    private readonly searchService: SearchService,
+    private readonly submissionService: SubmissionService,
+    private readonly webmentionService: WebmentionService,
   ) {}
 
   @Get()
@@ -93,6 +113,7 @@ export class NotesController {
     @Master() isMaster: boolean,
     @Query() query: PasswordQueryDto,
     @IpLocation() location: IpRecord,
+    @Query() renderQuery: RenderQueryDto,
     @Query('single') isSingle?: boolean,
   ) {
     const { id } = params
@@ -113,8 +134,12 @@ export class NotesController {
     ) {
       throw new ForbiddenException('不要偷看人家的小心思啦~')
     }
+    const data = await this.markdownService.attachRendered(
+      current,
+      renderQuery.render,
+    )
     if (isSingle) {
-      return current
+      return data
     }
     this.noteService.shouldAddReadCount(current, location.ip)
     const select = '_id title nid id created modified'
@@ -136,7 +161,7 @@ export class NotesController {
       })
       .sort({ created: -1 })
       .select(select)
-    return { data: current, next, prev }
+    return { data, next, prev }
   }
 
   @Get('/list/:id')
@@ -196,10 +221,21 @@ export class NotesController {
   @Post()
   @Auth()
   async createNewNote(@Body() body: NoteDto) {
+    const scheduled = isScheduled(body.publishAt)
+    if (scheduled) {
+      body.hide = true
+    }
     const res = await this.noteService.createNew(body)
     this.noteService.RecordImageDimensions(res._id)
-    this.webgateway.broadcast(EventTypes.NOTE_CREATE, res)
-    refreshKeyedCache(this.cacheManager)
+    this.revisionService.record(RevisionRefTypes.Note, res._id)
+    this.searchService.syncDocument(SearchRefTypes.Note, res._id)
+    this.submissionService.submitDocument(SubmissionRefTypes.Note, res._id)
+    this.webmentionService.sendForDocument(CommentRefTypes.Note, res._id)
+    // 定时发布的记录由定时任务广播
+    if (!scheduled) {
+      this.webgateway.broadcast(EventTypes.NOTE_CREATE, res)
+      refreshKeyedCache(this.cacheManager)
+    }
     return res
   }
 
@@ -208,10 +244,18 @@ export class NotesController {
   async modifyNote(@Body() body: NoteDto, @Param() params: MongoIdDto) {
     const { id } = params
 
+    if (isScheduled(body.publishAt)) {
+      body.hide = true
+    }
+    await this.revisionService.record(RevisionRefTypes.Note, id)
     const doc = await this.noteService.update({ _id: id }, body)
 
     process.nextTick(async () => {
       this.noteService.RecordImageDimensions(id)
+      this.revisionService.record(RevisionRefTypes.Note, id)
+      this.searchService.syncDocument(SearchRefTypes.Note, id)
+      this.submissionService.submitDocument(SubmissionRefTypes.Note, id)
+      this.webmentionService.sendForDocument(CommentRefTypes.Note, id)
       const doc = await this.noteService.findById(id)
       this.webgateway.broadcast(EventTypes.NOTE_UPDATE, doc)
       refreshKeyedCache(this.cacheManager)
@@ -219,6 +263,14 @@ export class NotesController {
     return doc
   }
 
+  @Get(':id/revisions')
+  @Auth()
+  @ApiOperation({ summary: '获取记录的历史版本' })
+  async getRevisions(@Param() params: MongoIdDto, @Query() query: PagerDto) {
+    const { page, size } = query
+    return await this.revisionService.getRevisions(params.id, page, size)
+  }
+
   @Get('like/:id')
   async likeNote(
     @Param() param: IntIdOrMongoIdDto,
@@ -234,8 +286,9 @@ export class NotesController {
   @Delete(':id')
   @Auth()
   async deleteNote(@Param() params: MongoIdDto) {
-    const r = await this.noteService.deleteByIdAsync(params.id)
+    const r = await this.noteService.softDelete({ _id: params.id })
     this.webgateway.broadcast(EventTypes.NOTE_DELETE, params.id)
+    this.searchService.syncDocument(SearchRefTypes.Note, params.id)
     return r
   }
 
@@ -246,9 +299,16 @@ export class NotesController {
     @Master() isMaster: boolean,
     @Query() query: PasswordQueryDto,
     @IpLocation() location: IpRecord,
+    @Query() renderQuery: RenderQueryDto,
   ) {
     const _id = await this.noteService.validNid(params.nid)
-    return await this.getOneNote({ id: _id }, isMaster, query, location)
+    return await this.getOneNote(
+      { id: _id },
+      isMaster,
+      query,
+      location,
+      renderQuery,
+    )
   }
 
   @ApiOperation({ summary: '根据 nid 修改' })
@@ -261,7 +321,7 @@ export class NotesController {
     })
   }
 
-  @ApiOperation({ summary: '搜索' })
+  @ApiOperation({ summary: '搜索, 请使用 /search', deprecated: true })
   @Get('/search')
   async searchNote(@Query() query: SearchDto) {
     const { keyword, page, size } = query
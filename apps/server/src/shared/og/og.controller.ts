@@ -0,0 +1,25 @@
+import { Controller, Get, Param, Res } from '@nestjs/common'
+import { ApiOperation, ApiTags } from '@nestjs/swagger'
+import { FastifyReply } from 'fastify'
+import { OgParamsDto } from './og.dto'
+import { OgService } from './og.service'
+
+@Controller('og')
+@ApiTags('Open Graph Routes')
+export class OgController {
+  constructor(private readonly service: OgService) {}
+
+  @Get(':type/:id')
+  @ApiOperation({ summary: '文章或记录的分享卡片, 如 /og/post/:id.png' })
+  async getImage(@Param() params: OgParamsDto, @Res() reply: FastifyReply) {
+    const { buffer, modified } = await this.service.getImage(
+      params.type,
+      params.id,
+    )
+    reply
+      .type('image/png')
+      .header('Last-Modified', modified.toUTCString())
+      .header('Cache-Control', 'public, max-age=3600')
+      .send(buffer)
+  }
+}
@@ -0,0 +1,19 @@
+import { ApiProperty } from '@nestjs/swagger'
+import { Transform } from 'class-transformer'
+import { IsEnum, IsMongoId } from 'class-validator'
+
+export enum OgTypes {
+  Post = 'post',
+  Note = 'note',
+}
+
+export class OgParamsDto {
+  @IsEnum(OgTypes)
+  @ApiProperty({ enum: OgTypes })
+  type: OgTypes
+
+  @Transform(({ value: v }) => String(v).replace(/\.png$/, ''))
+  @IsMongoId()
+  @ApiProperty({ example: '5e7f4b2f2e1f8b0c8c8b4567.png' })
+  id: string
+}
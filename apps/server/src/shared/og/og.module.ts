@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common'
+import { OgController } from './og.controller'
+import { OgService } from './og.service'
+
+@Module({
+  providers: [OgService],
+  controllers: [OgController],
+})
+export class OgModule {}
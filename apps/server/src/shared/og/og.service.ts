@@ -0,0 +1,150 @@
+import Category from '@libs/db/models/category.model'
+import Note from '@libs/db/models/note.model'
+import Post from '@libs/db/models/post.model'
+import { User } from '@libs/db/models/user.model'
+import { HttpService, Injectable, Logger } from '@nestjs/common'
+import { Resvg } from '@resvg/resvg-js'
+import { ReturnModelType } from '@typegoose/typegoose'
+import { createHash } from 'crypto'
+import { existsSync, mkdirSync } from 'fs'
+import { readdir, readFile, unlink, writeFile } from 'fs/promises'
+import { InjectModel } from 'nestjs-typegoose'
+import { join } from 'path'
+import { DATA_DIR } from 'shared/constants'
+import { CannotFindException } from 'shared/core/exceptions/cant-find.exception'
+import { ConfigsService } from 'shared/global'
+import { OgTypes } from './og.dto'
+import { buildOgCard, OgCardProps, OG_WIDTH } from './og.template'
+
+@Injectable()
+export class OgService {
+  private readonly logger = new Logger(OgService.name)
+
+  /** 渲染好的图片, 文件名中带有文档的修改时间 */
+  public static cachePath = join(DATA_DIR, 'og')
+  /** 放在这里的字体会被加载, 系统没有中文字体时需要 */
+  public static fontPath = join(DATA_DIR, 'fonts')
+
+  constructor(
+    @InjectModel(Post) private readonly postModel: ReturnModelType<typeof Post>,
+    @InjectModel(Note) private readonly noteModel: ReturnModelType<typeof Note>,
+    @InjectModel(User) private readonly userModel: ReturnModelType<typeof User>,
+    private readonly http: HttpService,
+    private readonly configs: ConfigsService,
+  ) {
+    mkdirSync(OgService.cachePath, { recursive: true })
+  }
+
+  async getImage(type: OgTypes, id: string) {
+    const doc = await this.findPublicDocument(type, id)
+    const modified = new Date(doc.modified || doc.created)
+    const meta = this.getCardMeta(type, doc)
+    // 分类改名和主色调变化不会更新文档的修改时间
+    const version = createHash('md5')
+      .update(JSON.stringify([modified.getTime(), meta.label, meta.accent]))
+      .digest('hex')
+      .slice(0, 8)
+    const prefix = `${type}_${id}_`
+    const filename = `${prefix}${version}.png`
+    const path = join(OgService.cachePath, filename)
+    if (existsSync(path)) {
+      return { buffer: await readFile(path), modified }
+    }
+
+    const buffer = await this.render(await this.getCardProps(doc, meta))
+    await writeFile(path, buffer)
+    // 文档修改后旧的图片就用不到了
+    const files = await readdir(OgService.cachePath)
+    for (const file of files) {
+      if (file.startsWith(prefix) && file !== filename) {
+        await unlink(join(OgService.cachePath, file)).catch(() => null)
+      }
+    }
+    return { buffer, modified }
+  }
+
+  /**
+   * 隐藏, 加密和未到公开时间的内容不生成
+   */
+  private async findPublicDocument(type: OgTypes, id: string) {
+    const doc: any =
+      type === OgTypes.Post
+        ? await this.postModel
+            .findOne({ _id: id, hide: false })
+            .populate('category', 'name')
+            .lean()
+        : await this.noteModel
+            .findOne({ _id: id, hide: false })
+            .select('+password')
+            .lean()
+    if (
+      !doc ||
+      doc.password ||
+      (doc.secret && new Date(doc.secret) > new Date())
+    ) {
+      throw new CannotFindException()
+    }
+    return doc as (Post | Note) & { category?: Category }
+  }
+
+  private getCardMeta(
+    type: OgTypes,
+    doc: (Post | Note) & { category?: Category },
+  ) {
+    return {
+      label:
+        type === OgTypes.Post
+          ? doc.category?.name || ''
+          : `日记 #${(doc as Note).nid}`,
+      accent: doc.images?.find((image) => image.accent)?.accent,
+    }
+  }
+
+  private async getCardProps(
+    doc: Post | Note,
+    meta: Pick<OgCardProps, 'label' | 'accent'>,
+  ): Promise<OgCardProps> {
+    const master = await this.userModel.findOne().select('name avatar').lean()
+    return {
+      ...meta,
+      title: doc.title,
+      author: master?.name || '',
+      avatar: master?.avatar
+        ? await this.fetchAsDataURI(master.avatar)
+        : undefined,
+      siteName: this.configs.get('seo').title,
+    }
+  }
+
+  private async fetchAsDataURI(url: string) {
+    try {
+      const res = await this.http
+        .get(url, { responseType: 'arraybuffer' })
+        .toPromise()
+      const type = String(res.headers['content-type'] || 'image/png')
+        .split(';')[0]
+        .trim()
+      // 会被拼接到 SVG 的属性中
+      if (!/^image\/[\w.+-]+$/.test(type)) {
+        this.logger.warn(`头像的类型不正确: ${url} ${type}`)
+        return undefined
+      }
+      return `data:${type};base64,${Buffer.from(res.data).toString('base64')}`
+    } catch (err) {
+      this.logger.warn(`获取头像失败: ${url} ${err.message}`)
+      return undefined
+    }
+  }
+
+  private async render(props: OgCardProps) {
+    const resvg = new Resvg(buildOgCard(props), {
+      fitTo: { mode: 'width', value: OG_WIDTH },
+      font: {
+        loadSystemFonts: true,
+        fontDirs: existsSync(OgService.fontPath) ? [OgService.fontPath] : [],
+        defaultFontFamily: 'Noto Sans CJK SC',
+      },
+    })
+    return resvg.render().asPng()
+  }
+}
@@ -0,0 +1,149 @@
+import { escape } from 'lodash'
+
+export const OG_WIDTH = 1200
+export const OG_HEIGHT = 630
+
+const DEFAULT_ACCENT = '#5b6b7b'
+const FONT_FAMILY =
+  "'Noto Sans CJK SC', 'Noto Sans SC', 'PingFang SC', 'Microsoft YaHei', sans-serif"
+
+export interface OgCardProps {
+  title: string
+  /** 标题上方的小字, 文章是分类名 */
+  label: string
+  author: string
+  /** data URI, 没有时不显示头像 */
+  avatar?: string
+  siteName: string
+  accent?: string
+}
+
+const parseHex = (color: string) => {
+  const hex = color.replace('#', '')
+  const full =
+    hex.length === 3
+      ? hex
+          .split('')
+          .map((c) => c + c)
+          .join('')
+      : hex
+  if (!/^[\da-f]{6}$/i.test(full)) {
+    return null
+  }
+  return [0, 2, 4].map((i) => parseInt(full.slice(i, i + 2), 16))
+}
+
+const toHex = (rgb: number[]) =>
+  '#' +
+  rgb
+    .map((n) => Math.max(0, Math.min(255, Math.round(n))))
+    .map((n) => n.toString(16).padStart(2, '0'))
+    .join('')
+
+/**
+ * 估算文字宽度, 全角字符占一个字号, 半角约占一半
+ */
+const measure = (text: string, fontSize: number) =>
+  [...text].reduce(
+    (width, char) =>
+      width +
+      fontSize *
+        (char.charCodeAt(0) > 0xff ? 1 : /[A-Z0-9]/.test(char) ? 0.62 : 0.5),
+    0,
+  )
+
+/**
+ * 按宽度折行, 英文单词不拆开, 超出行数时以省略号结尾
+ */
+export function wrapText(
+  text: string,
+  fontSize: number,
+  maxWidth: number,
+  maxLines: number,
+) {
+  const segments = text.match(/[\x21-\x7e]+\s*|\s+|[^\x21-\x7e\s]/g) || []
+  const lines: string[] = []
+  let line = ''
+  for (const segment of segments) {
+    if (measure(line + segment.trimEnd(), fontSize) <= maxWidth) {
+      line += segment
+      continue
+    }
+    if (line) {
+      lines.push(line.trimEnd())
+    }
+    line = segment.trimStart()
+    // 单个单词就超过一行时只能硬切
+    while (measure(line, fontSize) > maxWidth) {
+      let i = line.length
+      while (i > 1 && measure(line.slice(0, i), fontSize) > maxWidth) {
+        i--
+      }
+      lines.push(line.slice(0, i))
+      line = line.slice(i)
+    }
+  }
+  if (line.trim()) {
+    lines.push(line.trimEnd())
+  }
+  if (lines.length > maxLines) {
+    let last = lines[maxLines - 1]
+    while (last && measure(last + '…', fontSize) > maxWidth) {
+      last = last.slice(0, -1)
+    }
+    return [...lines.slice(0, maxLines - 1), last + '…']
+  }
+  return lines
+}
+
+export function buildOgCard(props: OgCardProps) {
+  const rgb = parseHex(props.accent || '') || parseHex(DEFAULT_ACCENT)
+  const end = toHex(rgb.map((n) => n * 0.6))
+  // 按亮度决定文字用深色还是浅色
+  const luminance = (0.299 * rgb[0] + 0.587 * rgb[1] + 0.114 * rgb[2]) / 255
+  const foreground = luminance > 0.65 ? '#1a1a1a' : '#ffffff'
+
+  const titleLines = wrapText(props.title, 64, OG_WIDTH - 160, 3)
+  const titleTop = 230 + ((3 - titleLines.length) * 84) / 2
+  const hasAvatar = !!props.avatar
+  const authorX = hasAvatar ? 176 : 80
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${OG_WIDTH}" height="${OG_HEIGHT}" viewBox="0 0 ${OG_WIDTH} ${OG_HEIGHT}">`,
+    '  <defs>',
+    '    <linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">',
+    `      <stop offset="0" stop-color="${toHex(rgb)}"/>`,
+    `      <stop offset="1" stop-color="${end}"/>`,
+    '    </linearGradient>',
+    '    <clipPath id="avatar"><circle cx="116" cy="530" r="36"/></clipPath>',
+    '  </defs>',
+    `  <rect width="${OG_WIDTH}" height="${OG_HEIGHT}" fill="url(#bg)"/>`,
+    `  <g font-family="${FONT_FAMILY}" fill="${foreground}">`,
+    `    <text x="80" y="120" font-size="32" opacity="0.75">${escape(
+      props.label,
+    )}</text>`,
+    ...titleLines.map(
+      (line, i) =>
+        `    <text x="80" y="${
+          titleTop + i * 84
+        }" font-size="64" font-weight="bold">${escape(line)}</text>`,
+    ),
+    hasAvatar
+      ? `    <image x="80" y="494" width="72" height="72" clip-path="url(#avatar)" preserveAspectRatio="xMidYMid slice" xlink:href="${escape(
+          props.avatar,
+        )}"/>`
+      : '',
+    `    <text x="${authorX}" y="541" font-size="30">${escape(
+      props.author,
+    )}</text>`,
+    `    <text x="${
+      OG_WIDTH - 80
+    }" y="541" font-size="28" text-anchor="end" opacity="0.75">${escape(
+      props.siteName,
+    )}</text>`,
+    '  </g>',
+    '</svg>',
+  ]
+    .filter(Boolean)
+    .join('\n')
+}
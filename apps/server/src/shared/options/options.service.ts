@@ -15,12 +15,19 @@ import {
 import { ClassConstructor, plainToClass } from 'class-transformer'
 import { validateSync, ValidatorOptions } from 'class-validator'
 import {
+  ActivityPubOptions,
   BackupOptions,
   BaiduSearchOptions,
+  BingSearchOptions,
   CommentOptions,
+  FeedOptions,
   ImageBedDto,
+  IndexNowOptions,
   MailOptionsDto,
   SEODto,
+  SearchOptions,
+  TrashOptions,
+  UploadsGcOptions,
   UrlDto,
 } from '../../../../../shared/global/configs/configs.dto'
 import {
@@ -75,6 +82,34 @@ export class OptionsService {
 
         return this.configs.patch('baiduSearchOptions', value)
       }
+      case 'indexNowOptions': {
+        this.validWithDto(IndexNowOptions, value)
+        return this.configs.patch('indexNowOptions', value)
+      }
+      case 'bingSearchOptions': {
+        this.validWithDto(BingSearchOptions, value)
+        return this.configs.patch('bingSearchOptions', value)
+      }
+      case 'trashOptions': {
+        this.validWithDto(TrashOptions, value)
+        return this.configs.patch('trashOptions', value)
+      }
+      case 'searchOptions': {
+        this.validWithDto(SearchOptions, value)
+        return this.configs.patch('searchOptions', value)
+      }
+      case 'feedOptions': {
+        this.validWithDto(FeedOptions, value)
+        return this.configs.patch('feedOptions', value)
+      }
+      case 'activityPubOptions': {
+        this.validWithDto(ActivityPubOptions, value)
+        return this.configs.patch('activityPubOptions', value)
+      }
+      case 'uploadsGcOptions': {
+        this.validWithDto(UploadsGcOptions, value)
+        return this.configs.patch('uploadsGcOptions', value)
+      }
       default: {
         throw new UnprocessableEntityException('设置不存在')
       }
@@ -8,6 +8,10 @@
  */
 
 import Page from '@libs/db/models/page.model'
+import { RevisionRefTypes } from '@libs/db/models/revision.model'
+import { SearchRefTypes } from '@libs/db/models/search-index.model'
+import { CommentRefTypes } from '@libs/db/models/comment.model'
+import { SubmissionRefTypes } from '@libs/db/models/submission.model'
 import {
   Body,
   Controller,
@@ -20,17 +24,30 @@ import {
   UseGuards,
 } from '@nestjs/common'
 import { AuthGuard } from '@nestjs/passport'
-import { ApiBearerAuth, ApiTags } from '@nestjs/swagger'
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger'
 import { CannotFindException } from 'shared/core/exceptions/cant-find.exception'
 import { MongoIdDto } from 'apps/server/src/shared/base/dto/id.dto'
 import { PageService } from './page.service'
 
 import { PagerDto } from '../base/dto/pager.dto'
+import { RevisionsService } from '../revisions/revisions.service'
+import { RenderQueryDto } from '../markdown/dto/render.dto'
+import { MarkdownService } from '../markdown/markdown.service'
+import { SearchService } from '../search/search.service'
+import { SubmissionService } from '../submission/submission.service'
+import { WebmentionService } from '../webmention/webmention.service'
 
 @ApiTags('Page Routes')
 @Controller('pages')
 export class PageController {
-  constructor(private readonly service: PageService) {}
+  constructor(
+    private readonly service: PageService,
+    private readonly revisionService: RevisionsService,
+    private readonly markdownService: MarkdownService,
+    private readonly searchService: SearchService,
+    private readonly submissionService: SubmissionService,
+    private readonly webmentionService: WebmentionService,
+  ) {}
 
   @Get()
   async getPagesSummary(@Query() query: PagerDto) {
@@ -47,24 +64,34 @@ export class PageController {
   }
 
   @Get(':id')
-  async getPageById(@Param() params: MongoIdDto) {
-    const page = this.service.findById(params.id)
+  async getPageById(
+    @Param() params: MongoIdDto,
+    @Query() query: RenderQueryDto,
+  ) {
+    const page = await this.service.findById(params.id)
     if (!page) {
       throw new CannotFindException()
     }
-    return page
+    return await this.markdownService.attachRendered(page, query.render)
   }
 
   @Get('slug/:slug')
-  async getPageBySlug(@Param('slug') slug: string) {
+  async getPageBySlug(
+    @Param('slug') slug: string,
+    @Query() query: RenderQueryDto,
+  ) {
     const page = await this.service.findOne({
       slug,
     })
 
     if (!page) {
+      const redirect = await this.service.findRedirect(slug)
+      if (redirect) {
+        return redirect
+      }
       throw new CannotFindException()
     }
-    return page
+    return await this.markdownService.attachRendered(page, query.render)
   }
 
   @Post()
@@ -73,6 +100,10 @@ export class PageController {
   async createPage(@Body() body: Page) {
     const doc = await this.service.createNew(body)
     this.service.RecordImageDimensions(doc._id)
+    this.revisionService.record(RevisionRefTypes.Page, doc._id)
+    this.searchService.syncDocument(SearchRefTypes.Page, doc._id)
+    this.submissionService.submitDocument(SubmissionRefTypes.Page, doc._id)
+    this.webmentionService.sendForDocument(CommentRefTypes.Page, doc._id)
     return doc
   }
 
@@ -81,17 +112,34 @@ export class PageController {
   @UseGuards(AuthGuard('jwt'))
   async modifiedPage(@Body() body: Page, @Param() params: MongoIdDto) {
     const { id } = params
+    await this.revisionService.record(RevisionRefTypes.Page, id)
+    await this.service.recordOldSlug(id, body.slug)
     const res = await this.service.update({ _id: id }, body)
     this.service.RecordImageDimensions(id)
+    this.revisionService.record(RevisionRefTypes.Page, id)
+    this.searchService.syncDocument(SearchRefTypes.Page, id)
+    this.submissionService.submitDocument(SubmissionRefTypes.Page, id)
+    this.webmentionService.sendForDocument(CommentRefTypes.Page, id)
     return res
   }
 
+  @Get(':id/revisions')
+  @ApiBearerAuth()
+  @UseGuards(AuthGuard('jwt'))
+  @ApiOperation({ summary: '获取页面的历史版本' })
+  async getRevisions(@Param() params: MongoIdDto, @Query() query: PagerDto) {
+    const { page, size } = query
+    return await this.revisionService.getRevisions(params.id, page, size)
+  }
+
   @Delete(':id')
   @ApiBearerAuth()
   @UseGuards(AuthGuard('jwt'))
   async deletePage(@Param() params: MongoIdDto) {
-    return await this.service.deleteOneAsync({
+    const res = await this.service.softDelete({
       _id: params.id,
     })
+    this.searchService.syncDocument(SearchRefTypes.Page, params.id)
+    return res
   }
 }
@@ -8,7 +8,7 @@
  */
 
 import Page from '@libs/db/models/page.model'
-import { HttpService, Injectable } from '@nestjs/common'
+import { HttpService, HttpStatus, Injectable } from '@nestjs/common'
 import { ReturnModelType } from '@typegoose/typegoose'
 import { InjectModel } from 'nestjs-typegoose'
 import { ConfigsService } from '../../../../../shared/global'
@@ -23,4 +23,39 @@ export class PageService extends WriteBaseService<Page> {
   ) {
     super(pageModel, http, configs)
   }
+
+  /**
+   * slug 变化时记下旧的, 之后访问旧地址会被重定向
+   */
+  async recordOldSlug(id: string, slug?: string) {
+    const oldPage = await this.pageModel.findById(id).select('slug').lean()
+    if (!oldPage || !slug || oldPage.slug === slug) {
+      return
+    }
+    await this.pageModel.updateOne(
+      { _id: id },
+      { $addToSet: { oldSlugs: oldPage.slug } },
+    )
+    await this.pageModel.updateOne({ _id: id }, { $pull: { oldSlugs: slug } })
+  }
+
+  /**
+   * 根据旧的 slug 找到页面现在的地址
+   */
+  async findRedirect(slug: string) {
+    const doc = await this.pageModel
+      .findOne({ oldSlugs: slug })
+      .sort({ modified: -1 })
+      .lean()
+    if (!doc) {
+      return null
+    }
+    return {
+      redirect: true,
+      statusCode: HttpStatus.MOVED_PERMANENTLY,
+      id: doc._id,
+      slug: doc.slug,
+      path: `/pages/slug/${doc.slug}`,
+    }
+  }
 }
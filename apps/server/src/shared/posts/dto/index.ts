@@ -11,13 +11,16 @@ import { Transform } from 'class-transformer'
 import {
   ArrayUnique,
   IsBoolean,
+  IsDate,
   IsEnum,
   IsMongoId,
   IsNotEmpty,
   IsNotEmptyObject,
   IsOptional,
   IsString,
+  Max,
   MaxLength,
+  Min,
   ValidateIf,
 } from 'class-validator'
 import { PagerDto } from '../../base/dto/pager.dto'
@@ -80,6 +83,12 @@ export class PostDto {
   @IsOptional()
   @IsNotEmptyObject()
   options?: Record<any, any>
+
+  @IsOptional()
+  @IsDate()
+  @Transform(({ value }) => (value ? new Date(value) : null))
+  @ApiProperty({ description: '定时发布时间', required: false })
+  publishAt?: Date
 }
 
 export class PostQueryDto extends PagerDto {
@@ -94,3 +103,11 @@ export class PostQueryDto extends PagerDto {
   @Transform(({ value: v }) => v | 0)
   sortOrder?: 1 | -1
 }
+
+export class RelatedQueryDto {
+  @Transform(({ value: val }) => parseInt(val))
+  @Min(1)
+  @Max(20)
+  @IsOptional()
+  size?: number
+}
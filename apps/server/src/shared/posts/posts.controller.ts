@@ -14,21 +14,37 @@ import {
   UseInterceptors,
 } from '@nestjs/common'
 import { ApiOperation, ApiTags } from '@nestjs/swagger'
+import { RevisionRefTypes } from '@libs/db/models/revision.model'
+import { SearchRefTypes } from '@libs/db/models/search-index.model'
+import { CommentRefTypes } from '@libs/db/models/comment.model'
+import { SubmissionRefTypes } from '@libs/db/models/submission.model'
 import { RolesGuard } from 'apps/server/src/auth/roles.guard'
 import { MongoIdDto } from 'apps/server/src/shared/base/dto/id.dto'
+import { PagerDto } from 'apps/server/src/shared/base/dto/pager.dto'
 import { SearchDto } from 'apps/server/src/shared/base/dto/search.dto'
 import { Types } from 'mongoose'
 import { Auth } from 'shared/core/decorators/auth.decorator'
 import { Master } from 'shared/core/decorators/guest.decorator'
 import { PermissionInterceptor } from 'shared/core/interceptors/permission.interceptors'
-import { addConditionToSeeHideContent, yearCondition } from 'shared/utils'
+import {
+  addConditionToSeeHideContent,
+  isScheduled,
+  yearCondition,
+} from 'shared/utils'
 import {
   IpLocation,
   IpRecord,
 } from '../../../../../shared/core/decorators/ip.decorator'
 import { EventTypes } from '../../gateway/events.types'
 import { WebEventsGateway } from '../../gateway/web/events.gateway'
-import { CategoryAndSlug, PostDto, PostQueryDto } from './dto'
+import { RevisionsService } from '../revisions/revisions.service'
+import { RenderQueryDto } from '../markdown/dto/render.dto'
+import { MarkdownService } from '../markdown/markdown.service'
+import { SearchService } from '../search/search.service'
+import { SeriesService } from '../series/series.service'
+import { SubmissionService } from '../submission/submission.service'
+import { WebmentionService } from '../webmention/webmention.service'
+import { CategoryAndSlug, PostDto, PostQueryDto, RelatedQueryDto } from './dto'
 import { PostsService } from './posts.service'
 
 @Controller('posts')
@@ -39,7 +55,13 @@ export class PostsController {
   constructor(
     private readonly service: PostsService,
     private readonly webgateway: WebEventsGateway,
-  ) { }
+    private readonly revisionService: RevisionsService,
+    private readonly seriesService: SeriesService,
+    private readonly markdownService: MarkdownService,
+    private readonly searchService: SearchService,
+    private readonly submissionService: SubmissionService,
+    private readonly webmentionService: WebmentionService,
+  ) {}
 
   @Get()
   @ApiOperation({ summary: '获取全部文章带分页器' })
@@ -63,36 +85,58 @@ export class PostsController {
   async getByCateAndSlug(
     @Param() params: CategoryAndSlug,
     @IpLocation() location: IpRecord,
+    @Master() isMaster: boolean,
+    @Query() query: RenderQueryDto,
   ) {
     const { category, slug } = params
     // search category
 
     const categoryDocument = await this.service.getCategoryBySlug(category)
-    if (!categoryDocument) {
-      throw new NotFoundException('该分类未找到 (｡•́︿•̀｡)')
-    }
 
-    const postDocument = await this.service
-      .findOne({
-        slug,
-        categoryId: categoryDocument._id,
-        // ...condition,
-      })
-      .populate('category')
+    const postDocument = categoryDocument
+      ? await this.service
+          .findOne({
+            slug,
+            categoryId: categoryDocument._id,
+            // ...condition,
+          })
+          .populate('category')
+      : null
 
     if (!postDocument) {
-      throw new NotFoundException('该文章未找到 (｡ŏ_ŏ)')
+      // 分类或 slug 改过的旧链接
+      const redirect = await this.service.findRedirect(category, slug, isMaster)
+      if (redirect) {
+        return redirect
+      }
+      throw new NotFoundException(
+        categoryDocument ? '该文章未找到 (｡ŏ_ŏ)' : '该分类未找到 (｡•́︿•̀｡)',
+      )
     }
     this.service.updateReadCount(postDocument, location.ip)
-    return postDocument
+    const series = await this.seriesService.getNavigation(
+      postDocument._id,
+      isMaster,
+    )
+    return {
+      ...(await this.markdownService.attachRendered(
+        postDocument,
+        query.render,
+      )),
+      series,
+    }
   }
 
   @Get(':id')
   @ApiOperation({ summary: '根据 ID 查找' })
-  async getById(@Param() query: MongoIdDto, @IpLocation() location: IpRecord) {
+  async getById(
+    @Param() query: MongoIdDto,
+    @IpLocation() location: IpRecord,
+    @Query() renderQuery: RenderQueryDto,
+  ) {
     const doc = await this.service.findPostById(query.id)
     this.service.updateReadCount(doc, location.ip)
-    return doc
+    return await this.markdownService.attachRendered(doc, renderQuery.render)
   }
 
   @Post()
@@ -110,7 +154,9 @@ export class PostsController {
       options,
       tags,
       copyright,
+      publishAt,
     } = body
+    const scheduled = isScheduled(publishAt)
     const newPostDocument = await this.service.createNew({
       text,
       title,
@@ -119,20 +165,34 @@ export class PostsController {
       // @ts-ignore
       categoryId,
       summary,
-      hide,
+      hide: scheduled || hide,
       options,
       tags,
       copyright,
+      publishAt,
     })
     new Promise(async (resolve) => {
-      const category = await this.service.getCategoryById(
-        newPostDocument.categoryId,
-      )
-      this.webgateway.broadcast(EventTypes.POST_CREATE, {
-        ...newPostDocument.toJSON(),
-        category,
-      })
+      // 定时发布的文章由定时任务广播
+      if (!scheduled) {
+        const category = await this.service.getCategoryById(
+          newPostDocument.categoryId,
+        )
+        this.webgateway.broadcast(EventTypes.POST_CREATE, {
+          ...newPostDocument.toJSON(),
+          category,
+        })
+      }
       this.service.RecordImageDimensions(newPostDocument._id)
+      this.revisionService.record(RevisionRefTypes.Post, newPostDocument._id)
+      this.searchService.syncDocument(SearchRefTypes.Post, newPostDocument._id)
+      this.submissionService.submitDocument(
+        SubmissionRefTypes.Post,
+        newPostDocument._id,
+      )
+      this.webmentionService.sendForDocument(
+        CommentRefTypes.Post,
+        newPostDocument._id,
+      )
       resolve(null)
     })
     return newPostDocument
@@ -144,10 +204,18 @@ export class PostsController {
   async modifyPost(@Body() body: PostDto, @Param() params: MongoIdDto) {
     const { id } = params
 
+    if (isScheduled(body.publishAt)) {
+      body.hide = true
+    }
+    await this.revisionService.record(RevisionRefTypes.Post, id)
     const updateDocument = await this.service.update({ _id: id }, body as any)
     // emit event
     process.nextTick(() => {
       this.service.RecordImageDimensions(id)
+      this.revisionService.record(RevisionRefTypes.Post, id)
+      this.searchService.syncDocument(SearchRefTypes.Post, id)
+      this.submissionService.submitDocument(SubmissionRefTypes.Post, id)
+      this.webmentionService.sendForDocument(CommentRefTypes.Post, id)
       this.service
         .findById(id)
         .lean()
@@ -161,6 +229,24 @@ export class PostsController {
     }
   }
 
+  @Get(':id/related')
+  @ApiOperation({ summary: '获取相关文章' })
+  async getRelated(
+    @Param() params: MongoIdDto,
+    @Query() query: RelatedQueryDto,
+    @Master() isMaster: boolean,
+  ) {
+    return await this.service.getRelated(params.id, isMaster, query.size)
+  }
+
+  @Get(':id/revisions')
+  @Auth()
+  @ApiOperation({ summary: '获取文章的历史版本' })
+  async getRevisions(@Param() params: MongoIdDto, @Query() query: PagerDto) {
+    const { page, size } = query
+    return await this.revisionService.getRevisions(params.id, page, size)
+  }
+
   @Delete(':id')
   @Auth()
   @ApiOperation({ summary: '删除一篇文章' })
@@ -169,11 +255,12 @@ export class PostsController {
     const { id } = params
     await this.service.deletePost(id)
     this.webgateway.broadcast(EventTypes.POST_DELETE, id)
+    this.searchService.syncDocument(SearchRefTypes.Post, id)
     return
   }
 
   @Get('search')
-  @ApiOperation({ summary: '搜索文章' })
+  @ApiOperation({ summary: '搜索文章, 请使用 /search', deprecated: true })
   async searchPost(@Query() query: SearchDto) {
     const { keyword, page, size } = query
     const select = '_id title created modified categoryId'
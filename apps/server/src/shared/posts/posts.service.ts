@@ -8,18 +8,20 @@
  */
 
 import Category from '@libs/db/models/category.model'
-import Comment from '@libs/db/models/comment.model'
-import Post from '@libs/db/models/post.model'
+import Post, { RelatedPost } from '@libs/db/models/post.model'
 import {
   BadRequestException,
   CACHE_MANAGER,
   HttpService,
+  HttpStatus,
   Inject,
   Injectable,
+  Logger,
   UnprocessableEntityException,
 } from '@nestjs/common'
+import { Cron, CronExpression } from '@nestjs/schedule'
 import { DocumentType, Ref, ReturnModelType } from '@typegoose/typegoose'
-import { merge } from 'lodash'
+import { intersection, merge, union } from 'lodash'
 import { FilterQuery, QueryUpdateOptions } from 'mongoose'
 import { RedisService } from 'nestjs-redis'
 import { InjectModel } from 'nestjs-typegoose'
@@ -34,6 +36,12 @@ import { CategoriesService } from '../categories/categories.service'
 import { ConfigsService } from '../../../../../shared/global'
 import { Cache } from 'cache-manager'
 import { CacheKeys, CACHE_KEY_PREFIX } from 'shared/constants'
+import { addConditionToSeeHideContent } from 'shared/utils'
+import {
+  cosineSimilarity,
+  termFrequency,
+  tfIdfVectors,
+} from 'shared/utils/tokenize'
 @Injectable()
 export class PostsService extends WriteBaseService<Post> {
   constructor(
@@ -41,8 +49,6 @@ export class PostsService extends WriteBaseService<Post> {
     @Inject(CACHE_MANAGER) private readonly cacheManager: Cache,
 
     private readonly categoryService: CategoriesService,
-    @InjectModel(Comment)
-    private readonly commentModel: ReturnModelType<typeof Comment>,
     private readonly http: HttpService,
     private readonly redis: RedisService,
     private readonly configs: ConfigsService,
@@ -53,7 +59,7 @@ export class PostsService extends WriteBaseService<Post> {
   async createNew(projection: Partial<Post>) {
     const { categoryId } = projection
     const validCategory = await this.findCategoryById(
-      (categoryId as any) as string,
+      categoryId as any as string,
     )
     if (!validCategory) {
       throw new UnprocessableEntityException('分类丢失了 ಠ_ಠ')
@@ -69,6 +75,7 @@ export class PostsService extends WriteBaseService<Post> {
 
     // to refresh cache for rss, sitemap
     refreshKeyedCache(this.cacheManager)
+    this.scheduleRelatedPosts(String(newDocument._id))
 
     return newDocument
   }
@@ -156,10 +163,10 @@ export class PostsService extends WriteBaseService<Post> {
     const { categoryId } = projection
     if (categoryId !== (oldPost.categoryId as any)) {
       const originCategory = await this.findCategoryById(
-        (oldPost.categoryId as any) as string,
+        oldPost.categoryId as any as string,
       )
       const newCategory = await this.findCategoryById(
-        (categoryId as any) as string,
+        categoryId as any as string,
       )
 
       originCategory.count--
@@ -172,9 +179,11 @@ export class PostsService extends WriteBaseService<Post> {
       newCategory.count++
       await newCategory.save()
     }
+    await this.recordOldSlug(oldPost, projection)
     // tag
     // await this.modifyTag(oldPost, projection.tags)
     refreshKeyedCache(this.cacheManager)
+    this.scheduleRelatedPosts(String(oldPost._id))
     return super.update(
       { _id: condition._id },
       projection,
@@ -186,8 +195,103 @@ export class PostsService extends WriteBaseService<Post> {
       ),
     )
   }
+  /**
+   * 分类或 slug 变化时记下旧的, 之后访问旧地址会被重定向
+   */
+  private async recordOldSlug(
+    oldPost: DocumentType<Post>,
+    projection: Partial<Post>,
+  ) {
+    const oldCategory = oldPost.category as Category
+    if (!oldCategory) {
+      return
+    }
+    const { slug = oldPost.slug, categoryId = oldPost.categoryId } = projection
+    const category =
+      String(categoryId) === String(oldPost.categoryId)
+        ? oldCategory
+        : await this.findCategoryById(String(categoryId))
+    if (
+      !category ||
+      (category.slug === oldCategory.slug && slug === oldPost.slug)
+    ) {
+      return
+    }
+    await this.model.updateOne(
+      { _id: oldPost._id },
+      {
+        $addToSet: {
+          oldSlugs: { category: oldCategory.slug, slug: oldPost.slug },
+        },
+      },
+    )
+    // 改回曾经用过的地址时, 不再需要重定向
+    await this.model.updateOne(
+      { _id: oldPost._id },
+      { $pull: { oldSlugs: { category: category.slug, slug } } },
+    )
+  }
+
+  /**
+   * 根据旧的分类和 slug 找到文章现在的地址
+   */
+  async findRedirect(category: string, slug: string, isMaster: boolean) {
+    const doc = await this.model
+      .findOne({
+        oldSlugs: { $elemMatch: { category, slug } },
+        ...addConditionToSeeHideContent(isMaster),
+      })
+      .sort({ modified: -1 })
+      .populate('category')
+      .lean()
+    if (!doc || !doc.category) {
+      return null
+    }
+    const current = {
+      category: (doc.category as Category).slug,
+      slug: doc.slug,
+    }
+    return {
+      redirect: true,
+      statusCode: HttpStatus.MOVED_PERMANENTLY,
+      id: doc._id,
+      ...current,
+      path: `/posts/${current.category}/${current.slug}`,
+    }
+  }
+
+  /**
+   * 读取预先计算好的相关文章, 隐藏或已删除的文章会被跳过
+   */
+  async getRelated(id: string, isMaster: boolean, size = 5) {
+    const doc = await this.model.findById(id).select('+related').lean()
+    if (!doc) {
+      throw new CannotFindException()
+    }
+    const ids = (doc.related || []).map((item) => item.post)
+    const posts = await this.model
+      .find({ _id: { $in: ids }, ...addConditionToSeeHideContent(isMaster) })
+      .select('title slug summary tags categoryId created modified')
+      .populate('category', 'name slug')
+      .lean()
+    const postMap = new Map(posts.map((post) => [String(post._id), post]))
+    return (doc.related || [])
+      .filter((item) => postMap.has(String(item.post)))
+      .slice(0, size)
+      .map((item) => ({ ...postMap.get(String(item.post)), score: item.score }))
+  }
+
+  /**
+   * 移入回收站, 评论会在彻底删除时一并删除
+   */
   async deletePost(id: string) {
-    const r = await this.model.findOneAndDelete({ _id: id })
+    const r = await this.model.findOneAndUpdate(
+      { _id: id },
+      { $set: { deletedAt: new Date() } },
+    )
+    if (!r) {
+      throw new CannotFindException()
+    }
     const categoryId = r.categoryId
     await this.categoryService.update(
       {
@@ -199,9 +303,6 @@ export class PostsService extends WriteBaseService<Post> {
         },
       },
     )
-    await this.commentModel.deleteMany({
-      pid: id,
-    })
     // update tag
     // const tags = r.tags
     // if (tags && tags.length > 0) {
@@ -223,4 +324,131 @@ export class PostsService extends WriteBaseService<Post> {
     }
     return await updateLikeCount.call(this, doc, ip)
   }
+
+  private relatedTimer: NodeJS.Timeout
+  private relatedPending = new Set<string>()
+
+  /**
+   * 文章新建或修改后调用, 短时间内多次调用只会计算一次
+   */
+  scheduleRelatedPosts(id: string, delay = 10 * 1000) {
+    this.relatedPending.add(id)
+    clearTimeout(this.relatedTimer)
+    this.relatedTimer = setTimeout(() => {
+      const ids = [...this.relatedPending]
+      this.relatedPending.clear()
+      this.updateRelatedPosts(ids).catch((err) => {
+        Logger.error(
+          `--> 计算相关文章失败: ${err}`,
+          undefined,
+          PostsService.name,
+        )
+      })
+    }, delay)
+  }
+
+  /**
+   * 每天全量计算一次
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_5AM, { name: 'related_posts' })
+  async computeRelatedPosts() {
+    await this.updateRelatedPosts()
+  }
+
+  /**
+   * 按相同标签, 相同分类和正文的 TF-IDF 相似度给其他文章打分, 结果存到文章上
+   *
+   * 传入 ids 时只重算这些文章, 再把它们的新分数合并进其他文章的列表,
+   * 其他文章之间的分数和 IDF 的变化留给每天的全量计算
+   */
+  private async updateRelatedPosts(ids?: string[]) {
+    const posts: Pick<
+      DocumentType<Post>,
+      '_id' | 'tags' | 'categoryId' | 'related'
+    >[] = []
+    const termFreqs: Map<string, number>[] = []
+    // 逐篇读取, 只留下词频, 不把所有正文同时放在内存里
+    const cursor = this.model
+      .find()
+      .select('title text tags categoryId related')
+      .lean()
+      .cursor()
+    for await (const { title, text, ...post } of cursor) {
+      // 标题的权重高一些
+      termFreqs.push(termFrequency(`${title}\n${title}\n${text}`))
+      posts.push(post)
+    }
+    const vectors = tfIdfVectors(termFreqs)
+    const score = (i: number, j: number) => {
+      const a = posts[i]
+      const b = posts[j]
+      const tags = union(a.tags, b.tags)
+      const tagScore = tags.length
+        ? intersection(a.tags, b.tags).length / tags.length
+        : 0
+      const categoryScore =
+        String(a.categoryId) === String(b.categoryId) ? 1 : 0
+      const textScore = cosineSimilarity(vectors[i], vectors[j])
+      const total = 0.4 * tagScore + 0.2 * categoryScore + 0.4 * textScore
+      return Math.round(total * 1e4) / 1e4
+    }
+    const rank = (related: RelatedPost[]) =>
+      related
+        .filter((item) => item.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, 20)
+
+    const changed = ids
+      ? posts
+          .map((post, i) => (ids.includes(String(post._id)) ? i : -1))
+          .filter((i) => i !== -1)
+      : posts.map((_, i) => i)
+    const updates = new Map<number, RelatedPost[]>()
+    for (const i of changed) {
+      updates.set(
+        i,
+        rank(
+          posts
+            .map((other, j) => ({ post: other._id, score: score(i, j) }))
+            .filter((_, j) => j !== i),
+        ),
+      )
+    }
+    if (ids) {
+      // 分数是对称的, 其他文章只需替换掉变动文章那一项再重新排序
+      const changedIds = changed.map((i) => String(posts[i]._id))
+      for (const [j, post] of posts.entries()) {
+        if (updates.has(j)) {
+          continue
+        }
+        const before = post.related || []
+        const kept = before.filter(
+          (item) => !changedIds.includes(String(item.post)),
+        )
+        const related = rank([
+          ...kept,
+          ...changed.map((i) => ({ post: posts[i]._id, score: score(i, j) })),
+        ])
+        const serialize = (list: RelatedPost[]) =>
+          list.map((item) => `${item.post}:${item.score}`).join()
+        if (serialize(related) !== serialize(before)) {
+          updates.set(j, related)
+        }
+      }
+    }
+    if (updates.size) {
+      await this.model.bulkWrite(
+        [...updates].map(([i, related]) => ({
+          updateOne: {
+            filter: { _id: posts[i]._id },
+            update: { $set: { related } },
+          },
+        })),
+      )
+    }
+    Logger.log(
+      `--> 相关文章计算完成: 更新 ${updates.size} 篇`,
+      PostsService.name,
+    )
+  }
 }
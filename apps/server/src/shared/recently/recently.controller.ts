@@ -1,3 +1,4 @@
+import { SearchRefTypes } from '@libs/db/models/search-index.model'
 import {
   Body,
   Controller,
@@ -16,6 +17,7 @@ import { EventTypes } from '../../gateway/events.types'
 import { WebEventsGateway } from '../../gateway/web/events.gateway'
 import { MongoIdDto } from '../base/dto/id.dto'
 import { OffsetDto } from '../base/dto/pager.dto'
+import { SearchService } from '../search/search.service'
 import { RecentlyDto } from './recently.dto'
 import { RecentlyService } from './recently.service'
 
@@ -25,6 +27,7 @@ export class RecentlyController {
   constructor(
     private readonly service: RecentlyService,
     private readonly gateway: WebEventsGateway,
+    private readonly searchService: SearchService,
   ) {}
 
   @Get('latest')
@@ -50,6 +53,7 @@ export class RecentlyController {
     const res = await this.service.create(body)
     process.nextTick(() => {
       this.gateway.broadcast(EventTypes.RECENTLY_CREATE, res)
+      this.searchService.syncDocument(SearchRefTypes.Recently, res._id)
     })
     return res
   }
@@ -64,6 +68,7 @@ export class RecentlyController {
     }
     process.nextTick(() => {
       this.gateway.broadcast(EventTypes.RECENTLY_DElETE, { id })
+      this.searchService.syncDocument(SearchRefTypes.Recently, id)
     })
     return
   }
@@ -57,11 +57,11 @@ export class RecentlyService extends BaseService<Recently> {
   // @ts-ignore
   async delete(id: string) {
     try {
-      const { deletedCount } = await this.model.deleteOne({
-        _id: id,
-      })
+      const { nModified } = await this.model.updateOne({ _id: id }, {
+        $set: { deletedAt: new Date() },
+      } as any)
 
-      return deletedCount > 0
+      return nModified > 0
     } catch {
       return false
     }
@@ -0,0 +1,109 @@
+import { RevisionRefTypes } from '@libs/db/models/revision.model'
+import {
+  CACHE_MANAGER,
+  Controller,
+  Get,
+  Inject,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common'
+import { ApiOperation, ApiTags } from '@nestjs/swagger'
+import { Cache } from 'cache-manager'
+import { Auth } from 'core/decorators/auth.decorator'
+import { CannotFindException } from 'shared/core/exceptions/cant-find.exception'
+import { refreshKeyedCache } from 'utils/text-base'
+import { EventTypes } from '../../gateway/events.types'
+import { WebEventsGateway } from '../../gateway/web/events.gateway'
+import { MongoIdDto } from '../base/dto/id.dto'
+import { NotesService } from '../notes/notes.service'
+import { PageService } from '../page/page.service'
+import { PostsService } from '../posts/posts.service'
+import { RevisionDiffQueryDto } from './revisions.dto'
+import { RevisionsService } from './revisions.service'
+
+@Controller('revisions')
+@ApiTags('Revision Routes')
+@Auth()
+export class RevisionsController {
+  constructor(
+    private readonly service: RevisionsService,
+    private readonly postService: PostsService,
+    private readonly noteService: NotesService,
+    private readonly pageService: PageService,
+    private readonly webgateway: WebEventsGateway,
+    @Inject(CACHE_MANAGER) private readonly cacheManager: Cache,
+  ) {}
+
+  @Get('diff')
+  @ApiOperation({ summary: '对比两个历史版本' })
+  async diff(@Query() query: RevisionDiffQueryDto) {
+    const { from, to } = query
+    return await this.service.diff(from, to)
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: '获取一个历史版本的完整内容' })
+  async getRevision(@Param() params: MongoIdDto) {
+    const doc = await this.service.findById(params.id).lean()
+    if (!doc) {
+      throw new CannotFindException()
+    }
+    return doc
+  }
+
+  @Post(':id/restore')
+  @ApiOperation({ summary: '恢复到指定的历史版本' })
+  async restore(@Param() params: MongoIdDto) {
+    const revision = await this.service.findByIdAsync(params.id)
+    const { refType, title, text } = revision
+    const id = String(revision.ref)
+
+    switch (refType) {
+      case RevisionRefTypes.Post: {
+        const post = await this.postService.findPostById(id)
+        await this.postService.update(
+          { _id: id },
+          { title, text, categoryId: post.categoryId },
+        )
+        break
+      }
+      case RevisionRefTypes.Note: {
+        await this.noteService.update({ _id: id }, { title, text })
+        break
+      }
+      case RevisionRefTypes.Page: {
+        await this.pageService.update({ _id: id }, { title, text })
+        break
+      }
+    }
+
+    const current = await this.service.record(refType, id)
+
+    process.nextTick(async () => {
+      switch (refType) {
+        case RevisionRefTypes.Post: {
+          await this.postService.RecordImageDimensions(id)
+          const doc = await this.postService.findById(id).lean()
+          this.webgateway.broadcast(EventTypes.POST_UPDATE, doc)
+          break
+        }
+        case RevisionRefTypes.Note: {
+          await this.noteService.RecordImageDimensions(id)
+          const doc = await this.noteService.findById(id).lean()
+          this.webgateway.broadcast(EventTypes.NOTE_UPDATE, doc)
+          break
+        }
+        case RevisionRefTypes.Page: {
+          await this.pageService.RecordImageDimensions(id)
+          const doc = await this.pageService.findById(id).lean()
+          this.webgateway.broadcast(EventTypes.PAGE_UPDATED, doc)
+          break
+        }
+      }
+      refreshKeyedCache(this.cacheManager)
+    })
+
+    return current
+  }
+}
@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger'
+import { IsMongoId } from 'class-validator'
+
+export class RevisionDiffQueryDto {
+  @IsMongoId()
+  @ApiProperty({ description: '旧版本 id' })
+  from: string
+
+  @IsMongoId()
+  @ApiProperty({ description: '新版本 id' })
+  to: string
+}
@@ -0,0 +1,148 @@
+import Note from '@libs/db/models/note.model'
+import Page from '@libs/db/models/page.model'
+import Post from '@libs/db/models/post.model'
+import { Revision, RevisionRefTypes } from '@libs/db/models/revision.model'
+import {
+  Injectable,
+  Logger,
+  UnprocessableEntityException,
+} from '@nestjs/common'
+import { ReturnModelType } from '@typegoose/typegoose'
+import { diffLines } from 'diff'
+import { pick } from 'lodash'
+import { Types } from 'mongoose'
+import { InjectModel } from 'nestjs-typegoose'
+import { CannotFindException } from 'shared/core/exceptions/cant-find.exception'
+import { BaseService } from '../base/base.service'
+
+export type RevisionChangeType = 'add' | 'remove' | 'equal'
+
+@Injectable()
+export class RevisionsService extends BaseService<Revision> {
+  private readonly logger = new Logger(RevisionsService.name)
+  constructor(
+    @InjectModel(Revision)
+    private readonly model: ReturnModelType<typeof Revision>,
+    @InjectModel(Post)
+    private readonly postModel: ReturnModelType<typeof Post>,
+    @InjectModel(Note)
+    private readonly noteModel: ReturnModelType<typeof Note>,
+    @InjectModel(Page)
+    private readonly pageModel: ReturnModelType<typeof Page>,
+  ) {
+    super(model)
+  }
+
+  getModelByRefType(type: RevisionRefTypes) {
+    const map = new Map(
+      Object.entries({
+        Post: this.postModel,
+        Note: this.noteModel,
+        Page: this.pageModel,
+      }),
+    )
+    return map.get(type) as any as ReturnModelType<
+      typeof Note | typeof Post | typeof Page
+    >
+  }
+
+  /**
+   * 为文档当前的内容记录一个快照, 内容与最新的快照相同时不会重复记录
+   * 修改前调用一次, 可以把还没有历史版本的旧文档的原始内容也保存下来
+   *
+   * 记录失败不影响文档的保存, 只打印日志
+   */
+  async record(type: RevisionRefTypes, id: string | Types.ObjectId) {
+    try {
+      return await this.createRevision(type, id)
+    } catch (err) {
+      this.logger.error(`--> 记录历史版本失败: ${type} ${id} ${err}`)
+      return null
+    }
+  }
+
+  private async createRevision(
+    type: RevisionRefTypes,
+    id: string | Types.ObjectId,
+    retries = 3,
+  ) {
+    const doc = await this.getModelByRefType(type)
+      .findById(id)
+      .select('title text')
+      .lean()
+    if (!doc) {
+      return null
+    }
+    const latest = await this.model
+      .findOne({ ref: doc._id })
+      .sort({ version: -1 })
+      .lean()
+
+    if (latest && latest.title === doc.title && latest.text === doc.text) {
+      return latest
+    }
+
+    try {
+      return await this.model.create({
+        ref: doc._id,
+        refType: type,
+        version: (latest?.version ?? 0) + 1,
+        title: doc.title,
+        text: doc.text,
+      } as Revision)
+    } catch (err) {
+      // 同时保存时版本号冲突, 重新读取最新的版本
+      if (err?.code === 11000 && retries > 0) {
+        return await this.createRevision(type, id, retries - 1)
+      }
+      throw err
+    }
+  }
+
+  async getRevisions(id: string, page = 1, size = 10) {
+    return await this.findWithPaginator(
+      { ref: id },
+      {
+        limit: size,
+        skip: (page - 1) * size,
+        select: '-text',
+        sort: { version: -1 },
+      },
+    )
+  }
+
+  /**
+   * 按行对比两个历史版本
+   */
+  async diff(fromId: string, toId: string) {
+    const [from, to] = await Promise.all([
+      this.model.findById(fromId).lean(),
+      this.model.findById(toId).lean(),
+    ])
+    if (!from || !to) {
+      throw new CannotFindException()
+    }
+    if (String(from.ref) !== String(to.ref)) {
+      throw new UnprocessableEntityException('只能对比同一篇文章的历史版本哦')
+    }
+
+    const changes = diffLines(from.text ?? '', to.text ?? '').map(
+      ({ added, removed, value, count }) => ({
+        type: (added
+          ? 'add'
+          : removed
+          ? 'remove'
+          : 'equal') as RevisionChangeType,
+        value,
+        count,
+      }),
+    )
+    const fields = ['_id', 'version', 'title', 'created']
+    return {
+      from: pick(from, fields),
+      to: pick(to, fields),
+      titleChanged: from.title !== to.title,
+      changes,
+    }
+  }
+}
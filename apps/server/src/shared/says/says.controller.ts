@@ -8,7 +8,8 @@
  */
 
 import { Say } from '@libs/db/models/say.model'
-import { Body, Controller, Delete, Get, Param, Post } from '@nestjs/common'
+import { SearchRefTypes } from '@libs/db/models/search-index.model'
+import { Body, Controller, Delete, Get, Param, Post, Put } from '@nestjs/common'
 import { ApiTags } from '@nestjs/swagger'
 import { sample } from 'lodash'
 import { CannotFindException } from 'shared/core/exceptions/cant-find.exception'
@@ -18,6 +19,7 @@ import { Auth } from '../../../../../shared/core/decorators/auth.decorator'
 import { EventTypes } from '../../gateway/events.types'
 import { WebEventsGateway } from '../../gateway/web/events.gateway'
 import { MongoIdDto } from '../base/dto/id.dto'
+import { SearchService } from '../search/search.service'
 
 @Controller('says')
 @ApiTags('Says Routes')
@@ -25,6 +27,7 @@ export class SaysController extends BaseCrud<Say> {
   constructor(
     private readonly service: SaysService,
     private readonly webgateway: WebEventsGateway,
+    private readonly searchService: SearchService,
   ) {
     super(service)
   }
@@ -43,14 +46,24 @@ export class SaysController extends BaseCrud<Say> {
   async post(@Body() body: Partial<Say>) {
     const r = await super.post(body)
     this.webgateway.broadcast(EventTypes.SAY_CREATE, r)
+    this.searchService.syncDocument(SearchRefTypes.Say, r._id)
+    return r
+  }
+
+  @Put(':id')
+  @Auth()
+  async put(@Body() body: Partial<Say>, @Param() params: MongoIdDto) {
+    const r = await super.put(body, params)
+    this.searchService.syncDocument(SearchRefTypes.Say, params.id)
     return r
   }
 
   @Delete(':id')
   @Auth()
   async delete(@Param() params: MongoIdDto) {
-    await super.delete(params)
+    await this.service.softDelete({ _id: params.id })
     this.webgateway.broadcast(EventTypes.SAY_DELETE, params.id)
+    this.searchService.syncDocument(SearchRefTypes.Say, params.id)
     return 'OK'
   }
 }
@@ -0,0 +1,68 @@
+import { CommentRefTypes } from '@libs/db/models/comment.model'
+import Note from '@libs/db/models/note.model'
+import Post from '@libs/db/models/post.model'
+import { SearchRefTypes } from '@libs/db/models/search-index.model'
+import { SubmissionRefTypes } from '@libs/db/models/submission.model'
+import { CACHE_MANAGER, Inject, Injectable, Logger } from '@nestjs/common'
+import { Cron, CronExpression } from '@nestjs/schedule'
+import { ReturnModelType } from '@typegoose/typegoose'
+import { Cache } from 'cache-manager'
+import { InjectModel } from 'nestjs-typegoose'
+import { refreshKeyedCache } from 'utils/text-base'
+import { EventTypes } from '../../gateway/events.types'
+import { WebEventsGateway } from '../../gateway/web/events.gateway'
+import { SearchService } from '../search/search.service'
+import { SubmissionService } from '../submission/submission.service'
+import { WebmentionService } from '../webmention/webmention.service'
+
+@Injectable()
+export class ScheduledPublishService {
+  private readonly logger = new Logger(ScheduledPublishService.name)
+  constructor(
+    @InjectModel(Post) private readonly postModel: ReturnModelType<typeof Post>,
+    @InjectModel(Note) private readonly noteModel: ReturnModelType<typeof Note>,
+    @Inject(CACHE_MANAGER) private readonly cacheManager: Cache,
+    private readonly webgateway: WebEventsGateway,
+    private readonly searchService: SearchService,
+    private readonly submissionService: SubmissionService,
+    private readonly webmentionService: WebmentionService,
+  ) {}
+
+  /**
+   * 公开已到发布时间的文章和记录
+   */
+  @Cron(CronExpression.EVERY_MINUTE, { name: 'publish_scheduled' })
+  async publishScheduled() {
+    const condition = { hide: true, publishAt: { $lte: new Date() } }
+    const posts = await this.postModel.find(condition).lean()
+    const notes = await this.noteModel.find(condition).lean()
+    if (!posts.length && !notes.length) {
+      return
+    }
+
+    const update = { $set: { hide: false }, $unset: { publishAt: 1 as const } }
+    for (const post of posts) {
+      await this.postModel.updateOne({ _id: post._id }, update)
+      const doc = await this.postModel
+        .findById(post._id)
+        .populate('category')
+        .lean()
+      this.webgateway.broadcast(EventTypes.POST_CREATE, doc)
+      await this.searchService.syncDocument(SearchRefTypes.Post, post._id)
+      this.submissionService.submitDocument(SubmissionRefTypes.Post, post._id)
+      this.webmentionService.sendForDocument(CommentRefTypes.Post, post._id)
+      this.logger.log(`--> 定时发布文章: ${post.title}`)
+    }
+    for (const note of notes) {
+      await this.noteModel.updateOne({ _id: note._id }, update)
+      const doc = await this.noteModel.findById(note._id).lean()
+      this.webgateway.broadcast(EventTypes.NOTE_CREATE, doc)
+      await this.searchService.syncDocument(SearchRefTypes.Note, note._id)
+      this.submissionService.submitDocument(SubmissionRefTypes.Note, note._id)
+      this.webmentionService.sendForDocument(CommentRefTypes.Note, note._id)
+      this.logger.log(`--> 定时发布记录: ${note.title}`)
+    }
+
+    refreshKeyedCache(this.cacheManager)
+  }
+}
@@ -0,0 +1,171 @@
+import { SearchRefTypes } from '@libs/db/models/search-index.model'
+import { HttpService, Injectable } from '@nestjs/common'
+import { ConfigsService } from 'shared/global'
+import {
+  buildSearchResult,
+  HIGHLIGHT_POST_TAG,
+  HIGHLIGHT_PRE_TAG,
+  SearchDocument,
+  SearchProvider,
+  SearchQuery,
+  toHighlightHtml,
+} from './search-provider.interface'
+
+/**
+ * Elasticsearch 7 (及 OpenSearch 等兼容服务) 的 REST API
+ *
+ * @see https://www.elastic.co/guide/en/elasticsearch/reference/7.x/rest-apis.html
+ */
+@Injectable()
+export class ElasticSearchProvider implements SearchProvider {
+  constructor(
+    private readonly http: HttpService,
+    private readonly configs: ConfigsService,
+  ) {}
+
+  private readonly prepared = new Set<string>()
+
+  private get options() {
+    const { endpoint, apiKey, indexName } = this.configs.get('searchOptions')
+    return {
+      base: `${(endpoint || '').replace(/\/$/, '')}/${indexName}`,
+      headers: apiKey ? { Authorization: `ApiKey ${apiKey}` } : {},
+    }
+  }
+
+  /**
+   * 创建索引并指定过滤用字段的类型, 索引已存在时会返回 400
+   */
+  private async prepare() {
+    const { base, headers } = this.options
+    if (this.prepared.has(base)) {
+      return
+    }
+    await this.http
+      .put(
+        base,
+        {
+          mappings: {
+            properties: {
+              type: { type: 'keyword' },
+              ref: { type: 'keyword' },
+              hide: { type: 'boolean' },
+              hasPassword: { type: 'boolean' },
+              secret: { type: 'long' },
+              meta: { type: 'object', enabled: false },
+            },
+          },
+        },
+        { headers },
+      )
+      .toPromise()
+      .catch((err) => {
+        if (err.response?.status !== 400) {
+          throw err
+        }
+      })
+    this.prepared.add(base)
+  }
+
+  async upsert(doc: SearchDocument) {
+    await this.prepare()
+    const { base, headers } = this.options
+    await this.http
+      .put(
+        `${base}/_doc/${doc.id}`,
+        { ...doc, secret: doc.secret ? doc.secret.getTime() : 0 },
+        { headers },
+      )
+      .toPromise()
+  }
+
+  async remove(type: SearchRefTypes, id: string) {
+    const { base, headers } = this.options
+    await this.http
+      .delete(`${base}/_doc/${type}_${id}`, { headers })
+      .toPromise()
+      .catch((err) => {
+        if (err.response?.status !== 404) {
+          throw err
+        }
+      })
+  }
+
+  async clear() {
+    await this.prepare()
+    const { base, headers } = this.options
+    await this.http
+      .post(
+        `${base}/_delete_by_query`,
+        { query: { match_all: {} } },
+        { headers },
+      )
+      .toPromise()
+  }
+
+  async search(keyword: string, query: SearchQuery) {
+    const { type, isMaster, page, size } = query
+    const { base, headers } = this.options
+    const filter: any[] = []
+    if (type) {
+      filter.push({ term: { type } })
+    }
+    if (!isMaster) {
+      filter.push(
+        { term: { hide: false } },
+        { term: { hasPassword: false } },
+        { range: { secret: { lte: Date.now() } } },
+      )
+    }
+    const { data } = await this.http
+      .post(
+        `${base}/_search`,
+        {
+          from: (page - 1) * size,
+          size,
+          query: {
+            bool: {
+              must: {
+                multi_match: { query: keyword, fields: ['title^3', 'text'] },
+              },
+              filter,
+            },
+          },
+          highlight: {
+            pre_tags: [HIGHLIGHT_PRE_TAG],
+            post_tags: [HIGHLIGHT_POST_TAG],
+            fields: {
+              title: { number_of_fragments: 0 },
+              text: { fragment_size: 120, number_of_fragments: 1 },
+            },
+          },
+        },
+        { headers },
+      )
+      .toPromise()
+    const hits = (data.hits?.hits || []).map(
+      ({ _source: source, _score: score, highlight = {} }: any) => ({
+        type: source.type,
+        id: source.ref,
+        title: source.title,
+        ...source.meta,
+        created: source.created,
+        modified: source.modified,
+        score,
+        highlight: {
+          title: toHighlightHtml(highlight.title?.[0] ?? source.title),
+          text: toHighlightHtml(
+            highlight.text?.[0] ?? (source.text || '').slice(0, 120),
+          ),
+        },
+      }),
+    )
+    const total = data.hits?.total
+    return buildSearchResult(
+      hits,
+      typeof total === 'number' ? total : total?.value ?? hits.length,
+      page,
+      size,
+    )
+  }
+}
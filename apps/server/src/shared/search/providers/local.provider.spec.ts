@@ -0,0 +1,132 @@
+import { SearchRefTypes } from '@libs/db/models/search-index.model'
+import { LocalSearchProvider } from './local.provider'
+import { SearchDocument } from './search-provider.interface'
+
+/** 只实现用到的查询, 数据存在内存中 */
+const createModel = () => {
+  const docs: any[] = []
+  return {
+    docs,
+    async updateOne({ ref }, { $set }) {
+      const index = docs.findIndex((doc) => doc.ref === ref)
+      docs.splice(index === -1 ? docs.length : index, 1, {
+        ...$set,
+        ref,
+        refType: SearchRefTypes.Post,
+      })
+    },
+    async aggregate() {
+      const total = docs.length
+      const avg = docs.reduce((sum, doc) => sum + doc.length, 0) / total
+      return total ? [{ _id: null, total, avg }] : []
+    },
+    find(condition: { tokens: { $in: string[] } }) {
+      const matched = docs.filter((doc) =>
+        doc.tokens.some((token) => condition.tokens.$in.includes(token)),
+      )
+      return { select: () => ({ lean: async () => matched }) }
+    },
+  }
+}
+
+const createDocument = (
+  ref: string,
+  title: string,
+  text: string,
+): SearchDocument => ({
+  id: `post_${ref}`,
+  type: SearchRefTypes.Post,
+  ref,
+  title,
+  text,
+  meta: {},
+  hide: false,
+  hasPassword: false,
+  secret: null,
+})
+
+describe('LocalSearchProvider', () => {
+  let model: ReturnType<typeof createModel>
+  let provider: LocalSearchProvider
+
+  const search = async (keyword: string) =>
+    (await provider.search(keyword, { isMaster: true, page: 1, size: 10 }))
+      .data
+
+  beforeEach(() => {
+    model = createModel()
+    provider = new LocalSearchProvider(model as any)
+  })
+
+  it('should count title tokens three times', async () => {
+    await provider.upsert(createDocument('1', 'Nest 入门', 'nest nest'))
+
+    const [doc] = model.docs
+    expect(doc.termFreq).toEqual({ nest: 5, 入门: 3 })
+    expect(doc.length).toBe(8)
+    expect(doc.tokens.sort()).toEqual(['nest', '入门'])
+  })
+
+  it('should rank title matches above body matches', async () => {
+    await provider.upsert(createDocument('1', 'Other', 'about fastify here'))
+    await provider.upsert(createDocument('2', 'Fastify', 'about other here'))
+
+    expect((await search('fastify')).map((hit) => hit.id)).toEqual(['2', '1'])
+  })
+
+  it('should prefer documents matching more keywords', async () => {
+    await provider.upsert(createDocument('1', 'A', 'redis redis redis redis'))
+    await provider.upsert(createDocument('2', 'B', 'redis mongodb'))
+
+    expect((await search('redis mongodb')).map((hit) => hit.id)).toEqual([
+      '2',
+      '1',
+    ])
+  })
+
+  it('should weight rare terms higher', async () => {
+    await provider.upsert(createDocument('1', 'A', 'common common'))
+    await provider.upsert(createDocument('2', 'B', 'common rare'))
+    await provider.upsert(createDocument('3', 'C', 'common words'))
+
+    const [first, ...rest] = await search('common rare')
+    expect(first.id).toBe('2')
+    expect(rest.every((hit) => hit.score < first.score)).toBe(true)
+  })
+
+  it('should rank shorter documents higher for the same term frequency', async () => {
+    await provider.upsert(
+      createDocument('1', 'A', 'typescript ' + 'filler '.repeat(50)),
+    )
+    await provider.upsert(createDocument('2', 'B', 'typescript short'))
+
+    expect((await search('typescript')).map((hit) => hit.id)).toEqual([
+      '2',
+      '1',
+    ])
+  })
+
+  it('should highlight matches and escape html', async () => {
+    await provider.upsert(
+      createDocument('1', '<b>Hello</b> 世界', 'say hello to 世界'),
+    )
+
+    const [hit] = await search('hello 世界')
+    expect(hit.highlight.title).toBe(
+      '&lt;b&gt;<mark>Hello</mark>&lt;/b&gt; <mark>世界</mark>',
+    )
+    expect(hit.highlight.text).toBe('say <mark>hello</mark> to <mark>世界</mark>')
+  })
+
+  it('should return nothing without searchable tokens', async () => {
+    await provider.upsert(createDocument('1', 'A', 'anything'))
+
+    const result = await provider.search('a', {
+      isMaster: true,
+      page: 1,
+      size: 10,
+    })
+    expect(result.data).toEqual([])
+    expect(result.page.total).toBe(0)
+  })
+})
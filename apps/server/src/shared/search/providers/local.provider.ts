@@ -0,0 +1,185 @@
+import { SearchIndex, SearchRefTypes } from '@libs/db/models/search-index.model'
+import { Injectable } from '@nestjs/common'
+import { ReturnModelType } from '@typegoose/typegoose'
+import { escape, escapeRegExp, uniq } from 'lodash'
+import { InjectModel } from 'nestjs-typegoose'
+import { tokenize } from 'shared/utils/tokenize'
+import {
+  buildSearchResult,
+  SearchDocument,
+  SearchProvider,
+  SearchQuery,
+} from './search-provider.interface'
+
+// BM25 参数
+const K1 = 1.2
+const B = 0.75
+// 标题中的词按出现 3 次计算
+const TITLE_WEIGHT = 3
+const SNIPPET_LENGTH = 120
+
+/**
+ * 存在 MongoDB 中的倒排索引, 不需要额外的服务
+ */
+@Injectable()
+export class LocalSearchProvider implements SearchProvider {
+  constructor(
+    @InjectModel(SearchIndex)
+    private readonly model: ReturnModelType<typeof SearchIndex>,
+  ) {}
+
+  async upsert(doc: SearchDocument) {
+    const termFreq: Record<string, number> = {}
+    for (const token of tokenize(doc.text)) {
+      termFreq[token] = (termFreq[token] || 0) + 1
+    }
+    for (const token of tokenize(doc.title)) {
+      termFreq[token] = (termFreq[token] || 0) + TITLE_WEIGHT
+    }
+    const tokens = Object.keys(termFreq)
+    await this.model.updateOne(
+      { refType: doc.type, ref: doc.ref },
+      {
+        $set: {
+          title: doc.title,
+          text: doc.text,
+          tokens,
+          termFreq,
+          length: tokens.reduce((sum, token) => sum + termFreq[token], 0),
+          meta: doc.meta,
+          hide: doc.hide,
+          hasPassword: doc.hasPassword,
+          secret: doc.secret,
+          created: doc.created,
+          modified: doc.modified,
+        },
+      },
+      { upsert: true },
+    )
+  }
+
+  async remove(type: SearchRefTypes, id: string) {
+    await this.model.deleteOne({ refType: type, ref: id })
+  }
+
+  async clear() {
+    await this.model.deleteMany({})
+  }
+
+  async isEmpty() {
+    return !(await this.model.estimatedDocumentCount())
+  }
+
+  async search(keyword: string, query: SearchQuery) {
+    const { type, isMaster, page, size } = query
+    const tokens = uniq(tokenize(keyword))
+    const condition = {
+      ...(type ? { refType: type } : {}),
+      ...(isMaster
+        ? {}
+        : {
+            hide: false,
+            hasPassword: false,
+            $or: [{ secret: null }, { secret: { $lte: new Date() } }],
+          }),
+    }
+    const [stat] = tokens.length
+      ? await this.model.aggregate([
+          { $match: condition },
+          {
+            $group: { _id: null, total: { $sum: 1 }, avg: { $avg: '$length' } },
+          },
+        ])
+      : []
+    const candidates = stat
+      ? await this.model
+          .find({ ...condition, tokens: { $in: tokens } })
+          .select('-tokens')
+          .lean()
+      : []
+
+    const docFreq = new Map<string, number>()
+    for (const doc of candidates) {
+      for (const token of tokens) {
+        if (doc.termFreq[token]) {
+          docFreq.set(token, (docFreq.get(token) || 0) + 1)
+        }
+      }
+    }
+    const scored = candidates
+      .map((doc) => {
+        let score = 0
+        let matched = 0
+        for (const token of tokens) {
+          const tf = doc.termFreq[token]
+          if (!tf) {
+            continue
+          }
+          matched++
+          const df = docFreq.get(token)
+          const idf = Math.log(1 + (stat.total - df + 0.5) / (df + 0.5))
+          score +=
+            (idf * tf * (K1 + 1)) /
+            (tf + K1 * (1 - B + (B * doc.length) / (stat.avg || 1)))
+        }
+        // 命中的词越全越靠前
+        return { doc, score: score * (matched / tokens.length) }
+      })
+      .sort((a, b) => b.score - a.score)
+
+    const pattern = this.buildHighlightPattern(keyword, tokens)
+    const data = scored
+      .slice((page - 1) * size, page * size)
+      .map(({ doc, score }) => ({
+        type: doc.refType,
+        id: String(doc.ref),
+        title: doc.title,
+        ...doc.meta,
+        created: doc.created,
+        modified: doc.modified,
+        score: Math.round(score * 1e4) / 1e4,
+        highlight: {
+          title: this.highlight(doc.title || '', pattern),
+          text: this.snippet(doc.text, pattern),
+        },
+      }))
+    return buildSearchResult(data, scored.length, page, size)
+  }
+
+  /**
+   * 优先匹配完整的关键词, 再匹配分出来的词
+   */
+  private buildHighlightPattern(keyword: string, tokens: string[]) {
+    const terms = uniq([...keyword.split(/\s+/), ...tokens])
+      .filter(Boolean)
+      .sort((a, b) => b.length - a.length)
+      .map((term) => escapeRegExp(term))
+    return terms.length ? new RegExp(terms.join('|'), 'ig') : null
+  }
+
+  private highlight(text: string, pattern: RegExp | null) {
+    if (!pattern) {
+      return escape(text)
+    }
+    let result = ''
+    let last = 0
+    text.replace(pattern, (match: string, offset: number) => {
+      result +=
+        escape(text.slice(last, offset)) + `<mark>${escape(match)}</mark>`
+      last = offset + match.length
+      return match
+    })
+    return (result + escape(text.slice(last))).replace(/<\/mark><mark>/g, '')
+  }
+
+  private snippet(text: string, pattern: RegExp | null) {
+    const index = pattern ? text.search(pattern) : -1
+    const start = Math.max(0, index - 20)
+    const end = start + SNIPPET_LENGTH
+    return (
+      (start > 0 ? '…' : '') +
+      this.highlight(text.slice(start, end), pattern) +
+      (end < text.length ? '…' : '')
+    )
+  }
+}
@@ -0,0 +1,156 @@
+import { SearchRefTypes } from '@libs/db/models/search-index.model'
+import { HttpService, Injectable } from '@nestjs/common'
+import { ConfigsService } from 'shared/global'
+import {
+  buildSearchResult,
+  HIGHLIGHT_POST_TAG,
+  HIGHLIGHT_PRE_TAG,
+  SearchDocument,
+  SearchProvider,
+  SearchQuery,
+  toHighlightHtml,
+} from './search-provider.interface'
+
+/**
+ * Meilisearch 的 HTTP API
+ *
+ * @see https://docs.meilisearch.com/reference/api
+ */
+@Injectable()
+export class MeiliSearchProvider implements SearchProvider {
+  constructor(
+    private readonly http: HttpService,
+    private readonly configs: ConfigsService,
+  ) {}
+
+  // 设置过的索引, 每个进程只需要设置一次
+  private readonly prepared = new Set<string>()
+
+  private get options() {
+    const { endpoint, apiKey, indexName } = this.configs.get('searchOptions')
+    const root = (endpoint || '').replace(/\/$/, '')
+    return {
+      root,
+      base: `${root}/indexes/${indexName}`,
+      headers: apiKey
+        ? { Authorization: `Bearer ${apiKey}`, 'X-Meili-API-Key': apiKey }
+        : {},
+    }
+  }
+
+  private async prepare() {
+    const { base, headers } = this.options
+    if (this.prepared.has(base)) {
+      return
+    }
+    const { data } = await this.http
+      .patch(
+        `${base}/settings`,
+        {
+          searchableAttributes: ['title', 'text'],
+          filterableAttributes: ['type', 'hide', 'hasPassword', 'secret'],
+        },
+        { headers },
+      )
+      .toPromise()
+    // 设置是异步生效的, 没有完成前按 filter 搜索会报错
+    await this.waitForTask(data.taskUid ?? data.uid)
+    this.prepared.add(base)
+  }
+
+  private async waitForTask(uid: number, timeout = 10 * 1000) {
+    if (uid === undefined) {
+      return
+    }
+    const { root, headers } = this.options
+    const deadline = Date.now() + timeout
+    while (Date.now() < deadline) {
+      const { data } = await this.http
+        .get(`${root}/tasks/${uid}`, { headers })
+        .toPromise()
+      if (data.status === 'succeeded') {
+        return
+      }
+      if (data.status === 'failed') {
+        throw new Error(`Meilisearch 任务失败: ${data.error?.message}`)
+      }
+      await new Promise((resolve) => setTimeout(resolve, 100))
+    }
+    throw new Error(`等待 Meilisearch 任务 ${uid} 超时`)
+  }
+
+  async upsert(doc: SearchDocument) {
+    await this.prepare()
+    const { base, headers } = this.options
+    await this.http
+      .post(
+        `${base}/documents?primaryKey=id`,
+        [{ ...doc, secret: doc.secret ? doc.secret.getTime() : 0 }],
+        { headers },
+      )
+      .toPromise()
+  }
+
+  async remove(type: SearchRefTypes, id: string) {
+    const { base, headers } = this.options
+    await this.http
+      .delete(`${base}/documents/${type}_${id}`, { headers })
+      .toPromise()
+      .catch((err) => {
+        if (err.response?.status !== 404) {
+          throw err
+        }
+      })
+  }
+
+  async clear() {
+    await this.prepare()
+    const { base, headers } = this.options
+    await this.http.delete(`${base}/documents`, { headers }).toPromise()
+  }
+
+  async search(keyword: string, query: SearchQuery) {
+    await this.prepare()
+    const { type, isMaster, page, size } = query
+    const { base, headers } = this.options
+    const filter = [
+      type ? `type = "${type}"` : '',
+      isMaster
+        ? ''
+        : `hide = false AND hasPassword = false AND secret <= ${Date.now()}`,
+    ]
+      .filter(Boolean)
+      .join(' AND ')
+    const { data } = await this.http
+      .post(
+        `${base}/search`,
+        {
+          q: keyword,
+          offset: (page - 1) * size,
+          limit: size,
+          filter: filter || undefined,
+          attributesToHighlight: ['title', 'text'],
+          attributesToCrop: ['text'],
+          cropLength: 60,
+          highlightPreTag: HIGHLIGHT_PRE_TAG,
+          highlightPostTag: HIGHLIGHT_POST_TAG,
+        },
+        { headers },
+      )
+      .toPromise()
+    const hits = (data.hits || []).map((hit) => ({
+      type: hit.type,
+      id: hit.ref,
+      title: hit.title,
+      ...hit.meta,
+      created: hit.created,
+      modified: hit.modified,
+      highlight: {
+        title: toHighlightHtml(hit._formatted?.title ?? hit.title),
+        text: toHighlightHtml(hit._formatted?.text ?? hit.text),
+      },
+    }))
+    const total = data.estimatedTotalHits ?? data.nbHits ?? hits.length
+    return buildSearchResult(hits, total, page, size)
+  }
+}
@@ -0,0 +1,93 @@
+import { SearchRefTypes } from '@libs/db/models/search-index.model'
+import { escape } from 'lodash'
+
+/**
+ * 交给搜索引擎的文档, 各类型的内容统一成这个结构
+ */
+export interface SearchDocument {
+  /** `${type}_${ref}` */
+  id: string
+  type: SearchRefTypes
+  ref: string
+  title: string
+  /** 去掉 Markdown 语法后的正文 */
+  text: string
+  meta: Record<string, any>
+  hide: boolean
+  hasPassword: boolean
+  secret: Date | null
+  created?: Date
+  modified?: Date
+}
+
+export interface SearchQuery {
+  type?: SearchRefTypes
+  isMaster: boolean
+  page: number
+  size: number
+}
+
+export interface SearchHit {
+  type: SearchRefTypes
+  id: string
+  title: string
+  created?: Date
+  modified?: Date
+  score?: number
+  highlight: {
+    title: string
+    text: string
+  }
+  [key: string]: any
+}
+
+export interface SearchResult {
+  data: SearchHit[]
+  page: {
+    total: number
+    size: number
+    currentPage: number
+    totalPage: number
+    hasPrevPage: boolean
+    hasNextPage: boolean
+  }
+}
+
+export interface SearchProvider {
+  upsert(doc: SearchDocument): Promise<void>
+  remove(type: SearchRefTypes, id: string): Promise<void>
+  clear(): Promise<void>
+  search(keyword: string, query: SearchQuery): Promise<SearchResult>
+}
+
+// 外部引擎高亮时使用的标记, 先转义再换成 <mark>, 避免正文里的 HTML 被原样输出
+export const HIGHLIGHT_PRE_TAG = '\u0001'
+export const HIGHLIGHT_POST_TAG = '\u0002'
+
+export function toHighlightHtml(text = '') {
+  return escape(text)
+    .split(HIGHLIGHT_PRE_TAG)
+    .join('<mark>')
+    .split(HIGHLIGHT_POST_TAG)
+    .join('</mark>')
+}
+
+export function buildSearchResult(
+  data: SearchHit[],
+  total: number,
+  page: number,
+  size: number,
+): SearchResult {
+  const totalPage = Math.ceil(total / size) || 1
+  return {
+    data,
+    page: {
+      total,
+      size: data.length,
+      currentPage: page,
+      totalPage,
+      hasPrevPage: page !== 1,
+      hasNextPage: totalPage > page,
+    },
+  }
+}
@@ -0,0 +1,28 @@
+import { Controller, Get, Post, Query, UseGuards } from '@nestjs/common'
+import { ApiOperation, ApiTags } from '@nestjs/swagger'
+import { RolesGuard } from 'apps/server/src/auth/roles.guard'
+import { Auth } from 'shared/core/decorators/auth.decorator'
+import { Master } from 'shared/core/decorators/guest.decorator'
+import { SearchQueryDto } from './search.dto'
+import { SearchService } from './search.service'
+
+@Controller('search')
+@ApiTags('Search Routes')
+@UseGuards(RolesGuard)
+export class SearchController {
+  constructor(private readonly service: SearchService) {}
+
+  @Get()
+  @ApiOperation({ summary: '搜索文章, 记录, 页面, 说说和动态' })
+  async search(@Query() query: SearchQueryDto, @Master() isMaster: boolean) {
+    const { q, type, page, size } = query
+    return await this.service.search(q, { type, isMaster, page, size })
+  }
+
+  @Post('rebuild')
+  @Auth()
+  @ApiOperation({ summary: '重建搜索索引' })
+  async rebuild() {
+    return await this.service.rebuild()
+  }
+}
@@ -0,0 +1,18 @@
+import { SearchRefTypes } from '@libs/db/models/search-index.model'
+import { ApiProperty } from '@nestjs/swagger'
+import { Transform } from 'class-transformer'
+import { IsEnum, IsNotEmpty, IsOptional, IsString } from 'class-validator'
+import { PagerDto } from '../base/dto/pager.dto'
+
+export class SearchQueryDto extends PagerDto {
+  @IsString()
+  @IsNotEmpty()
+  @ApiProperty({ description: '关键词' })
+  q: string
+
+  @IsOptional()
+  @IsEnum(SearchRefTypes)
+  @ApiProperty({ enum: SearchRefTypes, required: false })
+  @Transform(({ value: v }) => v || undefined)
+  type?: SearchRefTypes
+}
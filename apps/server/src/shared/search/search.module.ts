@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common'
+import { ElasticSearchProvider } from './providers/elasticsearch.provider'
+import { LocalSearchProvider } from './providers/local.provider'
+import { MeiliSearchProvider } from './providers/meilisearch.provider'
+import { SearchController } from './search.controller'
+import { SearchService } from './search.service'
+
+@Module({
+  providers: [
+    SearchService,
+    LocalSearchProvider,
+    MeiliSearchProvider,
+    ElasticSearchProvider,
+  ],
+  controllers: [SearchController],
+  exports: [SearchService],
+})
+export class SearchModule {}
@@ -0,0 +1,170 @@
+import Category from '@libs/db/models/category.model'
+import Note from '@libs/db/models/note.model'
+import Page from '@libs/db/models/page.model'
+import Post from '@libs/db/models/post.model'
+import { Recently } from '@libs/db/models/recently.model'
+import { Say } from '@libs/db/models/say.model'
+import { SearchRefTypes } from '@libs/db/models/search-index.model'
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common'
+import { ReturnModelType } from '@typegoose/typegoose'
+import { InjectModel } from 'nestjs-typegoose'
+import { ConfigsService } from 'shared/global'
+import { stripMarkdown } from 'shared/utils/tokenize'
+import { ElasticSearchProvider } from './providers/elasticsearch.provider'
+import { LocalSearchProvider } from './providers/local.provider'
+import { MeiliSearchProvider } from './providers/meilisearch.provider'
+import {
+  SearchDocument,
+  SearchProvider,
+  SearchQuery,
+} from './providers/search-provider.interface'
+
+@Injectable()
+export class SearchService implements OnModuleInit {
+  private readonly logger = new Logger(SearchService.name)
+  constructor(
+    @InjectModel(Post) private readonly postModel: ReturnModelType<typeof Post>,
+    @InjectModel(Note) private readonly noteModel: ReturnModelType<typeof Note>,
+    @InjectModel(Page) private readonly pageModel: ReturnModelType<typeof Page>,
+    @InjectModel(Say) private readonly sayModel: ReturnModelType<typeof Say>,
+    @InjectModel(Recently)
+    private readonly recentlyModel: ReturnModelType<typeof Recently>,
+    private readonly configs: ConfigsService,
+    private readonly localProvider: LocalSearchProvider,
+    private readonly meiliProvider: MeiliSearchProvider,
+    private readonly elasticProvider: ElasticSearchProvider,
+  ) {}
+
+  async onModuleInit() {
+    // 第一次启动时为已有的内容建立本地索引, 外部引擎需要手动重建
+    if (await this.localProvider.isEmpty()) {
+      this.rebuild(this.localProvider).catch((err) => {
+        this.logger.error(`--> 建立搜索索引失败: ${err}`)
+      })
+    }
+  }
+
+  get provider(): SearchProvider {
+    switch (this.configs.get('searchOptions').provider) {
+      case 'meilisearch':
+        return this.meiliProvider
+      case 'elasticsearch':
+        return this.elasticProvider
+      default:
+        return this.localProvider
+    }
+  }
+
+  getModelByType(type: SearchRefTypes): ReturnModelType<any> {
+    switch (type) {
+      case SearchRefTypes.Post:
+        return this.postModel
+      case SearchRefTypes.Note:
+        return this.noteModel
+      case SearchRefTypes.Page:
+        return this.pageModel
+      case SearchRefTypes.Say:
+        return this.sayModel
+      case SearchRefTypes.Recently:
+        return this.recentlyModel
+    }
+  }
+
+  /**
+   * 文档新建, 修改或删除后调用, 文档不存在 (已删除) 时从索引中移除
+   */
+  async syncDocument(type: SearchRefTypes, id: any) {
+    try {
+      await this.indexDocument(type, String(id))
+    } catch (err) {
+      this.logger.error(`--> 更新搜索索引失败: ${type} ${id} ${err}`)
+    }
+  }
+
+  async rebuild(provider = this.provider) {
+    await provider.clear()
+    let count = 0
+    for (const type of Object.values(SearchRefTypes)) {
+      const docs = await this.getModelByType(type).find().select('_id').lean()
+      for (const doc of docs) {
+        await this.indexDocument(type, String(doc._id), provider)
+        count++
+      }
+    }
+    this.logger.log(`--> 搜索索引建立完成: ${count} 条`)
+    return { count }
+  }
+
+  async search(keyword: string, query: SearchQuery) {
+    return await this.provider.search(keyword, query)
+  }
+
+  private async indexDocument(
+    type: SearchRefTypes,
+    id: string,
+    provider = this.provider,
+  ) {
+    const query = this.getModelByType(type).findById(id)
+    if (type === SearchRefTypes.Post) {
+      query.populate('category')
+    }
+    if (type === SearchRefTypes.Note) {
+      query.select('+password')
+    }
+    const doc = await query.lean()
+    if (!doc) {
+      await provider.remove(type, id)
+      return
+    }
+    await provider.upsert(this.buildDocument(type, doc))
+  }
+
+  private buildDocument(type: SearchRefTypes, doc: any): SearchDocument {
+    const { title = '', text = '', meta = {} } = this.extract(type, doc)
+    return {
+      id: `${type}_${doc._id}`,
+      type,
+      ref: String(doc._id),
+      title,
+      text: stripMarkdown(text).replace(/\s+/g, ' ').trim(),
+      meta,
+      hide: !!doc.hide,
+      hasPassword: !!doc.password,
+      secret: doc.secret ?? null,
+      created: doc.created,
+      modified: doc.modified,
+    }
+  }
+
+  private extract(
+    type: SearchRefTypes,
+    doc: any,
+  ): { title?: string; text: string; meta?: Record<string, any> } {
+    switch (type) {
+      case SearchRefTypes.Post:
+        return {
+          title: doc.title,
+          text: doc.text,
+          meta: {
+            slug: doc.slug,
+            category: (doc.category as Category)?.slug,
+            tags: doc.tags,
+          },
+        }
+      case SearchRefTypes.Note:
+        return { title: doc.title, text: doc.text, meta: { nid: doc.nid } }
+      case SearchRefTypes.Page:
+        return { title: doc.title, text: doc.text, meta: { slug: doc.slug } }
+      case SearchRefTypes.Say:
+        return {
+          text: [doc.text, doc.author, doc.source].filter(Boolean).join('\n'),
+          meta: { author: doc.author, source: doc.source },
+        }
+      case SearchRefTypes.Recently:
+        return {
+          text: doc.content,
+          meta: { project: doc.project, language: doc.language },
+        }
+    }
+  }
+}
@@ -0,0 +1,46 @@
+import { SeriesItemRefTypes } from '@libs/db/models/series.model'
+import { ApiProperty } from '@nestjs/swagger'
+import { Type } from 'class-transformer'
+import {
+  IsArray,
+  IsEnum,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator'
+
+export class SeriesItemDto {
+  @IsEnum(SeriesItemRefTypes)
+  @ApiProperty({ enum: SeriesItemRefTypes })
+  refType: SeriesItemRefTypes
+
+  @IsMongoId()
+  @ApiProperty()
+  ref: string
+}
+
+export class SeriesDto {
+  @IsString()
+  @IsNotEmpty()
+  @ApiProperty()
+  title: string
+
+  @IsString()
+  @IsNotEmpty()
+  @ApiProperty()
+  slug: string
+
+  @IsOptional()
+  @IsString()
+  @ApiProperty({ required: false })
+  description?: string
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => SeriesItemDto)
+  @ApiProperty({ type: [SeriesItemDto], description: '按顺序排列的条目' })
+  items?: SeriesItemDto[]
+}
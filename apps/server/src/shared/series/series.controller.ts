@@ -0,0 +1,69 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common'
+import { ApiOperation, ApiTags } from '@nestjs/swagger'
+import { RolesGuard } from 'apps/server/src/auth/roles.guard'
+import { Auth } from 'shared/core/decorators/auth.decorator'
+import { Master } from 'shared/core/decorators/guest.decorator'
+import { MongoIdDto } from '../base/dto/id.dto'
+import { PagerDto } from '../base/dto/pager.dto'
+import { SeriesDto } from './dto/series.dto'
+import { SeriesService } from './series.service'
+
+@Controller('series')
+@ApiTags('Series Routes')
+@UseGuards(RolesGuard)
+export class SeriesController {
+  constructor(private readonly service: SeriesService) {}
+
+  @Get()
+  @ApiOperation({ summary: '获取系列列表' })
+  async getSeriesList(@Query() query: PagerDto) {
+    const { page, size, select } = query
+    return await this.service.findWithPaginator(
+      {},
+      {
+        limit: size,
+        skip: (page - 1) * size,
+        select,
+        sort: { created: -1 },
+      },
+    )
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: '获取系列及其中的条目' })
+  async getSeries(@Param() params: MongoIdDto, @Master() isMaster: boolean) {
+    return await this.service.getSeriesDetail(params.id, isMaster)
+  }
+
+  @Post()
+  @Auth()
+  @ApiOperation({ summary: '新建系列' })
+  async createSeries(@Body() body: SeriesDto) {
+    return await this.service.createSeries(body)
+  }
+
+  @Put(':id')
+  @Auth()
+  @ApiOperation({ summary: '修改系列' })
+  async modifySeries(@Param() params: MongoIdDto, @Body() body: SeriesDto) {
+    return await this.service.updateSeries(params.id, body)
+  }
+
+  @Delete(':id')
+  @Auth()
+  @ApiOperation({ summary: '删除系列, 不会删除其中的文章' })
+  async deleteSeries(@Param() params: MongoIdDto) {
+    await this.service.deleteByIdAsync(params.id)
+    return
+  }
+}
@@ -0,0 +1,95 @@
+import Note from '@libs/db/models/note.model'
+import Post from '@libs/db/models/post.model'
+import { Series, SeriesItemRefTypes } from '@libs/db/models/series.model'
+import { Injectable, UnprocessableEntityException } from '@nestjs/common'
+import { ReturnModelType } from '@typegoose/typegoose'
+import { uniq } from 'lodash'
+import { Types } from 'mongoose'
+import { InjectModel } from 'nestjs-typegoose'
+import { CannotFindException } from 'shared/core/exceptions/cant-find.exception'
+import { getSeriesNavigation, resolveSeriesItems } from 'shared/utils/series'
+import { BaseService } from '../base/base.service'
+import { SeriesDto, SeriesItemDto } from './dto/series.dto'
+
+@Injectable()
+export class SeriesService extends BaseService<Series> {
+  constructor(
+    @InjectModel(Series)
+    private readonly model: ReturnModelType<typeof Series>,
+    @InjectModel(Post)
+    private readonly postModel: ReturnModelType<typeof Post>,
+    @InjectModel(Note)
+    private readonly noteModel: ReturnModelType<typeof Note>,
+  ) {
+    super(model)
+  }
+
+  async createSeries(body: SeriesDto) {
+    await this.validItems(body.items)
+    return await this.model.create(body as any)
+  }
+
+  async updateSeries(id: string, body: SeriesDto) {
+    await this.validItems(body.items, id)
+    const res = await this.model.updateOne({ _id: id }, body as any)
+    if (!res.n) {
+      throw new CannotFindException()
+    }
+    return await this.model.findById(id).lean()
+  }
+
+  async getSeriesDetail(id: string, isMaster: boolean) {
+    const doc = await this.model.findById(id).lean()
+    if (!doc) {
+      throw new CannotFindException()
+    }
+    return {
+      ...doc,
+      items: await resolveSeriesItems.call(this, doc.items, isMaster),
+    }
+  }
+
+  async getNavigation(id: string, isMaster: boolean) {
+    return await getSeriesNavigation.call(this, id, isMaster)
+  }
+
+  /**
+   * 文章或记录被删除后从系列中移除
+   */
+  async removeRef(id: string) {
+    await this.model.updateMany(
+      { 'items.ref': id },
+      { $pull: { items: { ref: Types.ObjectId(id) } } },
+    )
+  }
+
+  /**
+   * 条目必须存在且不重复, 一篇文章只能属于一个系列
+   */
+  private async validItems(items: SeriesItemDto[] = [], excludeId?: string) {
+    const refs = items.map((item) => item.ref)
+    if (uniq(refs).length !== refs.length) {
+      throw new UnprocessableEntityException('系列中有重复的条目')
+    }
+    const idsOf = (type: SeriesItemRefTypes) =>
+      items.filter((item) => item.refType === type).map((item) => item.ref)
+    const postIds = idsOf(SeriesItemRefTypes.Post)
+    const noteIds = idsOf(SeriesItemRefTypes.Note)
+    const [postCount, noteCount] = await Promise.all([
+      this.postModel.countDocuments({ _id: { $in: postIds } }),
+      this.noteModel.countDocuments({ _id: { $in: noteIds } }),
+    ])
+    if (postCount !== postIds.length || noteCount !== noteIds.length) {
+      throw new UnprocessableEntityException('系列中有不存在的条目')
+    }
+    const exist = await this.model.findOne({
+      'items.ref': { $in: refs },
+      ...(excludeId ? { _id: { $ne: excludeId } } : {}),
+    })
+    if (exist) {
+      throw new UnprocessableEntityException(
+        `有条目已经在系列「${exist.title}」中了`,
+      )
+    }
+  }
+}
@@ -10,7 +10,7 @@
 import { TasksModule } from '@libs/common/tasks/tasks.module'
 import { Module } from '@nestjs/common'
 import { CommentsController } from 'apps/server/src/shared/comments/comments.controller'
-import { CommentsService } from 'apps/server/src/shared/comments/comments.service'
+import { CommentsModule } from 'apps/server/src/shared/comments/comments.module'
 import { PageController } from 'apps/server/src/shared/page/page.controller'
 import { PageService } from 'apps/server/src/shared/page/page.service'
 import { PostsController } from 'apps/server/src/shared/posts/posts.controller'
@@ -38,17 +38,43 @@ import { ProjectsService } from './projects/projects.service'
 import { SaysController } from './says/says.controller'
 import { SaysService } from './says/says.service'
 import { UploadsModule } from './uploads/uploads.module'
+import { TrashModule } from './trash/trash.module'
+import { SearchModule } from './search/search.module'
+import { SubmissionModule } from './submission/submission.module'
+import { OgModule } from './og/og.module'
+import { WebmentionModule } from './webmention/webmention.module'
+import { ActivityPubModule } from './activitypub/activitypub.module'
 import { RecentlyController } from './recently/recently.controller'
 import { RecentlyService } from './recently/recently.service'
+import { RevisionsController } from './revisions/revisions.controller'
+import { RevisionsService } from './revisions/revisions.service'
+import { DraftsController } from './drafts/drafts.controller'
+import { DraftsService } from './drafts/drafts.service'
+import { SeriesController } from './series/series.controller'
+import { SeriesService } from './series/series.service'
+import { MarkdownModule } from './markdown/markdown.module'
+import { ScheduledPublishService } from './scheduled-publish/scheduled-publish.service'
 import { CommonModule } from '@libs/common'
 
 @Module({
-  imports: [UploadsModule, TasksModule, GatewayModule, CommonModule],
+  imports: [
+    UploadsModule,
+    TasksModule,
+    GatewayModule,
+    CommonModule,
+    TrashModule,
+    SearchModule,
+    SubmissionModule,
+    OgModule,
+    WebmentionModule,
+    ActivityPubModule,
+    CommentsModule,
+    MarkdownModule,
+  ],
   providers: [
     OptionsService,
     AggregateService,
     CategoriesService,
-    CommentsService,
     NotesService,
     PageService,
     PostsService,
@@ -59,6 +85,10 @@ import { CommonModule } from '@libs/common'
     AnalyzeService,
     BackupsService,
     RecentlyService,
+    RevisionsService,
+    DraftsService,
+    SeriesService,
+    ScheduledPublishService,
   ],
   controllers: [
     OptionsController,
@@ -75,6 +105,9 @@ import { CommonModule } from '@libs/common'
     AnalyzeController,
     BackupsController,
     RecentlyController,
+    RevisionsController,
+    DraftsController,
+    SeriesController,
   ],
 })
 export class SharedModule {}
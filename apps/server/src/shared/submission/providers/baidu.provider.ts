@@ -0,0 +1,42 @@
+import { SubmissionProviders } from '@libs/db/models/submission.model'
+import { HttpService, Injectable } from '@nestjs/common'
+import { ConfigsService } from 'shared/global'
+import {
+  SubmissionProvider,
+  SubmissionResult,
+} from './submission-provider.interface'
+
+/**
+ * 百度搜索资源平台的普通收录接口
+ *
+ * @see https://ziyuan.baidu.com/linksubmit/index
+ */
+@Injectable()
+export class BaiduSubmissionProvider implements SubmissionProvider {
+  readonly name = SubmissionProviders.Baidu
+  readonly batchSize = 2000
+
+  constructor(
+    private readonly http: HttpService,
+    private readonly configs: ConfigsService,
+  ) {}
+
+  get enabled() {
+    const { enable, token } = this.configs.get('baiduSearchOptions')
+    return !!enable && !!token
+  }
+
+  async submit(urls: string[]): Promise<SubmissionResult> {
+    const { token } = this.configs.get('baiduSearchOptions')
+    const siteUrl = this.configs.get('url').webUrl
+    const res = await this.http
+      .post('http://data.zz.baidu.com/urls', urls.join('\n'), {
+        params: { site: siteUrl, token },
+        headers: {
+          'Content-Type': 'text/plain',
+        },
+      })
+      .toPromise()
+    return { status: res.status, data: res.data }
+  }
+}
@@ -0,0 +1,44 @@
+import { SubmissionProviders } from '@libs/db/models/submission.model'
+import { HttpService, Injectable } from '@nestjs/common'
+import { ConfigsService } from 'shared/global'
+import {
+  SubmissionProvider,
+  SubmissionResult,
+} from './submission-provider.interface'
+
+/**
+ * Bing Webmaster Tools 的 URL Submission API
+ *
+ * @see https://docs.microsoft.com/en-us/bingwebmaster/getting-access
+ */
+@Injectable()
+export class BingSubmissionProvider implements SubmissionProvider {
+  readonly name = SubmissionProviders.Bing
+  readonly batchSize = 500
+
+  constructor(
+    private readonly http: HttpService,
+    private readonly configs: ConfigsService,
+  ) {}
+
+  get enabled() {
+    const { enable, apiKey } = this.configs.get('bingSearchOptions')
+    return !!enable && !!apiKey
+  }
+
+  async submit(urls: string[]): Promise<SubmissionResult> {
+    const { apiKey } = this.configs.get('bingSearchOptions')
+    const siteUrl = this.configs.get('url').webUrl
+    const res = await this.http
+      .post(
+        'https://ssl.bing.com/webmaster/api.svc/json/SubmitUrlbatch',
+        { siteUrl, urlList: urls },
+        {
+          params: { apikey: apiKey },
+          headers: { 'Content-Type': 'application/json; charset=utf-8' },
+        },
+      )
+      .toPromise()
+    return { status: res.status, data: res.data }
+  }
+}
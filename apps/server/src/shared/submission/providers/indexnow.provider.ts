@@ -0,0 +1,42 @@
+import { SubmissionProviders } from '@libs/db/models/submission.model'
+import { HttpService, Injectable } from '@nestjs/common'
+import { ConfigsService } from 'shared/global'
+import {
+  SubmissionProvider,
+  SubmissionResult,
+} from './submission-provider.interface'
+
+/**
+ * IndexNow, 提交一次会同步给所有支持的搜索引擎 (Bing, Yandex, Seznam 等)
+ *
+ * @see https://www.indexnow.org/documentation
+ */
+@Injectable()
+export class IndexNowSubmissionProvider implements SubmissionProvider {
+  readonly name = SubmissionProviders.IndexNow
+  readonly batchSize = 10000
+
+  constructor(
+    private readonly http: HttpService,
+    private readonly configs: ConfigsService,
+  ) {}
+
+  get enabled() {
+    const { enable, key } = this.configs.get('indexNowOptions')
+    return !!enable && !!key
+  }
+
+  async submit(urls: string[]): Promise<SubmissionResult> {
+    const { key, keyLocation, endpoint } = this.configs.get('indexNowOptions')
+    const { host } = new URL(this.configs.get('url').webUrl)
+    const res = await this.http
+      .post(
+        endpoint || 'https://api.indexnow.org/indexnow',
+        { host, key, keyLocation, urlList: urls },
+        { headers: { 'Content-Type': 'application/json; charset=utf-8' } },
+      )
+      .toPromise()
+    // 成功时返回 200 或 202, 没有响应体
+    return { status: res.status, data: res.data || null }
+  }
+}
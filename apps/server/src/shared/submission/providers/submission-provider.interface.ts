@@ -0,0 +1,16 @@
+import { SubmissionProviders } from '@libs/db/models/submission.model'
+
+export interface SubmissionResult {
+  status: number
+  data: any
+}
+
+export interface SubmissionProvider {
+  readonly name: SubmissionProviders
+  /** 单次请求最多提交的 URL 数 */
+  readonly batchSize: number
+  /** 已开启且配置完整 */
+  readonly enabled: boolean
+  /** 请求失败时直接抛出, 由调用方记录 */
+  submit(urls: string[]): Promise<SubmissionResult>
+}
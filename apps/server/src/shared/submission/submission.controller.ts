@@ -0,0 +1,29 @@
+import { Body, Controller, Get, Post, Query } from '@nestjs/common'
+import { ApiOperation, ApiTags } from '@nestjs/swagger'
+import { Auth } from 'shared/core/decorators/auth.decorator'
+import { SubmissionQueryDto, SubmitDto } from './submission.dto'
+import { SubmissionService } from './submission.service'
+
+@Controller('submissions')
+@ApiTags('Submission Routes')
+@Auth()
+export class SubmissionController {
+  constructor(private readonly service: SubmissionService) {}
+
+  @Get()
+  @ApiOperation({ summary: '获取搜索引擎提交记录' })
+  async getSubmissions(@Query() query: SubmissionQueryDto) {
+    const { page, size, provider } = query
+    return await this.service.findWithPaginator(provider ? { provider } : {}, {
+      limit: size,
+      skip: (page - 1) * size,
+      sort: { created: -1 },
+    })
+  }
+
+  @Post()
+  @ApiOperation({ summary: '手动提交到搜索引擎' })
+  async submit(@Body() body: SubmitDto) {
+    return await this.service.submitManually(body.urls, body.provider)
+  }
+}
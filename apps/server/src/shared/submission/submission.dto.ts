@@ -0,0 +1,30 @@
+import { SubmissionProviders } from '@libs/db/models/submission.model'
+import { ApiProperty } from '@nestjs/swagger'
+import { Transform } from 'class-transformer'
+import { IsArray, IsEnum, IsOptional, IsUrl } from 'class-validator'
+import { PagerDto } from '../base/dto/pager.dto'
+
+export class SubmissionQueryDto extends PagerDto {
+  @IsOptional()
+  @IsEnum(SubmissionProviders)
+  @ApiProperty({ enum: SubmissionProviders, required: false })
+  @Transform(({ value: v }) => v || undefined)
+  provider?: SubmissionProviders
+}
+
+export class SubmitDto {
+  @IsOptional()
+  @IsArray()
+  @IsUrl({ require_protocol: true }, { each: true })
+  @ApiProperty({ description: '不填时提交整个站点地图', required: false })
+  urls?: string[]
+
+  @IsOptional()
+  @IsEnum(SubmissionProviders)
+  @ApiProperty({
+    enum: SubmissionProviders,
+    description: '不填时提交到所有开启的搜索引擎',
+    required: false,
+  })
+  provider?: SubmissionProviders
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common'
+import { BaiduSubmissionProvider } from './providers/baidu.provider'
+import { BingSubmissionProvider } from './providers/bing.provider'
+import { IndexNowSubmissionProvider } from './providers/indexnow.provider'
+import { SubmissionController } from './submission.controller'
+import { SubmissionService } from './submission.service'
+
+@Module({
+  providers: [
+    SubmissionService,
+    BaiduSubmissionProvider,
+    IndexNowSubmissionProvider,
+    BingSubmissionProvider,
+  ],
+  controllers: [SubmissionController],
+  exports: [SubmissionService],
+})
+export class SubmissionModule {}
@@ -0,0 +1,165 @@
+import Category from '@libs/db/models/category.model'
+import Note from '@libs/db/models/note.model'
+import Page from '@libs/db/models/page.model'
+import Post from '@libs/db/models/post.model'
+import {
+  Submission,
+  SubmissionProviders,
+  SubmissionRefTypes,
+} from '@libs/db/models/submission.model'
+import {
+  Injectable,
+  Logger,
+  UnprocessableEntityException,
+} from '@nestjs/common'
+import { ReturnModelType } from '@typegoose/typegoose'
+import { chunk } from 'lodash'
+import { InjectModel } from 'nestjs-typegoose'
+import { ConfigsService } from 'shared/global'
+import { ToolsService } from 'shared/global/tools/tools.service'
+import { BaseService } from '../base/base.service'
+import { BaiduSubmissionProvider } from './providers/baidu.provider'
+import { BingSubmissionProvider } from './providers/bing.provider'
+import { IndexNowSubmissionProvider } from './providers/indexnow.provider'
+import { SubmissionProvider } from './providers/submission-provider.interface'
+
+type SubmissionSource = Pick<Submission, 'ref' | 'refType'>
+
+@Injectable()
+export class SubmissionService extends BaseService<Submission> {
+  private readonly logger = new Logger(SubmissionService.name)
+  constructor(
+    @InjectModel(Submission)
+    private readonly model: ReturnModelType<typeof Submission>,
+    @InjectModel(Post) private readonly postModel: ReturnModelType<typeof Post>,
+    @InjectModel(Note) private readonly noteModel: ReturnModelType<typeof Note>,
+    @InjectModel(Page) private readonly pageModel: ReturnModelType<typeof Page>,
+    private readonly configs: ConfigsService,
+    private readonly tools: ToolsService,
+    private readonly baiduProvider: BaiduSubmissionProvider,
+    private readonly indexNowProvider: IndexNowSubmissionProvider,
+    private readonly bingProvider: BingSubmissionProvider,
+  ) {
+    super(model)
+  }
+
+  get providers(): SubmissionProvider[] {
+    return [this.baiduProvider, this.indexNowProvider, this.bingProvider]
+  }
+
+  /**
+   * 文档发布或修改后调用, 只提交这一篇的地址, 隐藏和加密的内容不会提交
+   */
+  async submitDocument(type: SubmissionRefTypes, id: any) {
+    try {
+      const url = await this.getDocumentUrl(type, String(id))
+      if (!url) {
+        return
+      }
+      await this.submit([url], { ref: id, refType: type })
+    } catch (err) {
+      this.logger.error(`--> 提交到搜索引擎失败: ${type} ${id} ${err}`)
+    }
+  }
+
+  /**
+   * 手动提交, 不传 urls 时提交整个站点地图
+   */
+  async submitManually(urls?: string[], provider?: SubmissionProviders) {
+    const providers = this.getEnabledProviders(provider)
+    if (!providers.length) {
+      throw new UnprocessableEntityException('没有开启的搜索引擎提交')
+    }
+    if (!urls?.length) {
+      urls = (await this.tools.getSiteMapContent()).map((item) =>
+        item.url.toString(),
+      )
+    }
+    return await this.submit(urls, {}, providers)
+  }
+
+  async submit(
+    urls: string[],
+    source: SubmissionSource = {},
+    providers = this.getEnabledProviders(),
+  ) {
+    const records: Submission[] = []
+    for (const provider of providers) {
+      for (const part of chunk(urls, provider.batchSize)) {
+        records.push(await this.submitWith(provider, part, source))
+      }
+    }
+    return records
+  }
+
+  private getEnabledProviders(name?: SubmissionProviders) {
+    return this.providers.filter(
+      (provider) => provider.enabled && (!name || provider.name === name),
+    )
+  }
+
+  /**
+   * 提交并记录结果, 失败时也会记录下来
+   */
+  private async submitWith(
+    provider: SubmissionProvider,
+    urls: string[],
+    source: SubmissionSource,
+  ) {
+    let result: Partial<Submission>
+    try {
+      const { status, data } = await provider.submit(urls)
+      result = { success: true, status, response: data }
+      this.logger.log(`--> 提交到 ${provider.name}: ${urls.length} 条`)
+    } catch (err) {
+      result = {
+        success: false,
+        status: err.response?.status,
+        response: err.response?.data,
+        error: err.message,
+      }
+      this.logger.error(`--> 提交到 ${provider.name} 失败: ${err.message}`)
+    }
+    const doc = await this.model.create({
+      provider: provider.name,
+      urls,
+      ...source,
+      ...result,
+    } as Submission)
+    return doc.toJSON() as Submission
+  }
+
+  private async getDocumentUrl(type: SubmissionRefTypes, id: string) {
+    const baseURL = this.configs.get('url').webUrl
+    switch (type) {
+      case SubmissionRefTypes.Post: {
+        const doc = await this.postModel
+          .findOne({ _id: id, hide: false })
+          .populate('category', 'slug')
+          .lean()
+        if (!doc || !doc.category) {
+          return null
+        }
+        const category = doc.category as Category
+        return new URL(
+          `/posts/${category.slug}/${doc.slug}`,
+          baseURL,
+        ).toString()
+      }
+      case SubmissionRefTypes.Note: {
+        const doc = await this.noteModel
+          .findOne({ _id: id, hide: false })
+          .select('+password')
+          .lean()
+        if (!doc || doc.password || (doc.secret && doc.secret > new Date())) {
+          return null
+        }
+        return new URL(`/notes/${doc.nid}`, baseURL).toString()
+      }
+      case SubmissionRefTypes.Page: {
+        const doc = await this.pageModel.findById(id).lean()
+        return doc ? new URL(`/${doc.slug}`, baseURL).toString() : null
+      }
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import { Controller, Delete, Get, Param, Post, Query } from '@nestjs/common'
+import { ApiOperation, ApiTags } from '@nestjs/swagger'
+import { Auth } from 'core/decorators/auth.decorator'
+import { PurgeTrashQueryDto, TrashParamsDto, TrashQueryDto } from './trash.dto'
+import { TrashService } from './trash.service'
+
+@Controller('trash')
+@ApiTags('Trash Routes')
+@Auth()
+export class TrashController {
+  constructor(private readonly service: TrashService) {}
+
+  @Get()
+  @ApiOperation({ summary: '获取回收站中的内容' })
+  async getTrash(@Query() query: TrashQueryDto) {
+    const { type, page, size, select } = query
+    return await this.service.getTrash(type, page, size, select)
+  }
+
+  @Post(':type/:id/restore')
+  @ApiOperation({ summary: '从回收站恢复' })
+  async restore(@Param() params: TrashParamsDto) {
+    return await this.service.restore(params.type, params.id)
+  }
+
+  @Delete(':type/:id')
+  @ApiOperation({ summary: '彻底删除' })
+  async purge(@Param() params: TrashParamsDto) {
+    return await this.service.purge(params.type, params.id)
+  }
+
+  @Delete()
+  @ApiOperation({ summary: '清空回收站' })
+  async purgeAll(@Query() query: PurgeTrashQueryDto) {
+    return await this.service.purgeAll(query.type)
+  }
+}
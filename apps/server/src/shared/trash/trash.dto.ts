@@ -0,0 +1,35 @@
+import { ApiProperty } from '@nestjs/swagger'
+import { IsEnum, IsMongoId, IsOptional } from 'class-validator'
+import { PagerDto } from '../base/dto/pager.dto'
+
+export enum TrashType {
+  Post = 'Post',
+  Note = 'Note',
+  Page = 'Page',
+  Say = 'Say',
+  Recently = 'Recently',
+  Comment = 'Comment',
+}
+
+export class TrashQueryDto extends PagerDto {
+  @IsEnum(TrashType)
+  @ApiProperty({ enum: TrashType })
+  type: TrashType
+}
+
+export class TrashParamsDto {
+  @IsEnum(TrashType)
+  @ApiProperty({ enum: TrashType })
+  type: TrashType
+
+  @IsMongoId()
+  @ApiProperty()
+  id: string
+}
+
+export class PurgeTrashQueryDto {
+  @IsOptional()
+  @IsEnum(TrashType)
+  @ApiProperty({ enum: TrashType, required: false })
+  type?: TrashType
+}
@@ -0,0 +1,13 @@
+import { CacheModuleDynamic } from '@libs/common/cache/cache.module'
+import { Module } from '@nestjs/common'
+import { SearchModule } from '../search/search.module'
+import { TrashController } from './trash.controller'
+import { TrashService } from './trash.service'
+
+@Module({
+  imports: [CacheModuleDynamic, SearchModule],
+  providers: [TrashService],
+  controllers: [TrashController],
+  exports: [TrashService],
+})
+export class TrashModule {}
@@ -0,0 +1,224 @@
+import Category from '@libs/db/models/category.model'
+import Comment from '@libs/db/models/comment.model'
+import Note from '@libs/db/models/note.model'
+import Page from '@libs/db/models/page.model'
+import Post from '@libs/db/models/post.model'
+import { Recently } from '@libs/db/models/recently.model'
+import { Revision } from '@libs/db/models/revision.model'
+import { Say } from '@libs/db/models/say.model'
+import { SearchRefTypes } from '@libs/db/models/search-index.model'
+import { Series } from '@libs/db/models/series.model'
+import {
+  CACHE_MANAGER,
+  Inject,
+  Injectable,
+  UnprocessableEntityException,
+} from '@nestjs/common'
+import { ReturnModelType } from '@typegoose/typegoose'
+import { Cache } from 'cache-manager'
+import { Types } from 'mongoose'
+import { InjectModel } from 'nestjs-typegoose'
+import { CannotFindException } from 'shared/core/exceptions/cant-find.exception'
+import { refreshKeyedCache } from 'utils/text-base'
+import { SearchService } from '../search/search.service'
+import { TrashType } from './trash.dto'
+
+@Injectable()
+export class TrashService {
+  constructor(
+    @InjectModel(Post) private readonly postModel: ReturnModelType<typeof Post>,
+    @InjectModel(Note) private readonly noteModel: ReturnModelType<typeof Note>,
+    @InjectModel(Page) private readonly pageModel: ReturnModelType<typeof Page>,
+    @InjectModel(Say) private readonly sayModel: ReturnModelType<typeof Say>,
+    @InjectModel(Recently)
+    private readonly recentlyModel: ReturnModelType<typeof Recently>,
+    @InjectModel(Comment)
+    private readonly commentModel: ReturnModelType<typeof Comment>,
+    @InjectModel(Category)
+    private readonly categoryModel: ReturnModelType<typeof Category>,
+    @InjectModel(Revision)
+    private readonly revisionModel: ReturnModelType<typeof Revision>,
+    @InjectModel(Series)
+    private readonly seriesModel: ReturnModelType<typeof Series>,
+    @Inject(CACHE_MANAGER) private readonly cacheManager: Cache,
+    private readonly searchService: SearchService,
+  ) {}
+
+  /**
+   * 条件中带上 deletedAt, softDeletePlugin 就不会再过滤掉已删除的文档
+   */
+  private readonly trashCondition = { deletedAt: { $ne: null } }
+
+  getModelByType(type: TrashType): ReturnModelType<any> {
+    switch (type) {
+      case TrashType.Post:
+        return this.postModel
+      case TrashType.Note:
+        return this.noteModel
+      case TrashType.Page:
+        return this.pageModel
+      case TrashType.Say:
+        return this.sayModel
+      case TrashType.Recently:
+        return this.recentlyModel
+      case TrashType.Comment:
+        return this.commentModel
+    }
+  }
+
+  async getTrash(type: TrashType, page: number, size: number, select?: string) {
+    const model = this.getModelByType(type)
+    const [data, total] = await Promise.all([
+      model
+        .find(this.trashCondition)
+        .select(select)
+        .sort({ deletedAt: -1 })
+        .skip((page - 1) * size)
+        .limit(size)
+        .lean(),
+      model.countDocuments(this.trashCondition),
+    ])
+    const totalPage = Math.ceil(total / size) || 1
+    return {
+      data,
+      page: {
+        total,
+        size: data.length,
+        currentPage: page,
+        totalPage,
+        hasPrevPage: page !== 1,
+        hasNextPage: totalPage > page,
+      },
+    }
+  }
+
+  async restore(type: TrashType, id: string) {
+    const model = this.getModelByType(type)
+    const doc = await model.findOne({ _id: id, ...this.trashCondition }).lean()
+    if (!doc) {
+      throw new CannotFindException()
+    }
+    // slug 的唯一索引只约束未删除的文档, 删除后可能有新的文档用了同样的 slug
+    if (
+      (type === TrashType.Post || type === TrashType.Page) &&
+      (await model.exists({ slug: doc.slug }))
+    ) {
+      throw new UnprocessableEntityException(
+        `已经有其他内容使用了 ${doc.slug}, 无法恢复`,
+      )
+    }
+    switch (type) {
+      case TrashType.Post: {
+        const category = await this.categoryModel.findById(doc.categoryId)
+        if (!category) {
+          throw new UnprocessableEntityException(
+            '文章的分类已经不存在了, 无法恢复 (>﹏<)',
+          )
+        }
+        await category.updateOne({ $inc: { count: 1 } })
+        break
+      }
+      case TrashType.Comment: {
+        await this.restoreComment(doc._id, doc.deletedAt)
+        refreshKeyedCache(this.cacheManager)
+        return { message: '恢复成功' }
+      }
+    }
+    await model.updateOne(
+      { _id: id, ...this.trashCondition },
+      { $unset: { deletedAt: 1 } },
+    )
+    // 评论已经在上面返回了, 剩下的类型都有索引
+    await this.searchService.syncDocument(type as string as SearchRefTypes, id)
+    refreshKeyedCache(this.cacheManager)
+    return { message: '恢复成功' }
+  }
+
+  async purge(type: TrashType, id: string) {
+    const model = this.getModelByType(type)
+    const doc = await model.findOne({ _id: id, ...this.trashCondition }).lean()
+    if (!doc) {
+      throw new CannotFindException()
+    }
+    await this.purgeDocument(type, doc)
+    return { message: '删除成功' }
+  }
+
+  /**
+   * 清空回收站, 传入 before 时只清理在这之前删除的
+   */
+  async purgeAll(type?: TrashType, before?: Date) {
+    const types = type ? [type] : Object.values(TrashType)
+    let count = 0
+    for (const type of types) {
+      const docs = await this.getModelByType(type)
+        .find({ deletedAt: before ? { $lte: before } : { $ne: null } })
+        .lean()
+      for (const doc of docs) {
+        await this.purgeDocument(type, doc)
+        count++
+      }
+    }
+    return { count }
+  }
+
+  private async purgeDocument(type: TrashType, doc: any) {
+    switch (type) {
+      case TrashType.Comment: {
+        if (doc.parent) {
+          await this.commentModel.collection.updateOne(
+            { _id: doc.parent },
+            { $pull: { children: doc._id } },
+          )
+        }
+        await this.purgeComment(doc._id)
+        return
+      }
+      case TrashType.Post:
+      case TrashType.Note:
+      case TrashType.Page: {
+        await this.commentModel.deleteMany({ ref: doc._id })
+        await this.revisionModel.deleteMany({ ref: doc._id })
+        await this.seriesModel.updateMany(
+          { 'items.ref': doc._id },
+          { $pull: { items: { ref: doc._id } } },
+        )
+        break
+      }
+    }
+    await this.getModelByType(type).deleteOne({ _id: doc._id })
+  }
+
+  /**
+   * 恢复同一次删除的子评论, 之前单独删除的不受影响
+   */
+  private async restoreComment(id: Types.ObjectId, deletedAt: Date) {
+    const doc = await this.commentModel
+      .findOneAndUpdate({ _id: id, deletedAt }, { $unset: { deletedAt: 1 } })
+      .lean()
+    if (!doc) {
+      return
+    }
+    await Promise.all(
+      (doc.children || []).map((child) =>
+        this.restoreComment(child as Types.ObjectId, deletedAt),
+      ),
+    )
+  }
+
+  /**
+   * 直接操作集合, 子评论不论是否在回收站中都要删除
+   */
+  private async purgeComment(id: Types.ObjectId) {
+    const doc = await this.commentModel.collection.findOne({ _id: id })
+    if (!doc) {
+      return
+    }
+    await Promise.all(
+      (doc.children || []).map((child: Types.ObjectId) =>
+        this.purgeComment(child),
+      ),
+    )
+    await this.commentModel.collection.deleteOne({ _id: id })
+  }
+}
@@ -1,7 +1,7 @@
 import { FileType } from '@libs/db/models/file.model'
 import { ApiProperty } from '@nestjs/swagger'
 import { Transform } from 'class-transformer'
-import { IsEnum, IsOptional } from 'class-validator'
+import { IsBoolean, IsEnum, IsOptional } from 'class-validator'
 
 export class FileTypeQueryDto {
   @Transform(({ value: val }) => Number(val))
@@ -10,3 +10,15 @@ export class FileTypeQueryDto {
   @ApiProperty({ enum: Object.keys(FileType) })
   type?: FileType
 }
+
+export class UploadQueryDto extends FileTypeQueryDto {
+  @Transform(({ value: val }) => val === '1' || val === 'true')
+  @IsOptional()
+  @IsBoolean()
+  @ApiProperty({
+    enum: [1, 0],
+    required: false,
+    description: '保留图片中的位置信息, 默认会去掉',
+  })
+  keepGps?: boolean
+}
@@ -0,0 +1,32 @@
+import { ApiProperty } from '@nestjs/swagger'
+import { Transform } from 'class-transformer'
+import { IsEnum, IsInt, IsOptional, Max, Min } from 'class-validator'
+
+export enum ImageFormat {
+  WebP = 'webp',
+  Avif = 'avif',
+  Jpeg = 'jpeg',
+  Png = 'png',
+  /** 按 Accept 头选择 */
+  Auto = 'auto',
+}
+
+/**
+ * 不带参数时返回原图, 只传 w 时按 Accept 头选择格式
+ */
+export class ImageVariantQueryDto {
+  @Transform(({ value: val }) => (val ? parseInt(val) : undefined), {
+    toClassOnly: true,
+  })
+  @Min(1)
+  @Max(4096)
+  @IsInt()
+  @IsOptional()
+  @ApiProperty({ required: false, description: '宽度, 会向上取整到预设的尺寸' })
+  w?: number
+
+  @IsEnum(ImageFormat)
+  @IsOptional()
+  @ApiProperty({ required: false, enum: ImageFormat })
+  format?: ImageFormat
+}
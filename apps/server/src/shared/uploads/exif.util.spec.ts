@@ -0,0 +1,135 @@
+import * as sharp from 'sharp'
+import { readExif, stripGps } from './exif.util'
+
+// 只有非 JPEG 的格式需要重新编码
+jest.mock('sharp', () => jest.fn())
+
+/**
+ * 大端序的 TIFF 结构, IFD0 中有相机厂商和 GPS IFD, GPS 中有经纬度
+ */
+const createTiff = () => {
+  const tiff = Buffer.alloc(140)
+  tiff.write('MM', 0, 'latin1')
+  tiff.writeUInt16BE(42, 2)
+  tiff.writeUInt32BE(8, 4)
+
+  const writeEntry = (
+    offset: number,
+    tag: number,
+    type: number,
+    count: number,
+    value: number | string,
+  ) => {
+    tiff.writeUInt16BE(tag, offset)
+    tiff.writeUInt16BE(type, offset + 2)
+    tiff.writeUInt32BE(count, offset + 4)
+    if (typeof value === 'string') {
+      tiff.write(value, offset + 8, 'latin1')
+    } else {
+      tiff.writeUInt32BE(value, offset + 8)
+    }
+  }
+  const writeRationals = (offset: number, values: number[]) =>
+    values.forEach((value, i) => {
+      tiff.writeUInt32BE(value, offset + i * 8)
+      tiff.writeUInt32BE(1, offset + i * 8 + 4)
+    })
+
+  // IFD0: Make, GPS IFD 指针
+  tiff.writeUInt16BE(2, 8)
+  writeEntry(10, 0x010f, 2, 4, 'Abc\0')
+  writeEntry(22, 0x8825, 4, 1, 38)
+  // GPS IFD: 北纬 31 度, 东经 121 度
+  tiff.writeUInt16BE(4, 38)
+  writeEntry(40, 1, 2, 2, 'N\0')
+  writeEntry(52, 2, 5, 3, 92)
+  writeEntry(64, 3, 2, 2, 'E\0')
+  writeEntry(76, 4, 5, 3, 116)
+  writeRationals(92, [31, 12, 0])
+  writeRationals(116, [121, 28, 0])
+  return tiff
+}
+
+const createSegment = (payload: Buffer) => {
+  const header = Buffer.from([0xff, 0xe1, 0, 0])
+  header.writeUInt16BE(payload.length + 2, 2)
+  return Buffer.concat([header, payload])
+}
+
+/** 在 SOI 之后插入 APP1 段 */
+const insertSegments = (jpeg: Buffer, ...segments: Buffer[]) =>
+  Buffer.concat([jpeg.subarray(0, 2), ...segments, jpeg.subarray(2)])
+
+/** 只有 SOI, 扫描开始和结束标记的 JPEG, 图像数据是假的 */
+const jpeg = Buffer.from([
+  0xff, 0xd8, 0xff, 0xda, 0x00, 0x04, 0x01, 0x02, 0x03, 0x04, 0xff, 0xd9,
+])
+
+const mockSharp = (toBuffer: () => Promise<Buffer>) =>
+  ((sharp as unknown) as jest.Mock).mockReturnValue({
+    rotate: () => ({ toBuffer }),
+  })
+
+describe('stripGps', () => {
+  const exifSegment = () =>
+    createSegment(Buffer.concat([Buffer.from('Exif\0\0', 'latin1'), createTiff()]))
+
+  it('should clear GPS in a JPEG without re-encoding', async () => {
+    const input = insertSegments(jpeg, exifSegment())
+    const { gps } = await readExif(input)
+    expect(gps.latitude).toBeCloseTo(31.2)
+    expect(gps.longitude).toBeCloseTo(121.467)
+
+    const stripped = await stripGps(input, 'image/jpeg')
+
+    expect(stripped.length).toBe(input.length)
+    expect(stripped.subarray(-jpeg.length + 2)).toEqual(jpeg.subarray(2))
+    const exif = await readExif(stripped)
+    expect(exif.gps).toBeUndefined()
+    expect(exif.camera).toBe('Abc')
+    expect(sharp).not.toBeCalled()
+  })
+
+  it('should not modify the input buffer', async () => {
+    const input = insertSegments(jpeg, exifSegment())
+    const copy = Buffer.from(input)
+    await stripGps(input, 'image/jpeg')
+
+    expect(input).toEqual(copy)
+  })
+
+  it('should remove XMP containing GPS', async () => {
+    const xmp = createSegment(
+      Buffer.from(
+        'http://ns.adobe.com/xap/1.0/\0<x:xmpmeta><exif:GPSLatitude>31,12N</exif:GPSLatitude></x:xmpmeta>',
+        'latin1',
+      ),
+    )
+    const input = insertSegments(jpeg, exifSegment(), xmp)
+    const stripped = await stripGps(input, 'image/jpeg')
+
+    expect(stripped.length).toBe(input.length - xmp.length)
+    expect(stripped.includes('GPSLatitude')).toBe(false)
+    expect((await readExif(stripped)).camera).toBe('Abc')
+  })
+
+  it('should keep a JPEG without metadata as is', async () => {
+    expect(await stripGps(jpeg, 'image/jpeg')).toEqual(jpeg)
+  })
+
+  it('should re-encode other formats', async () => {
+    const encoded = Buffer.from('encoded')
+    mockSharp(async () => encoded)
+
+    expect(await stripGps(Buffer.from('png'), 'image/png')).toBe(encoded)
+  })
+
+  it('should return null when re-encoding keeps GPS or fails', async () => {
+    const withGps = insertSegments(jpeg, exifSegment())
+    mockSharp(async () => withGps)
+    expect(await stripGps(Buffer.from('png'), 'image/png')).toBeNull()
+
+    mockSharp(() => Promise.reject(new Error('unsupported image format')))
+    expect(await stripGps(Buffer.from('png'), 'image/png')).toBeNull()
+  })
+})
@@ -0,0 +1,161 @@
+import { parse as parseExif } from 'exifr'
+import * as sharp from 'sharp'
+
+export interface ExifInfo {
+  camera?: string
+  lens?: string
+  takenAt?: Date
+  exposureTime?: number
+  fNumber?: number
+  iso?: number
+  focalLength?: number
+  gps?: { latitude: number; longitude: number; altitude?: number }
+}
+
+/**
+ * 读取拍摄信息, 没有 EXIF 或解析失败时返回 null
+ */
+export async function readExif(buffer: Buffer): Promise<ExifInfo | null> {
+  let data: any
+  try {
+    data = await parseExif(buffer, { xmp: true })
+  } catch {
+    return null
+  }
+  if (!data) {
+    return null
+  }
+  const info: ExifInfo = {
+    camera: [data.Make, data.Model].filter(Boolean).join(' ') || undefined,
+    lens: data.LensModel,
+    takenAt:
+      data.DateTimeOriginal instanceof Date ? data.DateTimeOriginal : undefined,
+    exposureTime: data.ExposureTime,
+    fNumber: data.FNumber,
+    iso: data.ISO,
+    focalLength: data.FocalLength,
+  }
+  if (Number.isFinite(data.latitude) && Number.isFinite(data.longitude)) {
+    info.gps = {
+      latitude: data.latitude,
+      longitude: data.longitude,
+      altitude: data.GPSAltitude,
+    }
+  }
+  return info
+}
+
+// TIFF 各数据类型的字节数
+const TIFF_TYPE_SIZES = [0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8, 4, 8]
+
+const GPS_IFD_TAG = 0x8825
+
+/**
+ * 原地清空 TIFF 结构中的 GPS IFD, 不改变长度, 其他偏移量仍然有效
+ */
+function clearGpsIfd(tiff: Buffer) {
+  const little = tiff.toString('latin1', 0, 2) === 'II'
+  const u16 = (offset: number) =>
+    little ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset)
+  const u32 = (offset: number) =>
+    little ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset)
+
+  const ifd0 = u32(4)
+  let gps = 0
+  for (let i = 0; i < u16(ifd0); i++) {
+    const entry = ifd0 + 2 + i * 12
+    if (u16(entry) === GPS_IFD_TAG) {
+      gps = u32(entry + 8)
+    }
+  }
+  if (!gps) {
+    return
+  }
+  const count = u16(gps)
+  for (let i = 0; i < count; i++) {
+    const entry = gps + 2 + i * 12
+    const size = (TIFF_TYPE_SIZES[u16(entry + 2)] || 0) * u32(entry + 4)
+    // 超过 4 字节的值存在别处
+    if (size > 4) {
+      const offset = u32(entry + 8)
+      tiff.fill(0, offset, Math.min(offset + size, tiff.length))
+    }
+  }
+  tiff.fill(0, gps, Math.min(gps + 2 + count * 12 + 4, tiff.length))
+}
+
+/**
+ * 不重新编码, 清空 EXIF 中的 GPS 并去掉带有位置信息的 XMP
+ */
+function stripJpegGps(buffer: Buffer) {
+  if (buffer.readUInt16BE(0) !== 0xffd8) {
+    return null
+  }
+  const out = Buffer.from(buffer)
+  const removed: [number, number][] = []
+  let offset = 2
+  while (offset + 4 <= out.length) {
+    if (out[offset] !== 0xff) {
+      return null
+    }
+    const marker = out[offset + 1]
+    // 填充字节
+    if (marker === 0xff) {
+      offset++
+      continue
+    }
+    // 图像数据开始, 之后不会再有元数据
+    if (marker === 0xda || marker === 0xd9) {
+      break
+    }
+    const end = offset + 2 + out.readUInt16BE(offset + 2)
+    if (marker === 0xe1) {
+      const segment = out.subarray(offset + 4, end)
+      if (segment.toString('latin1', 0, 6) === 'Exif\0\0') {
+        clearGpsIfd(segment.subarray(6))
+      } else if (
+        segment.toString('latin1', 0, 29) ===
+          'http://ns.adobe.com/xap/1.0/\0' &&
+        segment.includes('GPS')
+      ) {
+        removed.push([offset, end])
+      }
+    }
+    offset = end
+  }
+  if (!removed.length) {
+    return out
+  }
+  const chunks: Buffer[] = []
+  let start = 0
+  for (const [from, to] of removed) {
+    chunks.push(out.subarray(start, from))
+    start = to
+  }
+  chunks.push(out.subarray(start))
+  return Buffer.concat(chunks)
+}
+
+/**
+ * 去掉图片中的位置信息
+ *
+ * JPEG 直接修改元数据, 其他格式重新编码 (sharp 默认不保留元数据)
+ * 无法处理时返回 null
+ */
+export async function stripGps(buffer: Buffer, mime: string) {
+  if (mime === 'image/jpeg') {
+    try {
+      const stripped = stripJpegGps(buffer)
+      if (stripped && !(await readExif(stripped))?.gps) {
+        return stripped
+      }
+    } catch {}
+  }
+  try {
+    // 丢掉元数据前先按 EXIF 中的方向摆正
+    const stripped = await sharp(buffer).rotate().toBuffer()
+    return (await readExif(stripped))?.gps ? null : stripped
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,143 @@
+import Comment from '@libs/db/models/comment.model'
+import { Draft } from '@libs/db/models/draft.model'
+import { File, FileLocate, FileType } from '@libs/db/models/file.model'
+import { Link } from '@libs/db/models/link.model'
+import Note from '@libs/db/models/note.model'
+import { Option } from '@libs/db/models/option.model'
+import Page from '@libs/db/models/page.model'
+import { Post } from '@libs/db/models/post.model'
+import { Project } from '@libs/db/models/project.model'
+import { Recently } from '@libs/db/models/recently.model'
+import { Revision } from '@libs/db/models/revision.model'
+import { Say } from '@libs/db/models/say.model'
+import { User } from '@libs/db/models/user.model'
+import { Injectable } from '@nestjs/common'
+import { ReturnModelType } from '@typegoose/typegoose'
+import { InjectModel } from 'nestjs-typegoose'
+
+/**
+ * 背景图和相册由前端直接使用, 无法判断是否被引用
+ */
+export const TRACKED_FILE_TYPES = [
+  FileType.IMAGE,
+  FileType.AVATAR,
+  FileType.MUSIC,
+  FileType.VIDEO,
+  FileType.FILE,
+]
+
+// 文件名是 sha256, 旧文件是 md5, 地址中会带上文件名
+const FILE_NAME_REGEXP = /\b[\da-f]{32}(?:[\da-f]{32})?\b/gi
+
+export interface FileReferences {
+  /** 引用到的文件名 */
+  names: Set<string>
+  /** 所有引用来源的原文, 用来匹配远程存储的地址 */
+  sources: string[]
+}
+
+/**
+ * 找出内容, 评论, 友链, 草稿, 历史版本, 设置和主人头像中引用到的上传文件
+ */
+@Injectable()
+export class FileReferenceService {
+  constructor(
+    @InjectModel(Post) private readonly postModel: ReturnModelType<typeof Post>,
+    @InjectModel(Note) private readonly noteModel: ReturnModelType<typeof Note>,
+    @InjectModel(Page) private readonly pageModel: ReturnModelType<typeof Page>,
+    @InjectModel(Project)
+    private readonly projectModel: ReturnModelType<typeof Project>,
+    @InjectModel(Say) private readonly sayModel: ReturnModelType<typeof Say>,
+    @InjectModel(Recently)
+    private readonly recentlyModel: ReturnModelType<typeof Recently>,
+    @InjectModel(Comment)
+    private readonly commentModel: ReturnModelType<typeof Comment>,
+    @InjectModel(Link) private readonly linkModel: ReturnModelType<typeof Link>,
+    @InjectModel(Draft)
+    private readonly draftModel: ReturnModelType<typeof Draft>,
+    @InjectModel(Revision)
+    private readonly revisionModel: ReturnModelType<typeof Revision>,
+    @InjectModel(Option)
+    private readonly optionModel: ReturnModelType<typeof Option>,
+    @InjectModel(User) private readonly userModel: ReturnModelType<typeof User>,
+  ) {}
+
+  async collect(): Promise<FileReferences> {
+    const sources: string[] = []
+    // 回收站中的文档还可能被恢复, 也算作引用
+    for (const condition of [{}, { deletedAt: { $ne: null } }]) {
+      for (const model of [this.postModel, this.noteModel, this.pageModel]) {
+        const docs = await (model as ReturnModelType<typeof Post>)
+          .find(condition)
+          .select('text images')
+          .lean()
+        for (const doc of docs) {
+          sources.push(
+            doc.text,
+            ...(doc.images ?? []).map((image) => image.src),
+          )
+        }
+      }
+      const says = await this.sayModel.find(condition).select('text').lean()
+      sources.push(...says.map((say) => say.text))
+      const recently = await this.recentlyModel
+        .find(condition)
+        .select('content')
+        .lean()
+      sources.push(...recently.map((item) => item.content))
+      const comments = await this.commentModel
+        .find(condition)
+        .select('text')
+        .lean()
+      sources.push(...comments.map((comment) => comment.text))
+    }
+    const links = await this.linkModel.find().select('avatar').lean()
+    sources.push(...links.map((link) => link.avatar))
+    const projects = await this.projectModel
+      .find()
+      .select('text avatar images')
+      .lean()
+    for (const project of projects) {
+      sources.push(project.text, project.avatar, ...(project.images ?? []))
+    }
+    // 草稿可能还没有发布, 其中的文件不能清理
+    const drafts = await this.draftModel.find().select('text payload').lean()
+    for (const draft of drafts) {
+      sources.push(draft.text, JSON.stringify(draft.payload ?? {}))
+    }
+    // 恢复历史版本时会用到当时引用的文件
+    const revisions = await this.revisionModel.find().select('text').lean()
+    sources.push(...revisions.map((revision) => revision.text))
+    // 背景图, SEO 图片等设置项
+    const options = await this.optionModel.find().lean()
+    for (const option of options) {
+      sources.push(JSON.stringify(option.value ?? null))
+    }
+    const master = await this.userModel.findOne().select('avatar').lean()
+    sources.push(master?.avatar)
+
+    const filtered = sources.filter(Boolean)
+    const names = new Set<string>()
+    for (const source of filtered) {
+      for (const [name] of source.matchAll(FILE_NAME_REGEXP)) {
+        names.add(name.toLowerCase())
+      }
+    }
+    return { names, sources: filtered }
+  }
+
+  isReferenced(
+    references: FileReferences,
+    file: Pick<File, 'name' | 'locate' | 'url'>,
+  ) {
+    if (references.names.has(file.name.toLowerCase())) {
+      return true
+    }
+    // 旧的图床文件以图床地址引用
+    return (
+      file.locate === FileLocate.Online &&
+      !!file.url &&
+      references.sources.some((source) => source.includes(file.url))
+    )
+  }
+}
@@ -1,33 +1,17 @@
-import { File, FileLocate, FileType } from '@libs/db/models/file.model'
-import { Injectable } from '@nestjs/common'
+import { File, FileType } from '@libs/db/models/file.model'
+import { Injectable, Logger } from '@nestjs/common'
 import { ReturnModelType } from '@typegoose/typegoose'
+import { readFile } from 'fs/promises'
 import { shuffle } from 'lodash'
 import { InjectModel } from 'nestjs-typegoose'
-import { ConfigsService } from '../../../../../shared/global/configs/configs.service'
-import { UploadsService } from './uploads.service'
-import Pic = require('picgo')
+import { StorageService } from './storage/storage.service'
 @Injectable()
 export class ImageService {
-  public rootPath = UploadsService.rootPath
-  private pic = new Pic()
-
+  private readonly logger = new Logger(ImageService.name)
   constructor(
     @InjectModel(File) private readonly model: ReturnModelType<typeof File>,
-    private readonly configs: ConfigsService,
-  ) {
-    this.pic.setConfig({
-      picBed: {
-        current: 'github',
-        github: {
-          branch: 'master',
-          customUrl: configs.imageBed.customUrl,
-          path: '',
-          repo: configs.imageBed.repo,
-          token: configs.imageBed.token,
-        },
-      },
-    })
-  }
+    private readonly storageService: StorageService,
+  ) {}
 
   async getRandomImages(size = 5, type: FileType) {
     if (size < 1) {
@@ -50,25 +34,29 @@ export class ImageService {
     return randomImages.splice(0, size)
   }
 
-  async syncToImageBed(files: [{ path: string; name: string }]) {
-    const res = []
-    for await (const file of files) {
-      await this.pic.upload([file.path])
-
-      this.pic.output.map(async (pic) => {
-        if (!pic.imgUrl) {
-          return console.error('图片上传失败')
-        }
-        const imageUrl = pic.imgUrl
-        await this.model.updateOne(
-          { name: file.name },
-          {
-            locate: FileLocate.Online,
-            url: imageUrl,
-          },
+  /**
+   * 上传到配置的远程存储, 失败时文件仍然保存在本地
+   */
+  async syncToImageBed(
+    files: { path: string; name: string; type: FileType }[],
+  ) {
+    const res: string[] = []
+    for (const file of files) {
+      const doc = await this.model
+        .findOne({ name: file.name, type: file.type })
+        .lean()
+      if (!doc) {
+        continue
+      }
+      try {
+        const url = await this.storageService.upload(
+          doc,
+          await readFile(file.path),
         )
-        return imageUrl
-      })
+        url && res.push(url)
+      } catch (err) {
+        this.logger.error(`--> 图片上传失败: ${file.name} ${err}`)
+      }
     }
     return res
   }
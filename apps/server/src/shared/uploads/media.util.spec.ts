@@ -0,0 +1,34 @@
+import { parseRange } from './media.util'
+
+describe('parseRange', () => {
+  it('should return null without a valid header', () => {
+    expect(parseRange(undefined, 100)).toBeNull()
+    expect(parseRange('bytes=-', 100)).toBeNull()
+    expect(parseRange('items=0-10', 100)).toBeNull()
+    expect(parseRange('bytes=0-10,20-30', 100)).toBeNull()
+  })
+
+  it('should parse a closed range', () => {
+    expect(parseRange('bytes=0-9', 100)).toEqual({ start: 0, end: 9 })
+    expect(parseRange('bytes=10-10', 100)).toEqual({ start: 10, end: 10 })
+  })
+
+  it('should read to the end for an open range', () => {
+    expect(parseRange('bytes=50-', 100)).toEqual({ start: 50, end: 99 })
+  })
+
+  it('should clamp the end to the file size', () => {
+    expect(parseRange('bytes=90-200', 100)).toEqual({ start: 90, end: 99 })
+  })
+
+  it('should parse a suffix range', () => {
+    expect(parseRange('bytes=-10', 100)).toEqual({ start: 90, end: 99 })
+    expect(parseRange('bytes=-500', 100)).toEqual({ start: 0, end: 99 })
+  })
+
+  it('should return false for unsatisfiable ranges', () => {
+    expect(parseRange('bytes=100-', 100)).toBe(false)
+    expect(parseRange('bytes=20-10', 100)).toBe(false)
+    expect(parseRange('bytes=0-', 0)).toBe(false)
+  })
+})
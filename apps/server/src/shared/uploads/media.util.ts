@@ -0,0 +1,64 @@
+import { parseFile } from 'music-metadata'
+
+export interface MediaInfo {
+  duration?: number
+  bitrate?: number
+  codec?: string
+  container?: string
+  sampleRate?: number
+  channels?: number
+  title?: string
+  artist?: string
+  album?: string
+}
+
+/**
+ * 读取音频和视频的时长, 码率等信息, 不支持的格式返回 null
+ */
+export async function readMediaInfo(path: string): Promise<MediaInfo | null> {
+  try {
+    const { format, common } = await parseFile(path, { duration: true })
+    return {
+      duration: format.duration,
+      bitrate: format.bitrate,
+      codec: format.codec,
+      container: format.container,
+      sampleRate: format.sampleRate,
+      channels: format.numberOfChannels,
+      title: common.title,
+      artist: common.artist,
+      album: common.album,
+    }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * 解析 Range 请求头, 只支持单个范围
+ *
+ * 没有或无法解析时返回 null, 超出文件大小时返回 false
+ */
+export function parseRange(
+  header: string | undefined,
+  size: number,
+): { start: number; end: number } | null | false {
+  const matched = header?.match(/^bytes=(\d*)-(\d*)$/)
+  if (!matched || (!matched[1] && !matched[2])) {
+    return null
+  }
+  let start: number
+  let end: number
+  if (!matched[1]) {
+    // bytes=-500 表示最后 500 个字节
+    start = Math.max(size - Number(matched[2]), 0)
+    end = size - 1
+  } else {
+    start = Number(matched[1])
+    end = matched[2] ? Math.min(Number(matched[2]), size - 1) : size - 1
+  }
+  if (start > end || start >= size) {
+    return false
+  }
+  return { start, end }
+}
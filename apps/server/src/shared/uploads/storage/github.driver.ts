@@ -0,0 +1,53 @@
+import { unlink, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { basename, join } from 'path'
+import { ImageBedDto } from 'shared/global/configs/configs.dto'
+import { StorageDriver } from './storage-driver.interface'
+import Pic = require('picgo')
+
+/**
+ * 通过 PicGo 上传到 GitHub 仓库, 不支持删除
+ */
+export class GithubStorageDriver implements StorageDriver {
+  readonly name = 'github'
+  private pic = new Pic()
+
+  constructor(options: ImageBedDto) {
+    this.pic.setConfig({
+      picBed: {
+        current: 'github',
+        github: {
+          branch: 'master',
+          customUrl: options.customUrl,
+          path: '',
+          repo: options.repo,
+          token: options.token,
+        },
+      },
+    })
+  }
+
+  async put(key: string, data: Buffer) {
+    // PicGo 只能上传文件, 以 key 的文件名写入临时目录
+    const path = join(tmpdir(), basename(key))
+    await writeFile(path, data)
+    try {
+      await this.pic.upload([path])
+    } finally {
+      await unlink(path).catch(() => null)
+    }
+    const url = this.pic.output[0]?.imgUrl
+    if (!url) {
+      throw new Error('图片上传失败')
+    }
+    return url
+  }
+
+  async delete() {
+    return
+  }
+
+  getUrl() {
+    return null
+  }
+}
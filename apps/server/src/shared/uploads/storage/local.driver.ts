@@ -0,0 +1,49 @@
+import { existsSync } from 'fs'
+import { mkdir, readFile, rename, unlink, writeFile } from 'fs/promises'
+import { dirname, join } from 'path'
+import { StorageDriver } from './storage-driver.interface'
+
+/**
+ * 保存在上传目录下, key 为相对路径
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local'
+
+  constructor(private readonly rootPath: string) {}
+
+  getPath(key: string) {
+    return join(this.rootPath, key)
+  }
+
+  exists(key: string) {
+    return existsSync(this.getPath(key))
+  }
+
+  async get(key: string) {
+    return await readFile(this.getPath(key))
+  }
+
+  async put(key: string, data: Buffer) {
+    const path = this.getPath(key)
+    await mkdir(dirname(path), { recursive: true })
+    await writeFile(path, data)
+    return null
+  }
+
+  /**
+   * 移动已经写入磁盘的文件, 需要在同一个文件系统中
+   */
+  async move(key: string, from: string) {
+    const path = this.getPath(key)
+    await mkdir(dirname(path), { recursive: true })
+    await rename(from, path)
+  }
+
+  async delete(key: string) {
+    await unlink(this.getPath(key)).catch(() => null)
+  }
+
+  getUrl() {
+    return null
+  }
+}
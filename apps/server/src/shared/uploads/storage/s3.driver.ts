@@ -0,0 +1,160 @@
+import { HttpService } from '@nestjs/common'
+import { createHash, createHmac } from 'crypto'
+import { S3OptionsDto } from 'shared/global/configs/configs.dto'
+import { StorageDriver } from './storage-driver.interface'
+
+const sha256 = (data: string | Buffer) =>
+  createHash('sha256').update(data).digest('hex')
+
+const hmac = (key: string | Buffer, data: string) =>
+  createHmac('sha256', key).update(data).digest()
+
+// 和 encodeURIComponent 的区别是 !'()* 也需要编码
+const encodeKey = (key: string) =>
+  key
+    .split('/')
+    .map((part) =>
+      encodeURIComponent(part).replace(
+        /[!'()*]/g,
+        (c) => '%' + c.charCodeAt(0).toString(16).toUpperCase(),
+      ),
+    )
+    .join('/')
+
+/**
+ * AWS Signature Version 4, 只签名请求头, 不支持查询参数
+ *
+ * @see https://docs.aws.amazon.com/AmazonS3/latest/API/sig-v4-header-based-auth.html
+ */
+export function signS3Request(options: {
+  method: string
+  url: URL
+  headers: Record<string, string>
+  payloadHash: string
+  region: string
+  accessKeyId: string
+  secretAccessKey: string
+  date?: Date
+}) {
+  const { method, url, payloadHash, region } = options
+  const amzDate = (options.date ?? new Date())
+    .toISOString()
+    .replace(/[:-]|\.\d{3}/g, '')
+  const dateStamp = amzDate.slice(0, 8)
+  const headers: Record<string, string> = {
+    ...options.headers,
+    Host: url.host,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+  }
+  const names = Object.keys(headers)
+    .map((name) => name.toLowerCase())
+    .sort()
+  const values = Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [
+      name.toLowerCase(),
+      String(value).trim().replace(/\s+/g, ' '),
+    ]),
+  )
+  const signedHeaders = names.join(';')
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    '',
+    names.map((name) => `${name}:${values[name]}\n`).join(''),
+    signedHeaders,
+    payloadHash,
+  ].join('\n')
+  const scope = `${dateStamp}/${region}/s3/aws4_request`
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    amzDate,
+    scope,
+    sha256(canonicalRequest),
+  ].join('\n')
+  const signingKey = ['s3', 'aws4_request'].reduce(
+    (key, data) => hmac(key, data),
+    hmac(hmac(`AWS4${options.secretAccessKey}`, dateStamp), region),
+  )
+  const signature = createHmac('sha256', signingKey)
+    .update(stringToSign)
+    .digest('hex')
+  headers.Authorization = `AWS4-HMAC-SHA256 Credential=${options.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+  return headers
+}
+
+/**
+ * S3 兼容的对象存储, 如 AWS S3, MinIO, Cloudflare R2
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3'
+
+  constructor(
+    private readonly options: S3OptionsDto,
+    private readonly http: HttpService,
+  ) {}
+
+  private getObjectUrl(key: string) {
+    const { endpoint, bucket, pathStyle, prefix = '' } = this.options
+    const url = new URL(endpoint)
+    const path = encodeKey(prefix + key)
+    if (pathStyle) {
+      url.pathname = `/${bucket}/${path}`
+    } else {
+      url.host = `${bucket}.${url.host}`
+      url.pathname = `/${path}`
+    }
+    return url
+  }
+
+  getUrl(key: string) {
+    const { customUrl, prefix = '' } = this.options
+    if (customUrl) {
+      return `${customUrl.replace(/\/+$/, '')}/${encodeKey(prefix + key)}`
+    }
+    return this.getObjectUrl(key).toString()
+  }
+
+  async put(key: string, data: Buffer, mime: string) {
+    await this.request('PUT', key, data, {
+      'Content-Type': mime || 'application/octet-stream',
+      'Content-Length': String(data.length),
+      // 文件名是内容的 hash, 不会变化
+      'Cache-Control': 'public, max-age=31536000, immutable',
+    })
+    return this.getUrl(key)
+  }
+
+  async delete(key: string) {
+    await this.request('DELETE', key)
+  }
+
+  private async request(
+    method: 'PUT' | 'DELETE',
+    key: string,
+    data?: Buffer,
+    headers: Record<string, string> = {},
+  ) {
+    const url = this.getObjectUrl(key)
+    const signed = signS3Request({
+      method,
+      url,
+      headers,
+      payloadHash: sha256(data ?? ''),
+      region: this.options.region || 'us-east-1',
+      accessKeyId: this.options.accessKeyId,
+      secretAccessKey: this.options.secretAccessKey,
+    })
+    await this.http
+      .request({
+        method,
+        url: url.toString(),
+        data,
+        headers: signed,
+        timeout: 60 * 1000,
+        maxBodyLength: Infinity,
+        maxContentLength: Infinity,
+      })
+      .toPromise()
+  }
+}
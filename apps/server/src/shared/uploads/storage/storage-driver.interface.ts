@@ -0,0 +1,12 @@
+export interface StorageDriver {
+  readonly name: string
+  /**
+   * 保存文件, 返回可以公开访问的地址, 本地存储返回 null
+   */
+  put(key: string, data: Buffer, mime: string): Promise<string | null>
+  delete(key: string): Promise<void>
+  /**
+   * 文件对应的地址, 无法预先知道时返回 null
+   */
+  getUrl(key: string): string | null
+}
@@ -0,0 +1,27 @@
+import { HttpService } from '@nestjs/common'
+import { ImageBedDto } from 'shared/global/configs/configs.dto'
+import { GithubStorageDriver } from './github.driver'
+import { S3StorageDriver } from './s3.driver'
+import { StorageDriver } from './storage-driver.interface'
+
+/**
+ * 根据图床配置创建远程存储, 只保存在本地时返回 null
+ *
+ * 迁移脚本也会用到, 这里只能引用相对路径
+ */
+export function createStorageDriver(
+  options: ImageBedDto = {} as ImageBedDto,
+  http: HttpService,
+): StorageDriver | null {
+  // 旧的配置没有 type, 填写了仓库时使用 GitHub
+  const type =
+    options.type ?? (options.token && options.repo ? 'github' : 'local')
+  switch (type) {
+    case 'github':
+      return new GithubStorageDriver(options)
+    case 's3':
+      return options.s3 ? new S3StorageDriver(options.s3, http) : null
+    default:
+      return null
+  }
+}
@@ -0,0 +1,79 @@
+import {
+  File,
+  FileLocate,
+  FileType,
+  getFileType,
+} from '@libs/db/models/file.model'
+import { HttpService, Injectable } from '@nestjs/common'
+import { ReturnModelType } from '@typegoose/typegoose'
+import { InjectModel } from 'nestjs-typegoose'
+import { plural } from 'pluralize'
+import { ConfigsService } from 'shared/global'
+import { createStorageDriver } from './storage.factory'
+import { StorageDriver } from './storage-driver.interface'
+
+/**
+ * 文件在存储中的路径, 和本地上传目录下的相对路径一致
+ */
+export const getStorageKey = (type: FileType, name: string) =>
+  `${plural(getFileType(type))}/${name}`
+
+@Injectable()
+export class StorageService {
+  private cached: { config: string; driver: StorageDriver | null }
+
+  constructor(
+    @InjectModel(File) private readonly model: ReturnModelType<typeof File>,
+    private readonly configs: ConfigsService,
+    private readonly http: HttpService,
+  ) {}
+
+  /**
+   * 当前配置的远程存储, 配置变化后重新创建
+   */
+  get remote() {
+    const config = JSON.stringify(this.configs.imageBed ?? {})
+    if (this.cached?.config !== config) {
+      this.cached = {
+        config,
+        driver: createStorageDriver(this.configs.imageBed, this.http),
+      }
+    }
+    return this.cached.driver
+  }
+
+  /**
+   * 上传到远程存储并标记为 Online, 没有配置远程存储时返回 null
+   */
+  async upload(doc: Pick<File, 'name' | 'type' | 'mime'>, data: Buffer) {
+    const driver = this.remote
+    if (!driver) {
+      return null
+    }
+    const url = await driver.put(
+      getStorageKey(doc.type, doc.name),
+      data,
+      doc.mime,
+    )
+    await this.model.updateOne(
+      { name: doc.name, type: doc.type },
+      { locate: FileLocate.Online, url },
+    )
+    return url
+  }
+
+  /**
+   * 只删除由当前远程存储生成的地址, 配置更换过时保留原来的文件
+   */
+  async remove(doc: Pick<File, 'name' | 'type' | 'locate' | 'url'>) {
+    const driver = this.remote
+    if (doc.locate !== FileLocate.Online || !driver) {
+      return
+    }
+    const key = getStorageKey(doc.type, doc.name)
+    if (driver.getUrl(key) !== doc.url) {
+      return
+    }
+    await driver.delete(key)
+  }
+}
@@ -7,15 +7,12 @@
  * @Coding with Love
  */
 
-import {
-  FileLocate,
-  FileType,
-  getEnumFromType,
-} from '@libs/db/models/file.model'
+import { FileType, getEnumFromType } from '@libs/db/models/file.model'
 import {
   Controller,
   Delete,
   Get,
+  Headers,
   Param,
   Post,
   Query,
@@ -29,7 +26,8 @@ import { ApplyUpload } from 'shared/core/decorators/file.decorator'
 import { CannotFindException } from 'shared/core/exceptions/cant-find.exception'
 import { UploadsService } from 'apps/server/src/shared/uploads/uploads.service'
 import { MongoIdDto } from '../base/dto/id.dto'
-import { FileTypeQueryDto } from './dto/filetype.dto'
+import { FileTypeQueryDto, UploadQueryDto } from './dto/filetype.dto'
+import { ImageVariantQueryDto } from './dto/image.dto'
 
 @Controller('uploads')
 @ApiTags('File Routes')
@@ -41,21 +39,36 @@ export class UploadsController {
   @Auth()
   async uploadImage(
     @Req() req: FastifyRequest,
-    @Query() query: FileTypeQueryDto,
+    @Query() query: UploadQueryDto,
   ) {
-    const { type = FileType.IMAGE } = query
+    const { type = FileType.IMAGE, keepGps } = query
     const file = await this.service.validImage(req)
     const data = await this.service.saveImage(
       { data: await file.toBuffer(), filename: file.filename },
       type,
+      keepGps,
     )
     return { ...data }
   }
 
+  @Post('file')
+  @ApplyUpload({ description: 'Upload music, videos and attachments' })
+  @Auth()
+  async uploadFile(
+    @Req() req: FastifyRequest,
+    @Query() query: FileTypeQueryDto,
+  ) {
+    const { type = FileType.FILE } = query
+    return await this.service.saveFile(req, type)
+  }
+
   @Get(':type/:hashname')
   async getImage(
     @Param('hashname') name: string,
     @Param('type') _type: string,
+    @Query() query: ImageVariantQueryDto,
+    @Headers('accept') accept: string,
+    @Headers('range') range: string,
     @Res() res: FastifyReply,
   ) {
     const type = getEnumFromType(_type.toUpperCase() as keyof typeof FileType)
@@ -63,15 +76,51 @@ export class UploadsController {
       throw new CannotFindException()
     }
 
-    const { buffer, mime, url, locate } = await this.service.checkFileExist(
-      name,
-      type,
-    )
-    if (locate === FileLocate.Online && url) {
-      return res.redirect(302, url)
+    if (query.w || query.format) {
+      const variant = await this.service.getImageVariant(
+        name,
+        type,
+        query,
+        accept,
+      )
+      if (variant) {
+        if (variant.negotiated) {
+          res.header('Vary', 'Accept')
+        }
+        return res.type(variant.mime).send(variant.buffer)
+      }
     }
-    const stream = this.service.getReadableStream(buffer)
-    res.type(mime).send(stream)
+
+    const file = await this.service.openFile(name, type, range)
+    if ('url' in file) {
+      return res.redirect(302, file.url)
+    }
+    res
+      .type(file.mime)
+      .header('Accept-Ranges', 'bytes')
+      .header('X-Content-Type-Options', 'nosniff')
+    if (type === FileType.FILE) {
+      res.header(
+        'Content-Disposition',
+        `inline; filename*=UTF-8''${encodeURIComponent(file.filename)}`,
+      )
+    }
+    if (file.unsatisfiable) {
+      return res
+        .status(416)
+        .header('Content-Range', `bytes */${file.size}`)
+        .send()
+    }
+    if (file.range) {
+      const { start, end } = file.range
+      res
+        .status(206)
+        .header('Content-Range', `bytes ${start}-${end}/${file.size}`)
+        .header('Content-Length', end - start + 1)
+    } else {
+      res.header('Content-Length', file.size)
+    }
+    res.send(file.stream)
   }
 
   @Get('image/info/:hashname')
@@ -93,4 +142,15 @@ export class UploadsController {
   async getFilesList(@Query() query: FileTypeQueryDto) {
     return await this.service.findFiles(query.type)
   }
+
+  @Auth()
+  @Get('gc')
+  async getGcReport() {
+    return await this.service.collectGarbage({ dryRun: true })
+  }
+  @Auth()
+  @Post('gc')
+  async collectGarbage() {
+    return await this.service.collectGarbage({ dryRun: false })
+  }
 }
@@ -8,13 +8,20 @@
  */
 
 import { Module } from '@nestjs/common'
+import { FileReferenceService } from './file-reference.service'
 import { ImageService } from './image.service'
+import { StorageService } from './storage/storage.service'
 import { UploadsController } from './uploads.controller'
 import { UploadsService } from './uploads.service'
 
 @Module({
-  providers: [ImageService, UploadsService],
+  providers: [
+    FileReferenceService,
+    ImageService,
+    StorageService,
+    UploadsService,
+  ],
   controllers: [UploadsController],
-  exports: [ImageService, UploadsService],
+  exports: [ImageService, StorageService, UploadsService],
 })
 export class UploadsModule {}
@@ -1,4 +1,5 @@
 import {
+  Dimensions,
   File,
   FileLocate,
   FileType,
@@ -6,35 +7,150 @@ import {
 } from '@libs/db/models/file.model'
 import {
   BadRequestException,
+  Logger,
   NotFoundException,
+  PayloadTooLargeException,
   UnprocessableEntityException,
 } from '@nestjs/common'
 import { ReturnModelType } from '@typegoose/typegoose'
 import * as crypto from 'crypto'
 import { FastifyRequest } from 'fastify'
-import { fromBuffer } from 'file-type'
-import { existsSync, readFileSync, unlinkSync, writeFileSync } from 'fs'
+import { fromBuffer, fromFile } from 'file-type'
+import {
+  createReadStream,
+  createWriteStream,
+  existsSync,
+  readdirSync,
+  readFileSync,
+  unlinkSync,
+  writeFileSync,
+} from 'fs'
+import { readdir, stat, unlink } from 'fs/promises'
 import { imageSize } from 'image-size'
 import * as mkdirp from 'mkdirp'
 import { InjectModel } from 'nestjs-typegoose'
-import { join } from 'path'
+import { dirname, join } from 'path'
 import { plural } from 'pluralize'
+import * as sharp from 'sharp'
 import { DATA_DIR } from 'shared/constants'
 import { CannotFindException } from 'shared/core/exceptions/cant-find.exception'
+import { ConfigsService } from 'shared/global'
 import { isDev } from 'shared/utils'
-import { Readable } from 'stream'
-import { ConfigsService } from '../../../../../shared/global/configs/configs.service'
+import { pipeline, Readable, Transform } from 'stream'
+import { promisify } from 'util'
+import { ImageFormat, ImageVariantQueryDto } from './dto/image.dto'
+import { readExif, stripGps } from './exif.util'
+import {
+  FileReferenceService,
+  TRACKED_FILE_TYPES,
+} from './file-reference.service'
 import { ImageService } from './image.service'
+import { parseRange, readMediaInfo } from './media.util'
+import { LocalStorageDriver } from './storage/local.driver'
+import { getStorageKey, StorageService } from './storage/storage.service'
+
+type VariantFormat = Exclude<ImageFormat, ImageFormat.Auto>
+
+/** 请求的宽度向上取整到这些值, 避免生成过多的缓存 */
+const VARIANT_WIDTHS = [64, 128, 256, 384, 640, 828, 1080, 1280, 1920, 3840]
+
+/** GIF 和 SVG 等格式不做转换, 直接返回原图 */
+const TRANSFORMABLE_MIMES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/avif',
+  'image/tiff',
+]
+
+const MB = 1024 * 1024
+
+/** 非图片文件的大小限制和允许的类型, 类型以文件内容检测的结果为准 */
+const FILE_RULES: Partial<
+  Record<FileType, { maxSize: number; mimes: string[] }>
+> = {
+  [FileType.MUSIC]: {
+    maxSize: 50 * MB,
+    mimes: [
+      'audio/mpeg',
+      'audio/mp4',
+      'audio/x-m4a',
+      'audio/aac',
+      'audio/ogg',
+      'audio/opus',
+      'audio/vnd.wave',
+      'audio/wav',
+      'audio/x-flac',
+      'audio/flac',
+      'audio/webm',
+      // file-type 会把 webm 音频识别为视频
+      'video/webm',
+    ],
+  },
+  [FileType.VIDEO]: {
+    maxSize: 500 * MB,
+    mimes: [
+      'video/mp4',
+      'video/webm',
+      'video/ogg',
+      'video/quicktime',
+      'video/x-matroska',
+    ],
+  },
+  [FileType.FILE]: {
+    maxSize: 100 * MB,
+    mimes: [
+      'application/pdf',
+      'application/zip',
+      'application/gzip',
+      'application/x-tar',
+      'application/x-7z-compressed',
+      'application/epub+zip',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+      // 纯文本无法从内容检测, 使用上传时声明的类型
+      'text/plain',
+      'text/markdown',
+      'text/csv',
+      'application/json',
+    ],
+  },
+}
+
+const pipelineAsync = promisify(pipeline)
+
+/** 上传中断留下的临时文件, 超过这个时间才清理 */
+const STALE_UPLOAD_MS = 1000 * 60 * 60 * 24
+
+interface GcFileItem {
+  id: string
+  type: FileType
+  name: string
+  filename: string
+  created?: Date
+}
+
+export interface UploadsGcReport {
+  dryRun: boolean
+  /** 磁盘上有, 数据库中没有记录的文件, 路径相对于上传目录 */
+  orphans: { path: string; size: number }[]
+  /** 数据库中有记录, 磁盘上已经丢失的文件 */
+  missing: GcFileItem[]
+  /** 超过保留期仍没有被引用的文件 */
+  unreferenced: (GcFileItem & { size?: number })[]
+}
 
 // @Injectable({ scope: Scope.REQUEST })
 export class UploadsService {
-  // TODO sync file between db and disk
-  // private readonly imageService: ImageService
+  private readonly logger = new Logger(UploadsService.name)
   constructor(
     @InjectModel(File) private readonly model: ReturnModelType<typeof File>,
-    private readonly configs: ConfigsService, // private readonly imageService: ImageService,
+    private readonly imageService: ImageService,
+    private readonly storageService: StorageService,
+    private readonly referenceService: FileReferenceService,
+    private readonly configs: ConfigsService,
   ) {
-    // this.imageService = new ImageService(model, configs)
     this.initDirectory()
   }
 
@@ -43,8 +159,14 @@ export class UploadsService {
     : join(DATA_DIR, '/uploads')
   public rootPath = UploadsService.rootPath
 
-  public async validMultipartField(req: FastifyRequest) {
-    const data = await req.file()
+  /** 原图始终保存在本地, 配置了远程存储时再上传一份 */
+  private readonly local = new LocalStorageDriver(UploadsService.rootPath)
+
+  /** 正在生成的图片变体, 以缓存路径为键 */
+  private readonly pendingVariants = new Map<string, Promise<Buffer>>()
+
+  public async validMultipartField(req: FastifyRequest, fileSize?: number) {
+    const data = await req.file(fileSize ? { limits: { fileSize } } : undefined)
 
     if (!data) {
       throw new BadRequestException('仅供上传文件!')
@@ -69,44 +191,160 @@ export class UploadsService {
   async saveImage(
     fileInfo: { data: Buffer; filename: string },
     type = FileType.IMAGE,
+    keepGps = false,
   ) {
-    const { data, filename } = fileInfo
+    if (FILE_RULES[type]) {
+      throw new UnprocessableEntityException('音频, 视频和附件请使用文件上传')
+    }
+    const { filename } = fileInfo
+    let { data } = fileInfo
     const { ext, mime } = await fromBuffer(data)
 
-    const hashFilename = crypto.createHash('md5').update(filename).digest('hex')
+    const exif = await readExif(data)
+    let gpsStripped = false
+    if (exif?.gps && !keepGps) {
+      data = await stripGps(data, mime)
+      if (!data) {
+        throw new UnprocessableEntityException(
+          '无法去除图片中的位置信息, 请先自行处理或选择保留',
+        )
+      }
+      gpsStripped = true
+    }
+
+    // 以内容命名, 内容相同的图片只存一份
+    const hashFilename = crypto.createHash('sha256').update(data).digest('hex')
     const dimensions = imageSize(data)
-    await this.model.updateOne(
-      { name: hashFilename },
-      {
-        filename,
-        name: hashFilename,
-        dimensions,
-        mime,
-        type,
-      } as File,
-      { upsert: true },
-    )
+    const doc = await this.upsertFile(type, hashFilename, {
+      filename,
+      dimensions: dimensions as Dimensions,
+      mime,
+      info: exif ? { exif, gpsStripped } : undefined,
+    })
 
-    const path = join(`${this.getType2Path(type)}`, hashFilename)
-    if (!existsSync(path)) {
-      writeFileSync(path, data)
-      // FIXME image service bug
+    const key = getStorageKey(type, doc.name)
+    if (!this.local.exists(key)) {
+      await this.local.put(key, data)
       // note: uploads not include avatar type
       if (type !== FileType.AVATAR) {
-        new Promise((resolve) => {
-          const imageService = new ImageService(this.model, this.configs)
-          imageService.syncToImageBed([{ path, name: hashFilename }])
-          resolve(null)
-          // TODO image upload successful callback event to gateway
-        })
+        this.imageService.syncToImageBed([
+          { path: this.local.getPath(key), name: doc.name, type },
+        ])
+        // TODO image upload successful callback event to gateway
+      }
+    }
+    return { ext, mime, hashFilename: doc.name, filename: doc.filename }
+  }
+
+  /**
+   * 保存音频, 视频和附件, 边接收边写入临时文件并计算 hash
+   */
+  async saveFile(req: FastifyRequest, type: FileType) {
+    const rule = FILE_RULES[type]
+    if (!rule) {
+      throw new UnprocessableEntityException('图片请使用图片上传')
+    }
+    const file = await this.validMultipartField(req, rule.maxSize)
+    // 和上传目录在同一个文件系统中, 完成后直接移动
+    const tmpPath = join(
+      this.getType2Path(type),
+      `.${crypto.randomBytes(8).toString('hex')}.uploading`,
+    )
+    const hash = crypto.createHash('sha256')
+    try {
+      await pipelineAsync(
+        file.file,
+        new Transform({
+          transform(chunk, _, callback) {
+            hash.update(chunk)
+            callback(null, chunk)
+          },
+        }),
+        createWriteStream(tmpPath),
+      )
+      if ((file.file as any).truncated) {
+        throw new PayloadTooLargeException(
+          `文件不能超过 ${rule.maxSize / MB}MB`,
+        )
       }
+      const detected = await fromFile(tmpPath)
+      const mime = detected?.mime ?? file.mimetype
+      if (!rule.mimes.includes(mime)) {
+        throw new UnprocessableEntityException(`不支持的文件类型 ${mime}`)
+      }
+
+      const { size } = await stat(tmpPath)
+      const media = type === FileType.FILE ? null : await readMediaInfo(tmpPath)
+      const doc = await this.upsertFile(type, hash.digest('hex'), {
+        filename: file.filename,
+        mime,
+        info: { ...media, size },
+      })
+      const key = getStorageKey(type, doc.name)
+      if (!this.local.exists(key)) {
+        await this.local.move(key, tmpPath)
+      }
+      return {
+        ext: detected?.ext,
+        mime,
+        hashFilename: doc.name,
+        filename: doc.filename,
+      }
+    } finally {
+      await unlink(tmpPath).catch(() => null)
+    }
+  }
+
+  /**
+   * 以内容的 hash 命名, 同一类型下内容相同的文件只存一份
+   */
+  private async upsertFile(
+    type: FileType,
+    hash: string,
+    fields: Partial<File>,
+  ) {
+    return await this.model.findOneAndUpdate(
+      { hash, type },
+      { $setOnInsert: { ...fields, name: hash, hash, type } },
+      { upsert: true, new: true, omitUndefined: true },
+    )
+  }
+
+  /**
+   * 本地文件的读取流, 支持 Range 请求, 远程存储的文件返回地址
+   */
+  async openFile(name: string, type: FileType, range?: string) {
+    const doc = await this.model.findOne({ name, type } as File).lean()
+    if (!doc) {
+      throw new CannotFindException()
+    }
+    const { mime, locate, url, filename } = doc
+    if (locate === FileLocate.Online && url) {
+      return { url }
+    }
+    const path = this.local.getPath(getStorageKey(type, name))
+    let size: number
+    try {
+      size = (await stat(path)).size
+    } catch {
+      // 记录留给 collectGarbage 统一处理
+      throw new NotFoundException('文件已丢失')
+    }
+    const parsed = parseRange(range, size)
+    if (parsed === false) {
+      return { mime, filename, size, unsatisfiable: true }
+    }
+    return {
+      mime,
+      filename,
+      size,
+      range: parsed,
+      stream: createReadStream(path, parsed || undefined),
     }
-    return { ext, mime, hashFilename, filename }
   }
 
   async checkFileExist(_name: string, type: FileType) {
     const doc = await this.model.findOne({ name: _name, type } as File)
-    const postfix = this.getType2Path(type, false)
     if (!doc) {
       throw new CannotFindException()
     }
@@ -115,31 +353,129 @@ export class UploadsService {
       return { url, mime, locate }
     }
     try {
-      const buffer = readFileSync(join(this.rootPath, postfix, name))
+      const buffer = await this.local.get(getStorageKey(type, name))
 
       return {
         buffer,
         mime,
       }
     } catch {
-      await doc.remove()
       throw new NotFoundException('文件已丢失')
     }
   }
 
   async getImageInfo(name: string, type: FileType) {
     const { mime, buffer } = await this.checkFileExist(name, type)
+    // 位置信息只在后台的文件列表中可见
+    const doc = await this.model
+      .findOne({ name, type } as File)
+      .select('-info.exif.gps')
     if (buffer) {
       const fType = await fromBuffer(buffer)
       const size = imageSize(buffer)
 
-      return { mime, type: fType, size }
+      return { mime, type: fType, size, exif: doc?.info?.exif }
     } else {
-      const doc = await this.model.findOne({ name, type } as File)
       return doc
     }
   }
 
+  /**
+   * 生成指定宽度和格式的图片, 缓存在原图目录的 variants 下
+   *
+   * 上传到远程存储的图片本地通常还留有原图, 用本地原图生成;
+   * 不能转换或原图只在远程存储的图片返回 null, 由调用方返回原图
+   */
+  async getImageVariant(
+    name: string,
+    type: FileType,
+    query: ImageVariantQueryDto,
+    accept = '',
+  ) {
+    const doc = await this.model.findOne({ name, type } as File).lean()
+    if (!doc || !TRANSFORMABLE_MIMES.includes(doc.mime)) {
+      return null
+    }
+    const negotiated = !query.format || query.format === ImageFormat.Auto
+    const format = negotiated
+      ? this.negotiateFormat(accept, doc.mime)
+      : (query.format as VariantFormat)
+    const width = this.resolveVariantWidth(query.w, doc.dimensions?.width)
+    const mime = `image/${format}`
+
+    const path = join(
+      this.getVariantPath(type),
+      `${name}_${width ? `w${width}` : 'full'}.${format}`,
+    )
+    if (existsSync(path)) {
+      return { buffer: readFileSync(path), mime, negotiated }
+    }
+    const key = getStorageKey(type, name)
+    if (!this.local.exists(key)) {
+      return null
+    }
+    const originalPath = this.local.getPath(key)
+    // 同一个变体同时被请求多次时只生成一次
+    if (!this.pendingVariants.has(path)) {
+      this.pendingVariants.set(
+        path,
+        this.createVariant(originalPath, path, width, format).finally(() =>
+          this.pendingVariants.delete(path),
+        ),
+      )
+    }
+    const buffer = await this.pendingVariants.get(path)
+    return { buffer, mime, negotiated }
+  }
+
+  private async createVariant(
+    originalPath: string,
+    path: string,
+    width: number | undefined,
+    format: VariantFormat,
+  ) {
+    // rotate() 按 EXIF 中的方向摆正
+    const image = sharp(readFileSync(originalPath)).rotate()
+    if (width) {
+      image.resize({ width, withoutEnlargement: true })
+    }
+    const buffer = await image.toFormat(format, { quality: 80 }).toBuffer()
+    mkdirp.sync(dirname(path))
+    writeFileSync(path, buffer)
+    return buffer
+  }
+
+  /**
+   * 优先 AVIF, 其次 WebP, 都不支持时保持原图的格式
+   */
+  private negotiateFormat(accept: string, mime: string) {
+    const accepted = accept.toLowerCase()
+    if (accepted.includes('image/avif')) {
+      return ImageFormat.Avif
+    }
+    if (accepted.includes('image/webp')) {
+      return ImageFormat.WebP
+    }
+    return mime === 'image/png' ? ImageFormat.Png : ImageFormat.Jpeg
+  }
+
+  /**
+   * 不放大图片, 取整后不小于原图宽度时返回 undefined
+   */
+  private resolveVariantWidth(width?: number, originalWidth?: number) {
+    if (!width) {
+      return undefined
+    }
+    const resolved =
+      VARIANT_WIDTHS.find((item) => item >= width) ??
+      VARIANT_WIDTHS[VARIANT_WIDTHS.length - 1]
+    return originalWidth && resolved >= originalWidth ? undefined : resolved
+  }
+
+  private getVariantPath(type: FileType) {
+    return join(this.getType2Path(type), 'variants')
+  }
+
   getReadableStream(buffer: Buffer): Readable {
     const stream = new Readable()
 
@@ -157,12 +493,140 @@ export class UploadsService {
     const { type, name } = doc
 
     await this.model.deleteOne({ _id: id })
-    try {
-      unlinkSync(join(this.getType2Path(type as FileType), name))
-    } catch {}
+    await this.local.delete(getStorageKey(type, name))
+    this.deleteVariants(name, type)
+    this.storageService.remove(doc).catch((err) => {
+      this.logger.warn(`--> 删除远程存储中的文件失败: ${name} ${err}`)
+    })
     return 'OK'
   }
 
+  private deleteVariants(name: string, type: FileType) {
+    const dir = this.getVariantPath(type)
+    if (!existsSync(dir)) {
+      return
+    }
+    readdirSync(dir)
+      .filter((file) => file.startsWith(`${name}_`))
+      .forEach((file) => {
+        try {
+          unlinkSync(join(dir, file))
+        } catch {}
+      })
+  }
+
+  /**
+   * 对比数据库和磁盘, 找出孤立的文件, 丢失的文件和没有被引用的文件
+   *
+   * dryRun 时只返回报告, 否则删除报告中的文件和记录
+   */
+  async collectGarbage({
+    dryRun = true,
+    graceDays = this.configs.get('uploadsGcOptions')?.graceDays ?? 7,
+  }: { dryRun?: boolean; graceDays?: number } = {}) {
+    const docs = await this.model
+      .find()
+      .select('name filename type locate url info.size created')
+      .lean()
+    const report: UploadsGcReport = {
+      dryRun,
+      orphans: [],
+      missing: [],
+      unreferenced: [],
+    }
+
+    const types = Object.values(FileType).filter(
+      (type): type is FileType => typeof type === 'number',
+    )
+    for (const type of types) {
+      const names = new Set(
+        docs.filter((doc) => doc.type === type).map((doc) => doc.name),
+      )
+      report.orphans.push(...(await this.findOrphans(type, names)))
+    }
+
+    const references = await this.referenceService.collect()
+    const expired = Date.now() - graceDays * 1000 * 60 * 60 * 24
+    for (const doc of docs) {
+      const item: GcFileItem = {
+        id: String(doc._id),
+        type: doc.type,
+        name: doc.name,
+        filename: doc.filename,
+        created: doc.created,
+      }
+      if (
+        doc.locate !== FileLocate.Online &&
+        !this.local.exists(getStorageKey(doc.type, doc.name))
+      ) {
+        report.missing.push(item)
+      } else if (
+        TRACKED_FILE_TYPES.includes(doc.type) &&
+        doc.created?.getTime() < expired &&
+        !this.referenceService.isReferenced(references, doc)
+      ) {
+        report.unreferenced.push({ ...item, size: doc.info?.size })
+      }
+    }
+
+    if (dryRun) {
+      return report
+    }
+    for (const { path } of report.orphans) {
+      await unlink(join(this.rootPath, path)).catch(() => null)
+    }
+    for (const { id, name, type } of report.missing) {
+      await this.model.deleteOne({ _id: id })
+      this.deleteVariants(name, type)
+    }
+    for (const { id } of report.unreferenced) {
+      await this.deleteFile(id).catch((err) => {
+        this.logger.warn(`--> 清理文件失败: ${id} ${err}`)
+      })
+    }
+    return report
+  }
+
+  /**
+   * 类型目录下没有记录的文件, 包括原图已经删除的图片变体和中断的上传
+   */
+  private async findOrphans(type: FileType, names: Set<string>) {
+    const dir = this.getType2Path(type, false)
+    const list = (path: string) =>
+      readdir(join(this.rootPath, path)).catch(() => [] as string[])
+
+    const candidates: string[] = []
+    for (const entry of await list(dir)) {
+      if (entry === 'variants') {
+        // 变体以 `${name}_` 开头
+        for (const variant of await list(join(dir, entry))) {
+          if (!names.has(variant.slice(0, variant.lastIndexOf('_')))) {
+            candidates.push(join(dir, entry, variant))
+          }
+        }
+      } else if (entry.endsWith('.uploading') || !names.has(entry)) {
+        candidates.push(join(dir, entry))
+      }
+    }
+
+    const orphans: UploadsGcReport['orphans'] = []
+    for (const path of candidates) {
+      const stats = await stat(join(this.rootPath, path)).catch(() => null)
+      if (!stats?.isFile()) {
+        continue
+      }
+      // 可能还在上传中
+      if (
+        path.endsWith('.uploading') &&
+        Date.now() - stats.mtimeMs < STALE_UPLOAD_MS
+      ) {
+        continue
+      }
+      orphans.push({ path, size: stats.size })
+    }
+    return orphans
+  }
+
   private getType2Path(type: FileType, includeRootPath = true) {
     const ft = getFileType(type)
     return includeRootPath ? join(this.rootPath, plural(ft)) : plural(ft)
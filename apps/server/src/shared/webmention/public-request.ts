@@ -0,0 +1,75 @@
+import { HttpService } from '@nestjs/common'
+import { AxiosRequestConfig } from 'axios'
+import { lookup, LookupAddress, LookupOptions } from 'dns'
+import * as http from 'http'
+import * as https from 'https'
+import { isPrivateHost } from './webmention.util'
+
+/**
+ * 解析域名后检查每个地址, 域名指向内网时连接失败
+ */
+function publicLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (...args: any[]) => void,
+) {
+  lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) {
+      return callback(err)
+    }
+    const list = addresses as LookupAddress[]
+    const blocked = list.find(({ address }) => isPrivateHost(address))
+    if (blocked || !list.length) {
+      return callback(new Error(`${hostname} 指向内网地址 ${blocked?.address}`))
+    }
+    if (options.all) {
+      return callback(null, list)
+    }
+    callback(null, list[0].address, list[0].family)
+  })
+}
+
+const PUBLIC_REQUEST_CONFIG: AxiosRequestConfig = {
+  httpAgent: new http.Agent({ lookup: publicLookup } as http.AgentOptions),
+  httpsAgent: new https.Agent({ lookup: publicLookup } as https.AgentOptions),
+  // 走代理时检查的是代理的地址
+  proxy: false,
+  maxRedirects: 0,
+}
+
+const REDIRECT_STATUS = [301, 302, 303, 307, 308]
+
+/**
+ * 只请求公网地址, 重定向时每一跳都重新检查
+ *
+ * 返回响应和跟随重定向之后的地址
+ */
+export async function requestPublic(
+  http: HttpService,
+  config: AxiosRequestConfig & { url: string },
+  maxRedirects = 5,
+) {
+  let url = config.url
+  for (let hop = 0; ; hop++) {
+    const { protocol, hostname } = new URL(url)
+    if (!['http:', 'https:'].includes(protocol) || isPrivateHost(hostname)) {
+      throw new Error(`不能请求内网地址: ${url}`)
+    }
+    const res = await http
+      .request({
+        ...config,
+        ...PUBLIC_REQUEST_CONFIG,
+        url,
+        validateStatus: (status) =>
+          (status >= 200 && status < 300) || REDIRECT_STATUS.includes(status),
+      })
+      .toPromise()
+    if (!REDIRECT_STATUS.includes(res.status)) {
+      return { res, url }
+    }
+    if (hop >= maxRedirects || !res.headers.location) {
+      throw new Error(`重定向次数过多: ${config.url}`)
+    }
+    url = new URL(res.headers.location, url).toString()
+  }
+}
@@ -0,0 +1,65 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common'
+import { ApiOperation, ApiTags } from '@nestjs/swagger'
+import { Auth } from 'shared/core/decorators/auth.decorator'
+import { IpLocation, IpRecord } from 'shared/core/decorators/ip.decorator'
+import { MongoIdDto } from '../base/dto/id.dto'
+import { Pager } from '../comments/dto/pager.dto'
+import { StateDto } from '../comments/dto/state.dto'
+import { WebmentionDto } from './webmention.dto'
+import { WebmentionService } from './webmention.service'
+
+@Controller('webmention')
+@ApiTags('Webmention Routes')
+export class WebmentionController {
+  constructor(private readonly service: WebmentionService) {}
+
+  @Post()
+  @HttpCode(202)
+  @ApiOperation({ summary: '接收 Webmention, 验证在后台完成' })
+  async receive(@Body() body: WebmentionDto, @IpLocation() location: IpRecord) {
+    return await this.service.receive(body.source, body.target, location.ip)
+  }
+
+  @Get()
+  @Auth()
+  @ApiOperation({ summary: '获取收到的 Webmention' })
+  async getMentions(@Query() query: Pager) {
+    const { size = 10, page = 1, state = 0 } = query
+    return await this.service.findWithPaginator(
+      { state },
+      {
+        limit: size,
+        skip: (page - 1) * size,
+        populate: [{ path: 'ref', select: 'title _id slug nid' }],
+        sort: { created: -1 },
+      },
+    )
+  }
+
+  @Patch(':id')
+  @Auth()
+  @ApiOperation({ summary: '修改 Webmention 的状态' })
+  async modifyState(@Param() params: MongoIdDto, @Body() body: StateDto) {
+    return await this.service.updateAsync(
+      { _id: params.id },
+      { state: body.state },
+    )
+  }
+
+  @Delete(':id')
+  @Auth()
+  async deleteMention(@Param() params: MongoIdDto) {
+    await this.service.deleteOneAsync({ _id: params.id })
+    return
+  }
+}
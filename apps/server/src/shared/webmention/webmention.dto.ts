@@ -0,0 +1,17 @@
+import { ApiProperty } from '@nestjs/swagger'
+import { IsNotEmpty, IsString } from 'class-validator'
+
+/**
+ * 按规范以 application/x-www-form-urlencoded 提交, 地址在 service 中校验
+ */
+export class WebmentionDto {
+  @IsString()
+  @IsNotEmpty()
+  @ApiProperty({ example: 'https://example.com/a-post-mentions-you' })
+  source: string
+
+  @IsString()
+  @IsNotEmpty()
+  @ApiProperty({ example: 'https://innei.ren/notes/1' })
+  target: string
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common'
+import { CommentsModule } from '../comments/comments.module'
+import { WebmentionController } from './webmention.controller'
+import { WebmentionService } from './webmention.service'
+
+@Module({
+  imports: [CommentsModule],
+  providers: [WebmentionService],
+  controllers: [WebmentionController],
+  exports: [WebmentionService],
+})
+export class WebmentionModule {}
@@ -0,0 +1,136 @@
+import { HttpService } from '@nestjs/common'
+import { createServer, IncomingMessage, Server } from 'http'
+import { AddressInfo } from 'net'
+import { WebmentionService } from './webmention.service'
+
+jest.mock('./webmention.util', () => ({
+  ...jest.requireActual<object>('./webmention.util'),
+  // 测试服务器在本机
+  isPrivateHost: () => false,
+}))
+// 发送时用不到, 避免加载 Redis, 配置和评论模块
+jest.mock('nestjs-redis', () => ({ RedisService: class {} }))
+jest.mock('shared/global', () => ({ ConfigsService: class {} }))
+jest.mock('../comments/comments.service', () => ({ CommentsService: class {} }))
+
+type Page = { status?: number; headers?: Record<string, string>; body?: string }
+
+type Received = { path: string; contentType: string; body: string }
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<string>((resolve) => {
+    let body = ''
+    req.on('data', (chunk) => (body += chunk))
+    req.on('end', () => resolve(body))
+  })
+
+describe('WebmentionService.send', () => {
+  let server: Server
+  let base: string
+  let pages: Record<string, Page>
+  let received: Received[]
+
+  const service = new WebmentionService(
+    null,
+    null,
+    null,
+    null,
+    new HttpService(),
+    null,
+    null,
+    null,
+  )
+  const source = 'https://example.com/posts/hello'
+
+  beforeAll((done) => {
+    server = createServer(async (req, res) => {
+      if (req.method === 'POST') {
+        received.push({
+          path: req.url,
+          contentType: req.headers['content-type'],
+          body: await readBody(req),
+        })
+        res.writeHead(202).end()
+        return
+      }
+      const page = pages[req.url]
+      if (!page) {
+        res.writeHead(404).end()
+        return
+      }
+      res
+        .writeHead(page.status ?? 200, {
+          'Content-Type': 'text/html',
+          ...page.headers,
+        })
+        .end(page.body ?? '')
+    }).listen(0, '127.0.0.1', () => {
+      base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+      done()
+    })
+  })
+
+  afterAll((done) => {
+    server.close(done)
+  })
+
+  beforeEach(() => {
+    pages = {}
+    received = []
+  })
+
+  it('should discover the endpoint from the Link header first', async () => {
+    pages['/target'] = {
+      headers: { Link: '</from-header>; rel="webmention"' },
+      body: '<link rel="webmention" href="/from-link">',
+    }
+    const result = await service.send(source, `${base}/target`)
+
+    expect(result).toEqual({ endpoint: `${base}/from-header`, status: 202 })
+    expect(received.map((item) => item.path)).toEqual(['/from-header'])
+  })
+
+  it('should discover the endpoint from <link> and <a>', async () => {
+    pages['/link'] = {
+      body: '<a href="/other">x</a><link rel="webmention" href="/from-link">',
+    }
+    pages['/a'] = {
+      body: '<a rel="nofollow webmention" href="/from-a">endpoint</a>',
+    }
+    await service.send(source, `${base}/link`)
+    await service.send(source, `${base}/a`)
+
+    expect(received.map((item) => item.path)).toEqual(['/from-link', '/from-a'])
+  })
+
+  it('should resolve relative endpoints against the final url', async () => {
+    pages['/old'] = { status: 301, headers: { Location: '/posts/new' } }
+    pages['/posts/new'] = {
+      body: '<link rel="webmention" href="endpoint?version=1">',
+    }
+    const result = await service.send(source, `${base}/old`)
+
+    expect(result.endpoint).toBe(`${base}/posts/endpoint?version=1`)
+    expect(received.map((item) => item.path)).toEqual([
+      '/posts/endpoint?version=1',
+    ])
+  })
+
+  it('should post source and target as a form', async () => {
+    pages['/target'] = { body: '<link rel="webmention" href="/endpoint">' }
+    await service.send(source, `${base}/target`)
+
+    const [{ contentType, body }] = received
+    expect(contentType).toBe('application/x-www-form-urlencoded')
+    const params = new URLSearchParams(body)
+    expect(params.get('source')).toBe(source)
+    expect(params.get('target')).toBe(`${base}/target`)
+  })
+
+  it('should return null without an endpoint', async () => {
+    pages['/target'] = { body: '<a href="/somewhere">link</a>' }
+
+    expect(await service.send(source, `${base}/target`)).toBeNull()
+    expect(received).toEqual([])
+  })
+})
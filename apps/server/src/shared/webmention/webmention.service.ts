@@ -0,0 +1,290 @@
+import Category from '@libs/db/models/category.model'
+import { CommentRefTypes, CommentState } from '@libs/db/models/comment.model'
+import Note from '@libs/db/models/note.model'
+import Page from '@libs/db/models/page.model'
+import Post from '@libs/db/models/post.model'
+import { Webmention } from '@libs/db/models/webmention.model'
+import { slidingWindowLimit } from '@libs/common/redis/rate-limit'
+import { RedisNames } from '@libs/common/redis/redis.types'
+import {
+  BadRequestException,
+  HttpService,
+  Injectable,
+  Logger,
+} from '@nestjs/common'
+import { ReturnModelType } from '@typegoose/typegoose'
+import { truncate } from 'lodash'
+import { RedisService } from 'nestjs-redis'
+import { InjectModel } from 'nestjs-typegoose'
+import { TooManyRequestsException } from 'shared/core/exceptions/too-many-requests.exception'
+import { ConfigsService } from 'shared/global'
+import { BaseService } from '../base/base.service'
+import { CommentsService } from '../comments/comments.service'
+import {
+  discoverEndpoint,
+  extractLinks,
+  findTags,
+  getMentionType,
+  isPrivateHost,
+  normalizeUrl,
+} from './webmention.util'
+import { requestPublic } from './public-request'
+
+type MentionRef = { ref: any; refType: CommentRefTypes }
+
+// 请求来源或目标页面时的限制
+const FETCH_OPTIONS = {
+  timeout: 10 * 1000,
+  maxContentLength: 1024 * 1024,
+  responseType: 'text' as const,
+  headers: { Accept: 'text/html, */*;q=0.5' },
+}
+
+/** 每个 IP 和来源域名在窗口 (秒) 内最多提交的次数 */
+const RECEIVE_RATE_LIMIT = { window: 60 * 10, ip: 20, source: 20 }
+
+@Injectable()
+export class WebmentionService extends BaseService<Webmention> {
+  private readonly logger = new Logger(WebmentionService.name)
+  constructor(
+    @InjectModel(Webmention)
+    private readonly model: ReturnModelType<typeof Webmention>,
+    @InjectModel(Post) private readonly postModel: ReturnModelType<typeof Post>,
+    @InjectModel(Note) private readonly noteModel: ReturnModelType<typeof Note>,
+    @InjectModel(Page) private readonly pageModel: ReturnModelType<typeof Page>,
+    private readonly http: HttpService,
+    private readonly configs: ConfigsService,
+    private readonly commentsService: CommentsService,
+    private readonly redisService: RedisService,
+  ) {
+    super(model)
+  }
+
+  /**
+   * 检查请求参数后立即返回, 来源页面在后台验证
+   */
+  async receive(source: string, target: string, ip?: string) {
+    const sourceUrl = normalizeUrl(source)
+    const targetUrl = normalizeUrl(target)
+    if (!sourceUrl || !targetUrl || sourceUrl === targetUrl) {
+      throw new BadRequestException('source 或 target 不是有效的地址')
+    }
+    if (isPrivateHost(new URL(sourceUrl).hostname)) {
+      throw new BadRequestException('source 不能是内网地址')
+    }
+    const ref = await this.resolveTarget(targetUrl)
+    if (!ref) {
+      throw new BadRequestException('target 不是本站的文章, 记录或页面')
+    }
+    await this.checkRateLimit(ip, new URL(sourceUrl).hostname)
+    process.nextTick(() => {
+      this.verify(sourceUrl, targetUrl, ref).catch((err) => {
+        this.logger.error(`--> 验证 Webmention 失败: ${sourceUrl} ${err}`)
+      })
+    })
+    return { source: sourceUrl, target: targetUrl }
+  }
+
+  /**
+   * 来源页面中仍然链接到 target 时保存或更新, 否则删除已有的记录
+   */
+  async verify(source: string, target: string, { ref, refType }: MentionRef) {
+    let html: string
+    try {
+      const { res } = await requestPublic(this.http, {
+        ...FETCH_OPTIONS,
+        url: source,
+      })
+      html = String(res.data)
+    } catch (err) {
+      // 来源页面已经删除
+      if ([404, 410].includes(err.response?.status)) {
+        await this.model.deleteOne({ source, target })
+        return null
+      }
+      throw err
+    }
+
+    const link = findTags(html, ['a', 'link', 'img', 'video', 'audio']).find(
+      (tag) =>
+        normalizeUrl(tag.attrs.href || tag.attrs.src || '', source) === target,
+    )
+    if (!link) {
+      await this.model.deleteOne({ source, target })
+      this.logger.warn(`--> Webmention 来源中没有链接: ${source}`)
+      return null
+    }
+
+    const meta = (name: string) =>
+      findTags(html, ['meta']).find(
+        (tag) => tag.attrs.name === name || tag.attrs.property === name,
+      )?.attrs.content
+    const title = html.match(/<title[^>]*>([^<]*)<\/title>/i)?.[1]?.trim()
+    const doc = await this.model.findOneAndUpdate(
+      { source, target },
+      {
+        $set: {
+          ref,
+          refType,
+          type: getMentionType(link),
+          title: meta('og:title') || title,
+          author: meta('author') || new URL(source).hostname,
+          content: truncate(meta('description') || meta('og:description'), {
+            length: 300,
+          }),
+          verified: new Date(),
+        },
+        $setOnInsert: { state: CommentState.Unread },
+      },
+      { upsert: true, new: true },
+    )
+    this.logger.log(`--> 收到 Webmention: ${source} -> ${target}`)
+    return doc
+  }
+
+  /**
+   * 文档页面中展示的引用, 不包括垃圾
+   */
+  async getMentionsByRef(ref: string) {
+    return await this.model
+      .find({ ref, state: { $ne: CommentState.Junk } })
+      .sort({ created: -1 })
+      .lean()
+  }
+
+  /**
+   * 发布或修改后调用, 通知文中链接到的外部页面
+   */
+  async sendForDocument(type: CommentRefTypes, id: any) {
+    try {
+      const doc = await this.findPublicDocument(type, String(id))
+      if (!doc) {
+        return
+      }
+      const source = this.commentsService.resolveUrlByType(type, doc)
+      const { host } = new URL(this.configs.get('url').webUrl)
+      const targets = extractLinks(doc.text).filter(
+        (url) => new URL(url).host !== host,
+      )
+      for (const target of targets) {
+        await this.send(source, target).catch((err) => {
+          this.logger.warn(`--> 发送 Webmention 失败: ${target} ${err}`)
+        })
+      }
+    } catch (err) {
+      this.logger.error(`--> 发送 Webmention 失败: ${type} ${id} ${err}`)
+    }
+  }
+
+  /**
+   * 找到 target 的 Webmention 端点并通知, 没有端点时返回 null
+   */
+  async send(source: string, target: string) {
+    // 跟随重定向之后的地址, 相对路径的端点以它为准
+    const { res, url: finalUrl } = await requestPublic(this.http, {
+      ...FETCH_OPTIONS,
+      url: target,
+    })
+    const endpoint = discoverEndpoint(
+      typeof res.data === 'string' ? res.data : '',
+      res.headers.link,
+      finalUrl,
+    )
+    if (!endpoint) {
+      return null
+    }
+    const {
+      res: { status },
+    } = await requestPublic(
+      this.http,
+      {
+        url: endpoint,
+        method: 'POST',
+        data: new URLSearchParams({ source, target }).toString(),
+        timeout: FETCH_OPTIONS.timeout,
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      },
+      0,
+    )
+    this.logger.log(`--> 已发送 Webmention: ${target} (${status})`)
+    return { endpoint, status }
+  }
+
+  private async checkRateLimit(ip: string | undefined, sourceHost: string) {
+    const { window, ...limits } = RECEIVE_RATE_LIMIT
+    const wait = await slidingWindowLimit(
+      this.redisService.getClient(RedisNames.WebmentionLimit),
+      [
+        ip && [`ip:${ip}`, limits.ip],
+        [`source:${sourceHost}`, limits.source],
+      ].filter(Boolean) as [string, number][],
+      window,
+    )
+    if (wait > 0) {
+      throw new TooManyRequestsException(Math.ceil(wait / 1000))
+    }
+  }
+
+  /**
+   * 根据地址找到对应的文档, 地址需要和 resolveUrlByType 生成的一致
+   */
+  private async resolveTarget(target: string): Promise<MentionRef | null> {
+    const url = new URL(target)
+    if (url.host !== new URL(this.configs.get('url').webUrl).host) {
+      return null
+    }
+    // 前端的文章地址可能带有 /posts 前缀
+    const pathname = url.pathname.replace(/^\/posts\//, '/')
+    const parts = pathname.split('/').filter(Boolean).map(decodeURIComponent)
+
+    let refType: CommentRefTypes
+    let doc: any
+    if (parts.length === 2 && parts[0] === 'notes') {
+      refType = CommentRefTypes.Note
+      doc = await this.noteModel.findOne({ nid: Number(parts[1]) }).lean()
+    } else if (parts.length === 2) {
+      refType = CommentRefTypes.Post
+      doc = await this.postModel
+        .findOne({ slug: parts[1] })
+        .populate('category', 'slug')
+        .lean()
+    } else if (parts.length === 1) {
+      refType = CommentRefTypes.Page
+      doc = await this.pageModel.findOne({ slug: parts[0] }).lean()
+    }
+    if (!doc || !(await this.findPublicDocument(refType, String(doc._id)))) {
+      return null
+    }
+    const resolved = new URL(
+      this.commentsService.resolveUrlByType(refType, doc),
+    )
+    return resolved.pathname === pathname ? { ref: doc._id, refType } : null
+  }
+
+  /**
+   * 隐藏, 加密和未到公开时间的内容不参与收发
+   */
+  private async findPublicDocument(type: CommentRefTypes, id: string) {
+    switch (type) {
+      case CommentRefTypes.Post: {
+        const doc = await this.postModel
+          .findOne({ _id: id, hide: false })
+          .populate('category', 'slug')
+          .lean()
+        return doc?.category ? (doc as Post & { category: Category }) : null
+      }
+      case CommentRefTypes.Note: {
+        const doc = await this.noteModel
+          .findOne({ _id: id, hide: false })
+          .select('+password')
+          .lean()
+        if (!doc || doc.password || (doc.secret && doc.secret > new Date())) {
+          return null
+        }
+        return doc
+      }
+      case CommentRefTypes.Page:
+        return await this.pageModel.findById(id).lean()
+    }
+  }
+}
@@ -0,0 +1,134 @@
+import { WebmentionTypes } from '@libs/db/models/webmention.model'
+import * as marked from 'marked'
+import { isIP } from 'net'
+
+export interface HtmlTag {
+  name: string
+  attrs: Record<string, string>
+}
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+
+/**
+ * 按文档顺序找出指定的标签, 只解析属性, 不处理嵌套
+ */
+export function findTags(html: string, names: string[]): HtmlTag[] {
+  const tags: HtmlTag[] = []
+  const tagRe = new RegExp(`<(${names.join('|')})\\b([^>]*)>`, 'gi')
+  const attrRe = /([^\s=/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g
+  for (const [, name, rest] of html.matchAll(tagRe)) {
+    const attrs: Record<string, string> = {}
+    for (const [, key, ...values] of rest.matchAll(attrRe)) {
+      attrs[key.toLowerCase()] = decodeEntities(
+        values.find((v) => v !== undefined) ?? '',
+      )
+    }
+    tags.push({ name: name.toLowerCase(), attrs })
+  }
+  return tags
+}
+
+/**
+ * 转成绝对地址并去掉 hash, 无效地址返回 null
+ */
+export function normalizeUrl(url: string, base?: string) {
+  try {
+    const parsed = new URL(url, base)
+    if (!['http:', 'https:'].includes(parsed.protocol)) {
+      return null
+    }
+    parsed.hash = ''
+    return parsed.toString()
+  } catch {
+    return null
+  }
+}
+
+const hasRel = (rel: string | undefined, value: string) =>
+  !!rel && rel.toLowerCase().split(/\s+/).includes(value)
+
+/**
+ * 依次从 Link 响应头, <link> 和 <a> 中找 rel="webmention" 的地址
+ *
+ * @see https://www.w3.org/TR/webmention/#sender-discovers-receiver-webmention-endpoint
+ */
+export function discoverEndpoint(
+  html: string,
+  linkHeader: string | string[] | undefined,
+  base: string,
+) {
+  const headers = Array.isArray(linkHeader) ? linkHeader : [linkHeader || '']
+  for (const header of headers) {
+    for (const [, href, params] of header.matchAll(/<([^>]*)>([^,]*)/g)) {
+      const rel = params.match(/rel\s*=\s*(?:"([^"]*)"|([^\s;]+))/i)
+      if (rel && hasRel(rel[1] ?? rel[2], 'webmention')) {
+        return normalizeUrl(href, base)
+      }
+    }
+  }
+  const tag = findTags(html, ['link', 'a']).find(
+    (tag) => hasRel(tag.attrs.rel, 'webmention') && 'href' in tag.attrs,
+  )
+  return tag ? normalizeUrl(tag.attrs.href, base) : null
+}
+
+/**
+ * 根据链接上的 microformats class 判断引用方式
+ */
+export function getMentionType(tag: HtmlTag) {
+  const classes = (tag.attrs.class || '').split(/\s+/)
+  if (classes.includes('u-in-reply-to')) {
+    return WebmentionTypes.Reply
+  }
+  if (classes.includes('u-like-of')) {
+    return WebmentionTypes.Like
+  }
+  if (classes.includes('u-repost-of')) {
+    return WebmentionTypes.Repost
+  }
+  if (classes.includes('u-bookmark-of')) {
+    return WebmentionTypes.Bookmark
+  }
+  return WebmentionTypes.Mention
+}
+
+/**
+ * Markdown 中所有的 http 链接, 已去重
+ */
+export function extractLinks(markdown: string) {
+  const links = new Set<string>()
+  const tokens = marked.lexer(markdown || '')
+  marked.walkTokens(tokens, (token: any) => {
+    if (token.type === 'link' && token.href) {
+      const url = normalizeUrl(token.href)
+      url && links.add(url)
+    }
+  })
+  return [...links]
+}
+
+/**
+ * 本机和内网地址, 接收时不去请求这些来源
+ */
+export function isPrivateHost(hostname: string) {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase()
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    return true
+  }
+  switch (isIP(host)) {
+    case 4:
+      return /^(0|10|127|169\.254|172\.(1[6-9]|2\d|3[01])|192\.168|100\.(6[4-9]|[7-9]\d|1[01]\d|12[0-7]))\./.test(
+        host,
+      )
+    case 6:
+      return /^(::1?$|f[cd]|fe80|::ffff:)/.test(host)
+    default:
+      return false
+  }
+}
@@ -0,0 +1,12 @@
+import { CacheModule } from '@nestjs/common'
+import * as redisStore from 'cache-manager-redis-store'
+
+export const CacheModuleDynamic = CacheModule.registerAsync({
+  useFactory: () => ({
+    store: redisStore,
+    host: 'localhost',
+    port: 6379,
+    ttl: 5,
+    max: 300,
+  }),
+})
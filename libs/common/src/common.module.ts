@@ -7,12 +7,12 @@
  * @Coding with Love
  */
 
-import { CacheModule, Module, Provider } from '@nestjs/common'
+import { Module, Provider } from '@nestjs/common'
 import { ConfigModule } from '@nestjs/config'
 import { APP_INTERCEPTOR } from '@nestjs/core'
-import * as redisStore from 'cache-manager-redis-store'
 import { HttpCacheInterceptor } from 'core/interceptors/http-cache.interceptors'
 import { RedisModule } from 'nestjs-redis'
+import { CacheModuleDynamic } from './cache/cache.module'
 import { RedisNames } from './redis/redis.types'
 import { TasksModule } from './tasks/tasks.module'
 
@@ -29,15 +29,6 @@ if (process.env.NODE_ENV === 'production') {
 // for debug
 // providers.push(CacheProvider)
 
-const CacheModuleDynamic = CacheModule.registerAsync({
-  useFactory: () => ({
-    store: redisStore,
-    host: 'localhost',
-    port: 6379,
-    ttl: 5,
-    max: 300,
-  }),
-})
 @Module({
   imports: [
     ConfigModule.forRoot({
@@ -68,6 +59,14 @@ const CacheModuleDynamic = CacheModule.registerAsync({
         keyPrefix: 'mx_' + RedisNames.LoginRecord + '_',
       },
       { name: RedisNames.MaxOnlineCount, keyPrefix: 'mx_count_' },
+      {
+        name: RedisNames.CommentLimit,
+        keyPrefix: 'mx_' + RedisNames.CommentLimit + '_',
+      },
+      {
+        name: RedisNames.WebmentionLimit,
+        keyPrefix: 'mx_' + RedisNames.WebmentionLimit + '_',
+      },
       // { name: RedisNames.LikeThisSite, keyPrefix: 'mx_like_site' },
     ]),
     TasksModule,
@@ -0,0 +1,83 @@
+import * as RedisMock from 'ioredis-mock'
+import { slidingWindowLimit } from './rate-limit'
+
+describe('slidingWindowLimit', () => {
+  let redis: any
+  const window = 60
+
+  const hit = (limits: [string, number][]) =>
+    slidingWindowLimit(redis, limits, window)
+
+  beforeEach(() => {
+    jest.useFakeTimers('modern')
+    jest.setSystemTime(new Date('2021-01-01T00:00:00Z'))
+    redis = new RedisMock({ keyPrefix: 'test_' })
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('should allow hits up to the limit', async () => {
+    for (let i = 0; i < 3; i++) {
+      expect(await hit([['ip:1', 3]])).toBe(0)
+      jest.advanceTimersByTime(1000)
+    }
+    expect(await hit([['ip:1', 3]])).toBe(57 * 1000)
+    expect(await redis.zcard('ip:1')).toBe(3)
+  })
+
+  it('should allow again once the oldest hit leaves the window', async () => {
+    await hit([['ip:1', 2]])
+    jest.advanceTimersByTime(10 * 1000)
+    await hit([['ip:1', 2]])
+
+    jest.advanceTimersByTime(50 * 1000)
+    expect(await hit([['ip:1', 2]])).toBe(0)
+    // 第二次访问还在窗口内
+    expect(await hit([['ip:1', 2]])).toBe(10 * 1000)
+  })
+
+  it('should not record a hit when any dimension is over the limit', async () => {
+    await hit([
+      ['ip:1', 1],
+      ['ref:a', 10],
+    ])
+
+    expect(
+      await hit([
+        ['ip:1', 1],
+        ['ref:a', 10],
+      ]),
+    ).toBe(60 * 1000)
+    expect(await redis.zcard('ref:a')).toBe(1)
+    expect(await hit([['ip:2', 1]])).toBe(0)
+  })
+
+  it('should return the longest wait among exceeded dimensions', async () => {
+    await hit([['ip:1', 1]])
+    jest.advanceTimersByTime(20 * 1000)
+    await hit([['mail:a', 1]])
+
+    expect(
+      await hit([
+        ['ip:1', 1],
+        ['mail:a', 1],
+      ]),
+    ).toBe(60 * 1000)
+  })
+
+  it('should not limit a dimension whose limit is 0', async () => {
+    for (let i = 0; i < 5; i++) {
+      expect(await hit([['ip:1', 0]])).toBe(0)
+    }
+    expect(await redis.zcard('ip:1')).toBe(5)
+  })
+
+  it('should expire keys after the window', async () => {
+    await hit([['ip:1', 3]])
+
+    expect(await redis.pttl('ip:1')).toBeGreaterThan(0)
+    expect(await redis.pttl('ip:1')).toBeLessThanOrEqual(window * 1000)
+  })
+})
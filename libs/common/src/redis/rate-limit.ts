@@ -0,0 +1,53 @@
+import { Redis } from 'ioredis'
+
+/**
+ * 滑动窗口限流, 每个维度一个有序集合, 分数为记录的时间
+ *
+ * KEYS 为各个维度的 key, ARGV 为 当前时间, 窗口 (毫秒), 成员, 各个维度的上限
+ * 超过任意一个上限时不记录, 返回需要等待的毫秒数, 否则返回 0
+ */
+const RATE_LIMIT_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local wait = 0
+for i, key in ipairs(KEYS) do
+  redis.call('ZREMRANGEBYSCORE', key, 0, now - window)
+  local limit = tonumber(ARGV[3 + i])
+  local count = redis.call('ZCARD', key)
+  if limit > 0 and count >= limit then
+    local oldest = redis.call('ZRANGE', key, count - limit, count - limit, 'WITHSCORES')
+    wait = math.max(wait, tonumber(oldest[2]) + window - now)
+  end
+end
+if wait > 0 then
+  return wait
+end
+for _, key in ipairs(KEYS) do
+  redis.call('ZADD', key, now, ARGV[3])
+  redis.call('PEXPIRE', key, window)
+end
+return 0
+`
+
+/**
+ * 检查并记录一次访问, limits 为各个维度的 key 和上限, 上限为 0 时不限制
+ *
+ * window 单位为秒, 返回需要等待的毫秒数, 没有超过限制时返回 0
+ */
+export async function slidingWindowLimit(
+  redis: Redis,
+  limits: [string, number][],
+  window: number,
+) {
+  const now = Date.now()
+  const wait = await redis.eval(
+    RATE_LIMIT_SCRIPT,
+    limits.length,
+    ...limits.map(([key]) => key),
+    now,
+    window * 1000,
+    `${now}-${Math.random().toString(36).slice(2)}`,
+    ...limits.map(([, limit]) => limit),
+  )
+  return Number(wait)
+}
@@ -12,6 +12,8 @@ export enum RedisNames {
   Read = 'read',
   LoginRecord = 'login_record',
   MaxOnlineCount = 'max_online_count',
+  CommentLimit = 'comment_limit',
+  WebmentionLimit = 'webmention_limit',
   // LikeThisSite = 'like_this_site',
 }
 export enum RedisItems {
@@ -1,4 +1,5 @@
-import { HttpService, Injectable, Logger } from '@nestjs/common'
+import { Injectable, Logger } from '@nestjs/common'
+import { ModuleRef } from '@nestjs/core'
 import { Cron, CronExpression } from '@nestjs/schedule'
 import { ReturnModelType } from '@typegoose/typegoose'
 import { execSync } from 'child_process'
@@ -11,12 +12,14 @@ import { join } from 'path'
 import { TEMP_DIR } from 'shared/constants'
 import { isDev } from 'shared/utils'
 
+import { getFileType } from '@libs/db/models/file.model'
 import { Analyze } from '../../../db/src/models/analyze.model'
 import { RedisNames } from '../redis/redis.types'
 import dayjs = require('dayjs')
-import { ToolsService } from 'shared/global/tools/tools.service'
 import { ConfigsService } from 'shared/global'
 import { BackupsService } from 'apps/server/src/shared/backups/backups.service'
+import { TrashService } from 'apps/server/src/shared/trash/trash.service'
+import { UploadsService } from 'apps/server/src/shared/uploads/uploads.service'
 
 @Injectable()
 export class TasksService {
@@ -26,8 +29,7 @@ export class TasksService {
     @InjectModel(Analyze)
     private readonly analyzeModel: ReturnModelType<typeof Analyze>,
     private readonly redisCtx: RedisService,
-    private readonly tools: ToolsService,
-    private readonly http: HttpService,
+    private readonly moduleRef: ModuleRef,
   ) {}
   @Cron(CronExpression.EVERY_DAY_AT_1AM, { name: 'backup' })
   backupDB({ uploadCOS = true }: { uploadCOS?: boolean } = {}) {
@@ -152,40 +154,47 @@ export class TasksService {
     mkdirp.sync(tempDir)
   }
 
-  @Cron(CronExpression.EVERY_DAY_AT_3AM)
-  pushToBaiduSearch() {
-    return new Promise(async (resolve, reject) => {
-      const configs = this.configs.get('baiduSearchOptions')
-      if (configs.enable) {
-        const token = configs.token
-        if (!token) {
-          this.logger.error('[BaiduSearchPushTask] token 为空')
-          return reject('token is empty')
-        }
-        const siteUrl = this.configs.get('url').webUrl
-
-        const pushUrls = await this.tools.getSiteMapContent()
-        const urls = pushUrls
-          .map((item) => {
-            return item.url
-          })
-          .join('\n')
+  @Cron(CronExpression.EVERY_DAY_AT_4AM, { name: 'purge_trash' })
+  async purgeTrash() {
+    const { retentionDays } = this.configs.get('trashOptions')
+    if (!retentionDays) {
+      return
+    }
+    const before = dayjs().subtract(retentionDays, 'day').toDate()
+    // 回收站属于应用模块, 运行时再取, 公共模块不导入应用模块
+    const trashService = this.moduleRef.get(TrashService, { strict: false })
+    const { count } = await trashService.purgeAll(undefined, before)
+    this.logger.log(`--> 清理回收站: ${count} 条`)
+  }
 
-        const res = await this.http
-          .post(
-            `http://data.zz.baidu.com/urls?site=${siteUrl}&token=${token}`,
-            urls,
-            {
-              headers: {
-                'Content-Type': 'text/plain',
-              },
-            },
-          )
-          .toPromise()
-        this.logger.log(`提交结果: ${JSON.stringify(res.data)}`)
-        return resolve(res.data)
-      }
-      return resolve(null)
+  /**
+   * 对比数据库和上传目录, 清理无用的文件, dryRun 时只记录
+   */
+  @Cron(CronExpression.EVERY_WEEK, { name: 'clean_uploads' })
+  async cleanUploads() {
+    const { enable, dryRun } = this.configs.get('uploadsGcOptions') ?? {}
+    if (!enable) {
+      return
+    }
+    // 同样在运行时取上传服务
+    const uploadsService = this.moduleRef.get(UploadsService, {
+      strict: false,
     })
+    const report = await uploadsService.collectGarbage({ dryRun })
+    const summary = `孤立 ${report.orphans.length}, 丢失 ${report.missing.length}, 未引用 ${report.unreferenced.length}`
+    if (dryRun) {
+      this.logger.log(`--> 上传文件检查 (未删除): ${summary}`)
+      for (const { path } of report.orphans) {
+        this.logger.log(`    孤立: ${path}`)
+      }
+      for (const { type, name } of report.missing) {
+        this.logger.log(`    丢失: ${getFileType(type)}/${name}`)
+      }
+      for (const { type, name, filename } of report.unreferenced) {
+        this.logger.log(`    未引用: ${getFileType(type)}/${name} ${filename}`)
+      }
+      return
+    }
+    this.logger.log(`--> 清理上传文件: ${summary}`)
   }
 }
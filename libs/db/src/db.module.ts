@@ -14,6 +14,7 @@ import Page from './models/page.model'
 import Post from './models/post.model'
 import { DbService } from './db.service'
 import { File } from './models/file.model'
+import { Follower } from './models/follower.model'
 import { Global, Module } from '@nestjs/common'
 import { Option } from './models/option.model'
 import { Project } from './models/project.model'
@@ -23,12 +24,21 @@ import { Say } from './models/say.model'
 import { Link } from './models/link.model'
 import { Analyze } from './models/analyze.model'
 import { Recently } from './models/recently.model'
+import { Revision } from './models/revision.model'
+import { Draft } from './models/draft.model'
+import { Series } from './models/series.model'
+import { SearchIndex } from './models/search-index.model'
+import { SpamToken } from './models/spam-token.model'
+import { Submission } from './models/submission.model'
+import { Webmention } from './models/webmention.model'
 
 const models = TypegooseModule.forFeature([
   Analyze,
   Category,
   Comment,
+  Draft,
   File,
+  Follower,
   Link,
   Note,
   Option,
@@ -36,8 +46,14 @@ const models = TypegooseModule.forFeature([
   Post,
   Project,
   Recently,
+  Revision,
   Say,
+  SearchIndex,
+  Series,
+  SpamToken,
+  Submission,
   User,
+  Webmention,
 ])
 
 @Global()
@@ -7,7 +7,7 @@
  * @Copyright
  */
 
-import { pre, prop, Ref } from '@typegoose/typegoose'
+import { modelOptions, plugin, pre, prop, Ref } from '@typegoose/typegoose'
 import { getAvatar } from 'shared/utils'
 import { Types } from 'mongoose'
 
@@ -15,6 +15,7 @@ import { BaseModel } from './base.model'
 import Note from './note.model'
 import Page from './page.model'
 import Post from './post.model'
+import { softDeletePlugin } from '../plugins/soft-delete.plugin'
 
 function autoPopulateSubs(next: () => void) {
   this.populate({ options: { sort: { created: -1 } }, path: 'children' })
@@ -33,6 +34,39 @@ export enum CommentState {
   Junk,
 }
 
+export enum SpamLabel {
+  Spam = 'spam',
+  Ham = 'ham',
+}
+
+@modelOptions({ schemaOptions: { _id: false } })
+export class SpamReason {
+  /** 规则名, 如 bayes, links, reputation */
+  @prop({ required: true })
+  rule: string
+
+  /** 对评分的贡献 (对数几率), 正数表示更像垃圾评论 */
+  @prop({ required: true })
+  weight: number
+
+  @prop()
+  detail?: string
+}
+
+/**
+ * 评论者修改前的内容
+ */
+@modelOptions({ schemaOptions: { _id: false } })
+export class CommentEdit {
+  @prop({ required: true })
+  text: string
+
+  /** 被修改的时间 */
+  @prop({ required: true })
+  editedAt: Date
+}
+
+@plugin(softDeletePlugin)
 @pre<Comment>('findOne', autoPopulateSubs)
 @pre<Comment>('find', autoPopulateSubs)
 export default class Comment extends BaseModel {
@@ -54,6 +88,18 @@ export default class Comment extends BaseModel {
   @prop({ required: true })
   text!: string
 
+  /** 按评论设置中允许的标签渲染出的 HTML */
+  @prop()
+  renderedText?: string
+
+  /** 评论者最后一次修改的时间 */
+  @prop()
+  editedAt?: Date
+
+  /** 修改记录, 只有主人可见 */
+  @prop({ select: false, type: CommentEdit })
+  history?: CommentEdit[]
+
   // 0 : 未读
   // 1 : 已读
   // 2 : 垃圾
@@ -79,6 +125,25 @@ export default class Comment extends BaseModel {
   @prop({ select: false })
   agent?: string
 
+  /** 垃圾评论的评分, 0 ~ 1, 越高越可能是垃圾评论 */
+  @prop({ select: false })
+  spamScore?: number
+
+  @prop({ select: false, type: SpamReason })
+  spamReasons?: SpamReason[]
+
+  /** 训练分类器时使用的标记, 修改状态时先撤销之前的训练 */
+  @prop({ select: false, enum: SpamLabel })
+  spamTrainedAs?: SpamLabel
+
+  /** 通过 ActivityPub 收到的回复的 id */
+  @prop({ select: false, index: true, sparse: true })
+  apId?: string
+
+  /** 回复作者的 actor id, 只有作者本人能修改或删除 */
+  @prop({ select: false })
+  apActor?: string
+
   @prop({
     ref: () => Post,
     foreignField: '_id',
@@ -0,0 +1,42 @@
+import { index, modelOptions, prop, Ref, Severity } from '@typegoose/typegoose'
+import { Schema } from 'mongoose'
+import { BaseModel } from './base.model'
+import Note from './note.model'
+import Post from './post.model'
+
+export enum DraftRefTypes {
+  Post = 'Post',
+  Note = 'Note',
+}
+
+/**
+ * 草稿, 与文章记录分开存放, 发布之后才会生成或更新真正的文档
+ */
+@modelOptions({ options: { allowMixed: Severity.ALLOW } })
+@index({ modified: -1 })
+@index({ ref: 1 })
+export class Draft extends BaseModel {
+  @prop({ required: true, enum: DraftRefTypes })
+  refType: DraftRefTypes
+
+  /**
+   * 已发布的文档, 为空时发布会新建一篇
+   */
+  @prop({ refPath: 'refType' })
+  ref?: Ref<Post | Note>
+
+  @prop({ trim: true, default: '' })
+  title: string
+
+  @prop({ default: '' })
+  text: string
+
+  /**
+   * 其他字段, 如 slug, categoryId, tags, mood, weather
+   */
+  @prop({ type: Schema.Types.Mixed, default: {} })
+  payload?: Record<string, any>
+
+  @prop({ default: () => new Date() })
+  modified: Date
+}
@@ -16,9 +16,9 @@ export enum FileType {
   PHOTO,
 
   // not image
-  // MUSIC,
-  // VIDEO,
-  // FILE,
+  MUSIC,
+  VIDEO,
+  FILE,
 }
 export enum FileLocate {
   Local,
@@ -35,11 +35,19 @@ export const getEnumFromType = (type: keyof typeof FileType) => {
     AVATAR: 1,
     BACKGROUND: 2,
     PHOTO: 3,
+    MUSIC: 4,
+    VIDEO: 5,
+    FILE: 6,
   }[type]
 }
 
 @index({ filename: 1 })
 @index({ name: 1 })
+// 旧的文件没有 hash, 以文件名的 md5 命名
+@index(
+  { hash: 1, type: 1 },
+  { unique: true, partialFilterExpression: { hash: { $exists: true } } },
+)
 export class File extends BaseModel {
   @prop({ required: true })
   filename: string
@@ -47,10 +55,17 @@ export class File extends BaseModel {
   @prop({ required: true })
   name: string
 
+  /** 文件内容的 sha256, 同一类型下内容相同的文件只存一份 */
+  @prop()
+  hash?: string
+
   @prop()
   mime: string
 
-  // TODO 除图片之外的其他信息
+  /**
+   * 图片的 exif 和 gpsStripped (是否去掉了位置信息)
+   * 音频和视频的 duration, bitrate 等
+   */
   @prop({ type: Schema.Types.Mixed })
   info?: Record<string, any>
 
@@ -0,0 +1,28 @@
+import { prop } from '@typegoose/typegoose'
+import { BaseModel } from './base.model'
+
+/**
+ * 通过 ActivityPub 关注了主人的账号
+ */
+export class Follower extends BaseModel {
+  /** 对方 actor 的 id */
+  @prop({ required: true, unique: true, trim: true })
+  actor: string
+
+  @prop({ required: true })
+  inbox: string
+
+  /** 同一实例的关注者共用, 投递时优先使用 */
+  @prop()
+  sharedInbox?: string
+
+  /** 形如 user@example.com */
+  @prop({ trim: true })
+  account?: string
+
+  @prop({ trim: true })
+  name?: string
+
+  @prop()
+  avatar?: string
+}
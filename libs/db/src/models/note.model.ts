@@ -10,6 +10,7 @@ import { AutoIncrementID } from '@typegoose/auto-increment'
 import { index, modelOptions, plugin, prop } from '@typegoose/typegoose'
 import { IsNumber } from 'class-validator'
 import * as uniqueValidator from 'mongoose-unique-validator'
+import { softDeletePlugin } from '../plugins/soft-delete.plugin'
 import { WriteBaseModel } from './base.model'
 
 @modelOptions({ schemaOptions: { id: false, _id: false } })
@@ -48,7 +49,9 @@ export class NoteMusic {
   startAt: 1,
 })
 @plugin(uniqueValidator)
+@plugin(softDeletePlugin)
 @index([{ text: 'text' }, { modified: -1 }, { nid: -1 }])
+@index({ hide: 1, publishAt: 1 })
 export default class Note extends WriteBaseModel {
   @prop({ required: false, unique: true })
   public nid: number
@@ -84,4 +87,10 @@ export default class Note extends WriteBaseModel {
 
   @prop({ type: [NoteMusic] })
   music?: NoteMusic[]
+
+  /**
+   * 定时发布时间, 到点之前保持隐藏
+   */
+  @prop()
+  publishAt?: Date
 }
@@ -7,7 +7,7 @@
  * @Mark: Coding with Love
  */
 import { ApiProperty } from '@nestjs/swagger'
-import { prop } from '@typegoose/typegoose'
+import { index, plugin, prop } from '@typegoose/typegoose'
 import { IsNilOrString } from 'utils/validator-decorators/isNilOrString'
 import {
   IsEnum,
@@ -22,12 +22,18 @@ import { Schema } from 'mongoose'
 
 import { WriteBaseModel } from './base.model'
 import { Transform } from 'class-transformer'
+import { softDeletePlugin } from '../plugins/soft-delete.plugin'
 
 export const pageType = ['md', 'html', 'frame']
 
+@plugin(softDeletePlugin)
+@index(
+  { slug: 1 },
+  { unique: true, partialFilterExpression: { deletedAt: null } },
+)
 export default class Page extends WriteBaseModel {
   @ApiProperty({ description: 'Slug', required: true })
-  @prop({ trim: 1, index: true, required: true, unique: true })
+  @prop({ trim: 1, required: true })
   @IsString()
   @IsNotEmpty()
   slug!: string
@@ -62,4 +68,10 @@ export default class Page extends WriteBaseModel {
   @IsOptional()
   @IsObject()
   options?: Record<string, any>
+
+  /**
+   * 改过的 slug, 用于旧链接的重定向
+   */
+  @prop({ type: String, select: false, index: true })
+  oldSlugs?: string[]
 }
@@ -8,16 +8,41 @@
  */
 
 import Category from './category.model'
-import { index, prop, Ref } from '@typegoose/typegoose'
+import { index, modelOptions, plugin, prop, Ref } from '@typegoose/typegoose'
 import { Schema } from 'mongoose'
 import { WriteBaseModel } from './base.model'
 import { Count } from './note.model'
+import { softDeletePlugin } from '../plugins/soft-delete.plugin'
 
-@index({ slug: 1 })
+@modelOptions({ schemaOptions: { _id: false } })
+export class OldSlug {
+  @prop({ required: true })
+  category: string
+
+  @prop({ required: true })
+  slug: string
+}
+
+@modelOptions({ schemaOptions: { _id: false } })
+export class RelatedPost {
+  @prop({ ref: () => Post, required: true })
+  post: Ref<Post>
+
+  @prop({ required: true })
+  score: number
+}
+
+@plugin(softDeletePlugin)
+@index(
+  { slug: 1 },
+  { unique: true, partialFilterExpression: { deletedAt: null } },
+)
+@index({ 'oldSlugs.category': 1, 'oldSlugs.slug': 1 })
 @index({ modified: -1 })
 @index({ text: 'text' })
+@index({ hide: 1, publishAt: 1 })
 export class Post extends WriteBaseModel {
-  @prop({ trim: true, unique: true, required: true })
+  @prop({ trim: true, required: true })
   slug!: string
 
   @prop()
@@ -50,5 +75,23 @@ export class Post extends WriteBaseModel {
 
   @prop({ type: Schema.Types.Mixed })
   options?: Record<any, any>
+
+  /**
+   * 定时发布时间, 到点之前保持隐藏
+   */
+  @prop()
+  publishAt?: Date
+
+  /**
+   * 改过的分类和 slug, 用于旧链接的重定向
+   */
+  @prop({ type: OldSlug, select: false })
+  oldSlugs?: OldSlug[]
+
+  /**
+   * 相关文章, 由定时任务预先计算, 按相关度降序
+   */
+  @prop({ type: RelatedPost, select: false })
+  related?: RelatedPost[]
 }
 export default Post
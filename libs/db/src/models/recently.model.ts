@@ -1,6 +1,8 @@
-import { prop } from '@typegoose/typegoose'
+import { plugin, prop } from '@typegoose/typegoose'
+import { softDeletePlugin } from '../plugins/soft-delete.plugin'
 import { BaseModel } from './base.model'
 
+@plugin(softDeletePlugin)
 export class Recently extends BaseModel {
   @prop({ required: true })
   content: string
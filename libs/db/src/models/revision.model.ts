@@ -0,0 +1,32 @@
+import { index, prop, Ref } from '@typegoose/typegoose'
+import { BaseModel } from './base.model'
+import Note from './note.model'
+import Page from './page.model'
+import Post from './post.model'
+
+export enum RevisionRefTypes {
+  Post = 'Post',
+  Note = 'Note',
+  Page = 'Page',
+}
+
+/**
+ * 文章, 记录, 页面每次修改后的快照
+ */
+@index({ ref: 1, version: -1 }, { unique: true })
+export class Revision extends BaseModel {
+  @prop({ refPath: 'refType', required: true })
+  ref: Ref<Post | Note | Page>
+
+  @prop({ required: true, enum: RevisionRefTypes })
+  refType: RevisionRefTypes
+
+  @prop({ required: true })
+  version: number
+
+  @prop({ trim: true })
+  title: string
+
+  @prop()
+  text: string
+}
@@ -1,7 +1,9 @@
 import { BaseModel } from '@libs/db/models/base.model'
-import { prop } from '@typegoose/typegoose'
+import { plugin, prop } from '@typegoose/typegoose'
 import { IsOptional, IsString } from 'class-validator'
+import { softDeletePlugin } from '../plugins/soft-delete.plugin'
 
+@plugin(softDeletePlugin)
 export class Say extends BaseModel {
   @prop({ required: true })
   @IsString()
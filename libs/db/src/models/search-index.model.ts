@@ -0,0 +1,73 @@
+import { index, prop, Ref } from '@typegoose/typegoose'
+import { Schema } from 'mongoose'
+import Note from './note.model'
+import Page from './page.model'
+import Post from './post.model'
+import { Recently } from './recently.model'
+import { Say } from './say.model'
+
+export enum SearchRefTypes {
+  Post = 'Post',
+  Note = 'Note',
+  Page = 'Page',
+  Say = 'Say',
+  Recently = 'Recently',
+}
+
+/**
+ * 全文搜索的倒排索引, 每个文档一条, tokens 上的多键索引就是词到文档的映射
+ */
+@index({ refType: 1, ref: 1 }, { unique: true })
+@index({ tokens: 1 })
+export class SearchIndex {
+  @prop({ refPath: 'refType', required: true })
+  ref: Ref<Post | Note | Page | Say | Recently>
+
+  @prop({ required: true, enum: SearchRefTypes })
+  refType: SearchRefTypes
+
+  @prop({ trim: true })
+  title?: string
+
+  /**
+   * 去掉 Markdown 语法后的正文, 用于生成摘要
+   */
+  @prop()
+  text: string
+
+  /**
+   * 去重后的词
+   */
+  @prop({ type: String })
+  tokens: string[]
+
+  /**
+   * 词频, 标题中的词权重更高
+   */
+  @prop({ type: Schema.Types.Mixed })
+  termFreq: Record<string, number>
+
+  @prop()
+  length: number
+
+  /**
+   * 生成链接需要的字段, 如 slug, nid
+   */
+  @prop({ type: Schema.Types.Mixed })
+  meta?: Record<string, any>
+
+  @prop({ default: false })
+  hide: boolean
+
+  @prop({ default: false })
+  hasPassword: boolean
+
+  @prop()
+  secret?: Date
+
+  @prop()
+  created?: Date
+
+  @prop()
+  modified?: Date
+}
@@ -0,0 +1,36 @@
+import { index, modelOptions, prop, Ref } from '@typegoose/typegoose'
+import { BaseModel } from './base.model'
+import Note from './note.model'
+import Post from './post.model'
+
+export enum SeriesItemRefTypes {
+  Post = 'Post',
+  Note = 'Note',
+}
+
+@modelOptions({ schemaOptions: { _id: false } })
+export class SeriesItem {
+  @prop({ required: true, enum: SeriesItemRefTypes })
+  refType: SeriesItemRefTypes
+
+  @prop({ required: true, refPath: 'items.refType' })
+  ref: Ref<Post | Note>
+}
+
+/**
+ * 系列, 按 items 的顺序串起多篇文章或记录
+ */
+@index({ 'items.ref': 1 })
+export class Series extends BaseModel {
+  @prop({ required: true, trim: true })
+  title: string
+
+  @prop({ required: true, trim: true, unique: true })
+  slug: string
+
+  @prop()
+  description?: string
+
+  @prop({ type: SeriesItem, default: [] })
+  items: SeriesItem[]
+}
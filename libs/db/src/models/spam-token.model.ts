@@ -0,0 +1,20 @@
+import { prop } from '@typegoose/typegoose'
+
+/** 记录训练过的评论总数, 不会和分词结果冲突 */
+export const SPAM_TOTAL_TOKEN = '$total'
+
+/**
+ * 垃圾评论分类器 (朴素贝叶斯) 的词频, 由后台标记评论时训练
+ */
+export class SpamToken {
+  @prop({ required: true, unique: true })
+  token: string
+
+  /** 出现过这个词的垃圾评论数 */
+  @prop({ default: 0 })
+  spam: number
+
+  /** 出现过这个词的正常评论数 */
+  @prop({ default: 0 })
+  ham: number
+}
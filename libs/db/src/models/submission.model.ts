@@ -0,0 +1,49 @@
+import { index, prop, Ref } from '@typegoose/typegoose'
+import { Schema } from 'mongoose'
+import { BaseModel } from './base.model'
+import Note from './note.model'
+import Page from './page.model'
+import Post from './post.model'
+
+export enum SubmissionProviders {
+  Baidu = 'baidu',
+  IndexNow = 'indexnow',
+  Bing = 'bing',
+}
+
+export enum SubmissionRefTypes {
+  Post = 'Post',
+  Note = 'Note',
+  Page = 'Page',
+}
+
+/**
+ * 每次向搜索引擎提交 URL 的结果
+ */
+@index({ provider: 1, created: -1 })
+export class Submission extends BaseModel {
+  @prop({ required: true, enum: SubmissionProviders })
+  provider: SubmissionProviders
+
+  @prop({ type: String })
+  urls: string[]
+
+  /** 手动提交全站时为空 */
+  @prop({ refPath: 'refType' })
+  ref?: Ref<Post | Note | Page>
+
+  @prop({ enum: SubmissionRefTypes })
+  refType?: SubmissionRefTypes
+
+  @prop({ required: true })
+  success: boolean
+
+  @prop()
+  status?: number
+
+  @prop({ type: Schema.Types.Mixed })
+  response?: any
+
+  @prop()
+  error?: string
+}
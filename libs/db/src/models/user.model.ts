@@ -83,4 +83,11 @@ export class User extends BaseModel {
 
   @prop({ type: OAuthModel, select: false })
   oauth2?: OAuthModel[]
+
+  /** ActivityPub 签名用的密钥对, 第一次用到时生成 */
+  @prop({ select: false })
+  apPublicKey?: string
+
+  @prop({ select: false })
+  apPrivateKey?: string
 }
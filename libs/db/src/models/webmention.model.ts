@@ -0,0 +1,55 @@
+import { index, prop, Ref } from '@typegoose/typegoose'
+import { BaseModel } from './base.model'
+import { CommentRefTypes, CommentState } from './comment.model'
+import Note from './note.model'
+import Page from './page.model'
+import Post from './post.model'
+
+export enum WebmentionTypes {
+  Mention = 'mention',
+  Reply = 'reply',
+  Like = 'like',
+  Repost = 'repost',
+  Bookmark = 'bookmark',
+}
+
+/**
+ * 其他站点通过 Webmention 告知的引用, 和评论共用审核状态
+ *
+ * @see https://www.w3.org/TR/webmention/
+ */
+@index({ source: 1, target: 1 }, { unique: true })
+@index({ ref: 1, created: -1 })
+export class Webmention extends BaseModel {
+  @prop({ required: true, trim: true })
+  source: string
+
+  @prop({ required: true, trim: true })
+  target: string
+
+  @prop({ refPath: 'refType', required: true })
+  ref: Ref<Post | Note | Page>
+
+  @prop({ required: true, enum: CommentRefTypes })
+  refType: CommentRefTypes
+
+  @prop({ enum: WebmentionTypes, default: WebmentionTypes.Mention })
+  type: WebmentionTypes
+
+  @prop({ trim: true })
+  title?: string
+
+  @prop({ trim: true })
+  author?: string
+
+  /** 来源页面中的摘要 */
+  @prop()
+  content?: string
+
+  @prop({ default: CommentState.Unread })
+  state?: CommentState
+
+  /** 最后一次验证的时间, 来源页面更新后会重新验证 */
+  @prop()
+  verified?: Date
+}
@@ -0,0 +1,94 @@
+import { Aggregate, model, Query, Schema } from 'mongoose'
+import { softDeletePlugin } from './soft-delete.plugin'
+
+describe('softDeletePlugin', () => {
+  const hooks: Record<string, (this: any) => void> = {}
+  const schema = {
+    add: jest.fn(),
+    pre: (name: string, fn: (this: any) => void) => {
+      hooks[name] = fn
+    },
+  }
+  softDeletePlugin((schema as unknown) as Schema)
+  // 不需要连接, 只用来构造查询和管道
+  const Doc = model('SoftDeleteSpec', new Schema({ title: String }))
+
+  const runQuery = (query: Query<any>, hook = 'find') => {
+    hooks[hook].call(query)
+    return query.getQuery()
+  }
+
+  const runAggregate = (pipeline: any[]) => {
+    const aggregate: Aggregate<any> = Doc.aggregate(pipeline)
+    hooks.aggregate.call(aggregate)
+    return aggregate.pipeline()
+  }
+
+  it('should add the deletedAt path', () => {
+    expect(schema.add).toBeCalledWith({ deletedAt: { type: Date } })
+  })
+
+  it('should register hooks for reads, counts and updates', () => {
+    expect(Object.keys(hooks).sort()).toEqual(
+      [
+        'aggregate',
+        'count',
+        'countDocuments',
+        'find',
+        'findOne',
+        'findOneAndUpdate',
+        'update',
+        'updateMany',
+        'updateOne',
+      ].sort(),
+    )
+  })
+
+  it('should only match documents that are not deleted', () => {
+    expect(runQuery(Doc.find({ title: 'a' }))).toEqual({
+      title: 'a',
+      deletedAt: null,
+    })
+    expect(runQuery(Doc.countDocuments(), 'countDocuments')).toEqual({
+      deletedAt: null,
+    })
+    expect(
+      runQuery(Doc.updateMany({}, { title: 'b' }), 'updateMany'),
+    ).toEqual({ deletedAt: null })
+  })
+
+  it('should leave explicit deletedAt conditions alone', () => {
+    const condition = { deletedAt: { $ne: null } }
+
+    expect(runQuery(Doc.find(condition))).toEqual(condition)
+    expect(runQuery(Doc.findOne({ deletedAt: undefined }), 'findOne')).toEqual(
+      { deletedAt: undefined },
+    )
+  })
+
+  it('should prepend a $match to aggregations', () => {
+    expect(runAggregate([{ $sort: { created: -1 } }])).toEqual([
+      { $match: { deletedAt: null } },
+      { $sort: { created: -1 } },
+    ])
+    expect(runAggregate([])).toEqual([{ $match: { deletedAt: null } }])
+  })
+
+  it('should skip aggregations that already handle deletedAt', () => {
+    const pipeline = [
+      { $match: { deletedAt: { $ne: null } } },
+      { $count: 'total' },
+    ]
+
+    expect(runAggregate(pipeline)).toEqual(pipeline)
+  })
+
+  it('should keep $geoNear as the first stage', () => {
+    const pipeline = [
+      { $geoNear: { near: [0, 0], distanceField: 'distance' } },
+      { $limit: 1 },
+    ]
+
+    expect(runAggregate(pipeline)).toEqual(pipeline)
+  })
+})
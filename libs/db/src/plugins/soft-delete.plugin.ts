@@ -0,0 +1,40 @@
+import { Aggregate, Query, Schema } from 'mongoose'
+
+const queryHooks = [
+  'count',
+  'countDocuments',
+  'find',
+  'findOne',
+  'findOneAndUpdate',
+  'update',
+  'updateOne',
+  'updateMany',
+] as const
+
+/**
+ * 软删除, 有 deletedAt 的文档默认不会被查询到
+ *
+ * 查询条件中显式带上 deletedAt 时不做处理, 回收站依靠这一点查询被删除的文档
+ */
+export function softDeletePlugin(schema: Schema) {
+  schema.add({ deletedAt: { type: Date } })
+
+  for (const hook of queryHooks) {
+    schema.pre(hook as 'find', function (this: Query<any>) {
+      if ('deletedAt' in this.getQuery()) {
+        return
+      }
+      this.where({ deletedAt: null })
+    })
+  }
+
+  // $geoNear 只能是第一个阶段, 这时交给调用方自己过滤
+  schema.pre('aggregate', function (this: Aggregate<any>) {
+    const pipeline = this.pipeline()
+    const first = pipeline[0] as Record<string, any>
+    if (first && ('$geoNear' in first || 'deletedAt' in (first.$match ?? {}))) {
+      return
+    }
+    pipeline.unshift({ $match: { deletedAt: null } })
+  })
+}
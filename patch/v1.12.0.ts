@@ -0,0 +1,48 @@
+import { HttpService } from '@nestjs/common'
+import { readFile } from 'fs/promises'
+import { homedir } from 'os'
+import { join } from 'path'
+import { plural } from 'pluralize'
+import { createStorageDriver } from '../apps/server/src/shared/uploads/storage/storage.factory'
+import { FileLocate, getFileType } from '../libs/db/src/models/file.model'
+import { patch } from './bootstrap'
+
+/*
+ * 把保存在本地的上传文件迁移到当前配置的远程存储 (图床设置)
+ *
+ * 上传目录不是默认的 ~/.mx-space/uploads 时, 通过 UPLOADS_DIR 指定
+ */
+const UPLOADS_DIR =
+  process.env.UPLOADS_DIR || join(homedir(), '.mx-space', 'uploads')
+
+patch(async ({ db }) => {
+  const option = await db.collection('options').findOne({ name: 'imageBed' })
+  const driver = createStorageDriver(option?.value, new HttpService())
+  if (!driver) {
+    console.log('没有配置远程存储, 跳过')
+    return
+  }
+  const files = db.collection('files')
+  const docs = await files
+    .find({ locate: { $ne: FileLocate.Online } })
+    .toArray()
+  let count = 0
+  for (const doc of docs) {
+    const key = `${plural(getFileType(doc.type))}/${doc.name}`
+    try {
+      const url = await driver.put(
+        key,
+        await readFile(join(UPLOADS_DIR, key)),
+        doc.mime,
+      )
+      await files.updateOne(
+        { _id: doc._id },
+        { $set: { locate: FileLocate.Online, url } },
+      )
+      count++
+    } catch (err) {
+      console.error(`迁移失败: ${key} ${err.message}`)
+    }
+  }
+  console.log(`已迁移 ${count}/${docs.length} 个文件到 ${driver.name}`)
+})
@@ -0,0 +1,26 @@
+import { renderCommentMarkdown } from '../apps/server/src/shared/comments/comment-markdown'
+import { patch } from './bootstrap'
+
+/*
+ * 按当前评论设置中允许的标签重新渲染所有评论的 renderedText
+ *
+ * 修改评论设置中的 markdownTags 后也需要运行
+ */
+patch(async ({ db }) => {
+  const option = await db
+    .collection('options')
+    .findOne({ name: 'commentOptions' })
+  const tags: string[] | undefined = option?.value?.markdownTags
+  const comments = db.collection('comments')
+  const cursor = comments.find({}, { projection: { text: 1 } })
+  let count = 0
+  while (await cursor.hasNext()) {
+    const doc = await cursor.next()
+    await comments.updateOne(
+      { _id: doc._id },
+      { $set: { renderedText: renderCommentMarkdown(doc.text, tags) } },
+    )
+    count++
+  }
+  console.log(`已重新渲染 ${count} 条评论`)
+})
@@ -0,0 +1,17 @@
+import { patch } from './bootstrap'
+
+/*
+ * 文章和页面的 slug 唯一索引改为只约束未删除的文档, 删除旧的索引, 启动时会重新建立
+ */
+patch(async ({ db }) => {
+  for (const name of ['posts', 'pages']) {
+    const collection = db.collection(name)
+    const indexes = await collection.indexes()
+    for (const index of indexes) {
+      if (index.key?.slug === 1 && !index.partialFilterExpression) {
+        await collection.dropIndex(index.name)
+        console.log(`已删除 ${name} 的索引 ${index.name}`)
+      }
+    }
+  }
+})
@@ -21,6 +21,7 @@ export const DATA_DIR = isDev
 export enum CacheKeys {
   AggregateCatch = 'aggregate_catch',
   SiteMapCatch = 'aggregate_sitemap_catch',
+  SiteMapXML = 'aggregate_sitemap_xml',
   RSS = 'rss',
 }
 
@@ -9,8 +9,16 @@
 import * as FastifyMultipart from 'fastify-multipart'
 import type _FastifyMultipart from 'fastify-multipart'
 import { FastifyAdapter } from '@nestjs/platform-fastify'
+import { FastifyRequest } from 'fastify'
 import { isDev } from '../../utils'
 
+declare module 'fastify' {
+  interface FastifyRequest {
+    /** ActivityPub 请求的原始请求体 */
+    rawBody?: string
+  }
+}
+
 export const fastifyApp = new FastifyAdapter({
   logger: isDev,
   trustProxy: true,
@@ -31,3 +39,20 @@ fastifyApp.getInstance().addHook('onRequest', (request, reply, done) => {
 
   done()
 })
+
+// ActivityPub 的请求体, 验证签名时需要原始内容计算 Digest
+fastifyApp
+  .getInstance()
+  .addContentTypeParser(
+    ['application/activity+json', 'application/ld+json'],
+    { parseAs: 'string' },
+    (request: FastifyRequest, body: string, done) => {
+      try {
+        request.rawBody = body
+        done(null, JSON.parse(body))
+      } catch (err) {
+        err.statusCode = 400
+        done(err, undefined)
+      }
+    },
+  )
@@ -0,0 +1,13 @@
+import { HttpException, HttpStatus } from '@nestjs/common'
+
+/**
+ * 请求太频繁, retryAfter 单位为秒, 由异常过滤器写入 Retry-After
+ */
+export class TooManyRequestsException extends HttpException {
+  constructor(
+    public readonly retryAfter: number,
+    message = '操作太频繁了, 请稍后再试',
+  ) {
+    super(message, HttpStatus.TOO_MANY_REQUESTS)
+  }
+}
@@ -17,6 +17,7 @@ import {
 } from '@nestjs/common'
 import { FastifyReply, FastifyRequest } from 'fastify'
 import { getIp } from '../../utils/ip'
+import { TooManyRequestsException } from '../exceptions/too-many-requests.exception'
 type myError = {
   readonly status: number
   readonly statusCode?: number
@@ -52,6 +53,10 @@ export class AllExceptionsFilter implements ExceptionFilter {
       )
     }
 
+    if (exception instanceof TooManyRequestsException) {
+      response.header('Retry-After', exception.retryAfter)
+    }
+
     response.status(status).send({
       ok: 0,
       statusCode: status,
@@ -55,6 +55,10 @@ function filterSecretNote(note: Note, now: Date) {
     data.weather = undefined
     delete data.mood
     delete data.weather
+    // ?render=html 附带的渲染结果
+    for (const key of ['html', 'toc', 'wordCount', 'readingTime']) {
+      delete data[key]
+    }
   }
 }
 
@@ -6,10 +6,13 @@ import {
   IsEnum,
   IsInt,
   IsNotEmpty,
+  IsNumber,
   IsObject,
   IsOptional,
   IsString,
   IsUrl,
+  Max,
+  Min,
   ValidateNested,
 } from 'class-validator'
 
@@ -64,10 +67,52 @@ class MailOption {
   @IsUrl({ require_protocol: false })
   host: string
 }
+/**
+ * S3 兼容的对象存储, 存储桶需要允许公开读取
+ */
+export class S3OptionsDto {
+  @IsUrl({ require_protocol: true, require_tld: false })
+  @ApiProperty({ example: 'https://s3.us-east-1.amazonaws.com' })
+  endpoint: string
+
+  @IsString()
+  @IsOptional()
+  @ApiProperty({ example: 'us-east-1' })
+  region?: string
+
+  @IsString()
+  @IsNotEmpty()
+  bucket: string
+
+  @IsString()
+  @IsNotEmpty()
+  accessKeyId: string
+
+  @IsString()
+  @IsNotEmpty()
+  secretAccessKey: string
+
+  /** 使用 endpoint/bucket/key 形式的地址, MinIO 需要开启 */
+  @IsBoolean()
+  @IsOptional()
+  pathStyle?: boolean
+
+  /** 对象名的前缀, 如 mx-space/ */
+  @IsString()
+  @IsOptional()
+  prefix?: string
+
+  /** 通过 CDN 访问时的地址 */
+  @IsUrl({ require_protocol: true })
+  @IsOptional()
+  customUrl?: string
+}
+
 export class ImageBedDto {
-  @IsEnum(['github']) // TODO
+  /** 不设置时只保存在本地, 为了兼容旧的配置, 填写了 token 和 repo 时使用 GitHub */
+  @IsEnum(['local', 'github', 's3'])
   @IsOptional()
-  type: 'github'
+  type: 'local' | 'github' | 's3'
 
   @IsOptional()
   @IsString()
@@ -80,6 +125,11 @@ export class ImageBedDto {
   @IsOptional()
   @IsUrl({ require_protocol: true })
   customUrl?: string
+
+  @ValidateNested()
+  @Type(() => S3OptionsDto)
+  @IsOptional()
+  s3?: S3OptionsDto
 }
 
 export class MailOptionsDto {
@@ -100,6 +150,40 @@ export class MailOptionsDto {
   options?: MailOption
 }
 
+export class CommentRateLimitOptions {
+  /**
+   * 统计的时间窗口, 单位秒, 默认 60
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  window?: number
+
+  /**
+   * 窗口内同一 IP 最多评论数, 为 0 时不限制, 默认 5
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  ip?: number
+
+  /**
+   * 窗口内同一邮箱最多评论数, 为 0 时不限制, 默认 5
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  mail?: number
+
+  /**
+   * 窗口内同一篇文章最多评论数, 为 0 时不限制, 默认 30
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  ref?: number
+}
+
 export class CommentOptions {
   @IsBoolean()
   @IsOptional()
@@ -115,6 +199,37 @@ export class CommentOptions {
   @IsOptional()
   @IsBoolean()
   disableNoChinese?: boolean
+
+  /**
+   * 垃圾评论评分达到这个值时标记为垃圾, 默认 0.7
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  spamThreshold?: number
+
+  @ValidateNested()
+  @Type(() => CommentRateLimitOptions)
+  @IsOptional()
+  rateLimit?: CommentRateLimitOptions
+
+  /**
+   * 评论 Markdown 中允许的标签, 默认为 p, br, a, strong, em, del, code, pre, blockquote, ul, ol, li, hr
+   *
+   * 图片和原始 HTML 始终不允许, 修改后需要运行迁移脚本重新渲染
+   */
+  @IsString({ each: true })
+  @IsOptional()
+  markdownTags?: string[]
+
+  /**
+   * 评论后多少分钟内评论者可以修改或删除, 为 0 时不允许, 默认 10
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  guestEditMinutes?: number
 }
 
 export class BackupOptions {
@@ -149,3 +264,127 @@ export class BaiduSearchOptions {
   @IsNotEmpty()
   token?: string
 }
+
+export class IndexNowOptions {
+  @IsOptional()
+  @IsBoolean()
+  enable?: boolean
+
+  /**
+   * 需要在站点下放置同名的 {key}.txt, 内容为 key
+   */
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  key?: string
+
+  /**
+   * key 文件不在站点根目录时填写完整地址
+   */
+  @IsOptional()
+  @IsUrl({ require_protocol: true })
+  keyLocation?: string
+
+  @IsOptional()
+  @IsUrl({ require_protocol: true })
+  @ApiProperty({ example: 'https://api.indexnow.org/indexnow' })
+  endpoint?: string
+}
+
+export class BingSearchOptions {
+  @IsOptional()
+  @IsBoolean()
+  enable?: boolean
+
+  /**
+   * Bing Webmaster Tools 中生成的 API Key
+   */
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  apiKey?: string
+}
+
+export class ActivityPubOptions {
+  /**
+   * 开启后可以在 Mastodon 等站点关注, 需要把 /.well-known/webfinger 代理到服务端
+   */
+  @IsOptional()
+  @IsBoolean()
+  enable?: boolean
+}
+
+export class SearchOptions {
+  /**
+   * 默认使用存在 MongoDB 中的索引, 切换后需要重建索引
+   */
+  @IsOptional()
+  @IsEnum(['local', 'meilisearch', 'elasticsearch'])
+  provider?: 'local' | 'meilisearch' | 'elasticsearch'
+
+  @IsOptional()
+  @IsUrl({ require_protocol: true, require_tld: false })
+  @ApiProperty({ example: 'http://127.0.0.1:7700' })
+  endpoint?: string
+
+  @IsOptional()
+  @IsString()
+  apiKey?: string
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  indexName?: string
+}
+
+export class FeedOptions {
+  /**
+   * 订阅中的条目数
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  size?: number
+
+  /**
+   * 输出全文, 关闭后只输出摘要
+   */
+  @IsOptional()
+  @IsBoolean()
+  fullContent?: boolean
+}
+
+export class TrashOptions {
+  /**
+   * 回收站保留天数, 为 0 时不自动清理
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  retentionDays?: number
+}
+
+export class UploadsGcOptions {
+  /**
+   * 定时清理无用的上传文件
+   */
+  @IsOptional()
+  @IsBoolean()
+  enable?: boolean
+
+  /**
+   * 只记录要清理的文件, 不删除
+   */
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean
+
+  /**
+   * 上传后多少天内不算作未引用, 草稿中可能还没用上
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  graceDays?: number
+}
@@ -14,12 +14,19 @@ import { ReturnModelType } from '@typegoose/typegoose'
 import { InjectModel } from 'nestjs-typegoose'
 
 import {
+  ActivityPubOptions,
   BackupOptions,
   BaiduSearchOptions,
+  BingSearchOptions,
   CommentOptions,
+  FeedOptions,
   ImageBedDto,
+  IndexNowOptions,
   MailOptionsDto,
   SEODto,
+  SearchOptions,
+  TrashOptions,
+  UploadsGcOptions,
   UrlDto,
 } from './configs.dto'
 
@@ -31,6 +38,13 @@ export interface IConfig {
   commentOptions: CommentOptions
   backupOptions: BackupOptions
   baiduSearchOptions: BaiduSearchOptions
+  indexNowOptions: IndexNowOptions
+  bingSearchOptions: BingSearchOptions
+  trashOptions: TrashOptions
+  searchOptions: SearchOptions
+  feedOptions: FeedOptions
+  activityPubOptions: ActivityPubOptions
+  uploadsGcOptions: UploadsGcOptions
 }
 export type IConfigKeys = keyof IConfig
 @Injectable()
@@ -51,6 +65,16 @@ export class ConfigsService {
     commentOptions: { antiSpam: false },
     backupOptions: { enable: false } as BackupOptions,
     baiduSearchOptions: { enable: false },
+    indexNowOptions: {
+      enable: false,
+      endpoint: 'https://api.indexnow.org/indexnow',
+    },
+    bingSearchOptions: { enable: false },
+    trashOptions: { retentionDays: 30 },
+    searchOptions: { provider: 'local', indexName: 'mx-space' },
+    feedOptions: { size: 10, fullContent: true },
+    activityPubOptions: { enable: false },
+    uploadsGcOptions: { enable: true, dryRun: true, graceDays: 7 },
   }
 
   constructor(
@@ -23,6 +23,14 @@ import { InjectModel } from 'nestjs-typegoose'
 import { ConfigsService } from 'shared/global/configs/configs.service'
 import { addConditionToSeeHideContent } from 'shared/utils'
 
+export type SiteMapType = 'posts' | 'notes' | 'pages'
+
+export interface SiteMapEntry {
+  url: URL
+  published_at: Date
+  images: URL[]
+}
+
 @Injectable()
 export class ToolsService {
   constructor(
@@ -44,22 +52,37 @@ export class ToolsService {
   ) {}
 
   async getSiteMapContent() {
+    const { posts, notes, pages } = await this.getSiteMapEntries()
+    return [...pages, ...notes, ...posts]
+      .map(({ url, published_at }) => ({ url, published_at }))
+      .sort((a, b) => -(a.published_at.getTime() - b.published_at.getTime()))
+  }
+
+  /**
+   * 按类型分开的站点地图条目, 带上文档中的图片
+   */
+  async getSiteMapEntries(): Promise<Record<SiteMapType, SiteMapEntry[]>> {
     const baseURL = this.configs.get('url').webUrl
+    const toEntry = (doc: Post | Note | Page, path: string): SiteMapEntry => ({
+      url: new URL(path, baseURL),
+      published_at: doc.modified,
+      images: (doc.images || [])
+        .filter((image) => image.src)
+        .map((image) => new URL(image.src, baseURL)),
+    })
     const posts = (
       await this.postModel
         .find({
           hide: false,
         })
-        .populate('category')
-    ).map((doc) => {
-      return {
-        url: new URL(
-          `/posts/${(doc.category as Category).slug}/${doc.slug}`,
-          baseURL,
-        ),
-        published_at: doc.modified,
-      }
-    })
+        .select('slug categoryId images modified')
+        .populate('category', 'slug')
+        .lean()
+    )
+      .filter((doc) => doc.category)
+      .map((doc) =>
+        toEntry(doc, `/posts/${(doc.category as Category).slug}/${doc.slug}`),
+      )
     const notes = (
       await this.noteModel
         .find({
@@ -68,24 +91,15 @@ export class ToolsService {
             $lte: new Date(),
           },
         })
+        .select('nid images modified')
         .lean()
-    ).map((doc) => {
-      return {
-        url: new URL(`/notes/${doc.nid}`, baseURL),
-        published_at: doc.modified,
-      }
-    })
+    ).map((doc) => toEntry(doc, `/notes/${doc.nid}`))
 
-    const pages = (await this.pageModel.find().lean()).map((doc) => {
-      return {
-        url: new URL(`/${doc.slug}`, baseURL),
-        published_at: doc.modified,
-      }
-    })
+    const pages = (
+      await this.pageModel.find().select('slug images modified').lean()
+    ).map((doc) => toEntry(doc, `/${doc.slug}`))
 
-    return [...pages, ...notes, ...posts].sort(
-      (a, b) => -(a.published_at.getTime() - b.published_at.getTime()),
-    )
+    return { posts, notes, pages }
   }
 
   async getLastestNoteNid(showHide?: boolean) {
@@ -15,6 +15,13 @@ export function addConditionToSeeHideContent(isMaster: boolean) {
     : { hide: false, password: undefined }
 }
 
+/**
+ * 发布时间在未来, 需要等定时任务公开
+ */
+export function isScheduled(publishAt?: Date | null) {
+  return !!publishAt && publishAt.getTime() > Date.now()
+}
+
 export const range = (min: number, max: number): number[] => {
   const arr = []
   for (let index = min; index <= max; index++) {
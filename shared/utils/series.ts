@@ -0,0 +1,74 @@
+import Note from '@libs/db/models/note.model'
+import Post from '@libs/db/models/post.model'
+import {
+  Series,
+  SeriesItem,
+  SeriesItemRefTypes,
+} from '@libs/db/models/series.model'
+import { ReturnModelType } from '@typegoose/typegoose'
+import { addConditionToSeeHideContent } from './index'
+
+type SeriesModels = {
+  model: ReturnModelType<typeof Series>
+  postModel: ReturnModelType<typeof Post>
+  noteModel: ReturnModelType<typeof Note>
+}
+
+/**
+ * 按系列中的顺序取出条目, 访客看不到隐藏和加密的条目
+ */
+export async function resolveSeriesItems<U extends SeriesModels>(
+  this: U,
+  items: SeriesItem[],
+  isMaster: boolean,
+) {
+  const idsOf = (type: SeriesItemRefTypes) =>
+    items.filter((item) => item.refType === type).map((item) => item.ref)
+  const condition = addConditionToSeeHideContent(isMaster)
+  const [posts, notes] = await Promise.all([
+    this.postModel
+      .find({ _id: { $in: idsOf(SeriesItemRefTypes.Post) }, ...condition })
+      .select('title slug categoryId')
+      .populate('category', 'name slug')
+      .lean(),
+    this.noteModel
+      .find({ _id: { $in: idsOf(SeriesItemRefTypes.Note) }, ...condition })
+      .select('title nid')
+      .lean(),
+  ])
+  const docs = new Map<string, any>(
+    [...posts, ...notes].map((doc) => [String(doc._id), doc]),
+  )
+  return items
+    .map((item) => {
+      const doc = docs.get(String(item.ref))
+      return doc ? { refType: item.refType, ...doc } : null
+    })
+    .filter(Boolean)
+}
+
+/**
+ * 获取文章或记录在所属系列中的位置, index 从 0 开始, 不属于任何系列时返回 null
+ */
+export async function getSeriesNavigation<U extends SeriesModels>(
+  this: U,
+  id: string,
+  isMaster: boolean,
+) {
+  const series = await this.model.findOne({ 'items.ref': id }).lean()
+  if (!series) {
+    return null
+  }
+  const items = await resolveSeriesItems.call(this, series.items, isMaster)
+  const index = items.findIndex((item) => String(item._id) === String(id))
+  if (index === -1) {
+    return null
+  }
+  return {
+    title: series.title,
+    index,
+    total: items.length,
+    prev: items[index - 1] ?? null,
+    next: items[index + 1] ?? null,
+  }
+}
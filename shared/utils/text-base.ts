@@ -59,5 +59,6 @@ export async function refreshKeyedCache(cacheManager: Cache) {
   const namedKeyPrefix = CACHE_KEY_PREFIX + 'name:'
   cacheManager.del(namedKeyPrefix + CacheKeys.RSS)
   cacheManager.del(namedKeyPrefix + CacheKeys.SiteMapCatch)
+  cacheManager.del(namedKeyPrefix + CacheKeys.SiteMapXML)
   cacheManager.del(namedKeyPrefix + CacheKeys.AggregateCatch)
 }
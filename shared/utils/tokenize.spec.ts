@@ -0,0 +1,51 @@
+import {
+  buildTfIdfVectors,
+  cosineSimilarity,
+  stripMarkdown,
+  tokenize,
+} from './tokenize'
+
+describe('tokenize', () => {
+  it('should strip code, links and tags from markdown', () => {
+    const text = stripMarkdown(
+      'See [docs](https://example.com/a) `inline` ```js\ncode\n``` <b>bold</b> https://x.com',
+    )
+    expect(text.split(/\s+/).filter(Boolean)).toEqual(['See', 'docs', 'bold'])
+  })
+
+  it('should split words and drop single letters', () => {
+    expect(tokenize('Hello, World! a I 42')).toEqual(['hello', 'world', '42'])
+  })
+
+  it('should split CJK text into bigrams', () => {
+    expect(tokenize('我的博客')).toEqual(['我的', '的博', '博客'])
+    expect(tokenize('写 代码')).toEqual(['写', '代码'])
+  })
+
+  it('should tokenize mixed text', () => {
+    expect(tokenize('用 TypeScript 写后端')).toEqual([
+      '用',
+      '写后',
+      '后端',
+      'typescript',
+    ])
+  })
+})
+
+describe('buildTfIdfVectors', () => {
+  const [a, b, c] = buildTfIdfVectors([
+    'nest fastify mongodb',
+    'nest fastify mongodb',
+    'react vue',
+  ])
+
+  it('should normalize vectors', () => {
+    const norm = Math.sqrt([...a.values()].reduce((sum, w) => sum + w * w, 0))
+    expect(norm).toBeCloseTo(1)
+  })
+
+  it('should score identical and unrelated documents', () => {
+    expect(cosineSimilarity(a, b)).toBeCloseTo(1)
+    expect(cosineSimilarity(a, c)).toBe(0)
+  })
+})
@@ -0,0 +1,94 @@
+const CJK_RUN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af]+/g
+
+/**
+ * 去掉 Markdown 中的代码块, 链接地址和 HTML 标签, 只保留正文
+ */
+export function stripMarkdown(text: string) {
+  return (text || '')
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/`[^`]*`/g, ' ')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/https?:\/\/\S+/g, ' ')
+}
+
+/**
+ * 分词, 英文按单词, 中日韩文字没有分词器, 按相邻两字切分 (bigram)
+ */
+export function tokenize(text: string) {
+  const tokens: string[] = []
+  const plain = stripMarkdown(text).toLowerCase()
+  for (const run of plain.match(CJK_RUN) || []) {
+    if (run.length === 1) {
+      tokens.push(run)
+      continue
+    }
+    for (let i = 0; i < run.length - 1; i++) {
+      tokens.push(run.slice(i, i + 2))
+    }
+  }
+  for (const word of plain.replace(CJK_RUN, ' ').match(/[a-z0-9]+/g) || []) {
+    if (word.length > 1) {
+      tokens.push(word)
+    }
+  }
+  return tokens
+}
+
+/**
+ * 统计一篇文档的词频
+ */
+export function termFrequency(doc: string) {
+  const tf = new Map<string, number>()
+  for (const token of tokenize(doc)) {
+    tf.set(token, (tf.get(token) || 0) + 1)
+  }
+  return tf
+}
+
+/**
+ * 由各篇文档的词频计算 TF-IDF 向量, 已归一化, 两个向量的点积即余弦相似度
+ */
+export function tfIdfVectors(termFreqs: Map<string, number>[]) {
+  const docFreq = new Map<string, number>()
+  for (const tf of termFreqs) {
+    for (const token of tf.keys()) {
+      docFreq.set(token, (docFreq.get(token) || 0) + 1)
+    }
+  }
+  return termFreqs.map((tf) => {
+    const vector = new Map<string, number>()
+    let norm = 0
+    for (const [token, count] of tf) {
+      const idf =
+        Math.log((1 + termFreqs.length) / (1 + docFreq.get(token))) + 1
+      const weight = (1 + Math.log(count)) * idf
+      vector.set(token, weight)
+      norm += weight * weight
+    }
+    norm = Math.sqrt(norm)
+    for (const [token, weight] of vector) {
+      vector.set(token, weight / norm)
+    }
+    return vector
+  })
+}
+
+/**
+ * 计算每篇文档的 TF-IDF 向量
+ */
+export function buildTfIdfVectors(docs: string[]) {
+  return tfIdfVectors(docs.map(termFrequency))
+}
+
+export function cosineSimilarity(
+  a: Map<string, number>,
+  b: Map<string, number>,
+) {
+  const [short, long] = a.size < b.size ? [a, b] : [b, a]
+  let sum = 0
+  for (const [token, weight] of short) {
+    sum += weight * (long.get(token) || 0)
+  }
+  return sum
+}